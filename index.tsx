@@ -1,5 +1,6 @@
 
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
+import { GoogleGenAI, Type } from "@google/genai";
+import type { GenerateContentConfig, GroundingChunk, Schema } from "@google/genai";
 import OpenAI from "openai";
 import Anthropic from "@anthropic-ai/sdk";
 import React, { useState, useMemo, useEffect, useCallback, useReducer, useRef } from 'react';
@@ -79,35 +80,192 @@ const extractJson = (text: string): string => {
     throw new Error("Could not find a valid JSON object in the AI response.");
 };
 
+const JSON_ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
 
 /**
- * A professional, state-of-the-art promise queue processor.
- * It executes a series of promise-returning functions sequentially with a delay,
- * preventing API rate-limiting issues and providing progress updates.
- * @param items The array of items to process.
- * @param promiseFn The function that takes an item and returns a promise.
- * @param onProgress Optional callback to report progress for each item.
- * @param delay The delay in ms between each promise execution.
+ * Reads one string value out of JSON that is still arriving, decoding escapes up to the
+ * last complete character.
+ * @param text The response received so far.
+ * @param key The key whose value to read.
+ * @returns The value so far, or null if the key has not arrived yet.
  */
-const processPromiseQueue = async (items, promiseFn, onProgress, delay = 1000) => {
-    const results = [];
-    for (let i = 0; i < items.length; i++) {
-        const item = items[i];
-        try {
-            const result = await promiseFn(item);
-            results.push({ status: 'fulfilled', value: result });
-            if (onProgress) onProgress({ item, result, index: i, success: true });
-        } catch (error) {
-            results.push({ status: 'rejected', reason: error });
-            if (onProgress) onProgress({ item, error, index: i, success: false });
+const readPartialJsonString = (text: string, key: string): string | null => {
+    const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(text);
+    if (!match) return null;
+    let value = '';
+    for (let i = match.index + match[0].length; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') break;
+        if (char !== '\\') {
+            value += char;
+            continue;
         }
-        if (i < items.length - 1) {
-            await new Promise(resolve => setTimeout(resolve, delay));
+        const escaped = text[i + 1];
+        if (escaped === undefined) break;
+        if (escaped === 'u') {
+            const hex = text.slice(i + 2, i + 6);
+            if (hex.length < 4) break;
+            value += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+        } else {
+            value += JSON_ESCAPES[escaped] ?? escaped;
+            i++;
         }
     }
-    return results;
+    return value;
+};
+
+
+const createAbortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const isAbortError = (error): boolean => error?.name === 'AbortError' || error?.name === 'APIUserAbortError';
+
+/**
+ * Resolves after `ms` milliseconds, or rejects with an AbortError as soon as `signal` aborts.
+ */
+const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    }, { once: true });
+});
+
+/**
+ * A token bucket that allows short bursts of up to `capacity` requests while holding the
+ * long-run rate at `requestsPerMinute`.
+ */
+const createTokenBucket = (requestsPerMinute: number, capacity: number = 1) => {
+    const ratePerMs = Math.max(1, requestsPerMinute) / 60000;
+    let tokens = capacity;
+    let lastRefill = Date.now();
+    return {
+        take: async (signal?: AbortSignal) => {
+            for (;;) {
+                const now = Date.now();
+                tokens = Math.min(capacity, tokens + (now - lastRefill) * ratePerMs);
+                lastRefill = now;
+                if (tokens >= 1) {
+                    tokens -= 1;
+                    return;
+                }
+                await abortableDelay((1 - tokens) / ratePerMs, signal);
+            }
+        },
+    };
+};
+
+/**
+ * Runs tasks with at most `concurrency` in flight, each first taking a token from a
+ * rate-limiting bucket. A task's slot is freed as soon as its promise settles, so work
+ * started after it (such as fetching child sitemaps) can share the same limiter.
+ */
+const createTaskLimiter = (concurrency: number, requestsPerMinute: number) => {
+    const limit = Math.max(1, Math.round(concurrency) || 1);
+    const bucket = createTokenBucket(requestsPerMinute, limit);
+    const waiting: (() => void)[] = [];
+    let running = 0;
+    return async <T,>(task: () => Promise<T>): Promise<T> => {
+        if (running < limit) running++;
+        else await new Promise<void>(resolve => waiting.push(resolve));
+        try {
+            await bucket.take();
+            return await task();
+        } finally {
+            // Hand the slot straight to the next waiting task, if any.
+            const next = waiting.shift();
+            if (next) next();
+            else running--;
+        }
+    };
+};
+
+type TaskLimiter = ReturnType<typeof createTaskLimiter>;
+
+type JobOutcome<R> = { ok: true; value: R } | { ok: false; error: unknown; cancelled: boolean };
+
+/**
+ * A pausable, cancellable job queue. At most `concurrency` jobs run at once, and every job
+ * first takes a token from a rate-limiting bucket. Pausing stops new jobs from starting while
+ * running ones finish; cancelling aborts running jobs through the shared AbortSignal and
+ * reports every job that never started as cancelled.
+ * @param options.worker Processes one item. Must honour the signal it receives.
+ * @param options.onJobStart Called when an item leaves the queue and starts running.
+ * @param options.onJobSettled Called exactly once per item with its outcome.
+ * @returns Controls for the queue. `run` resolves once the queue is drained or cancelled.
+ */
+const createJobQueue = <T, R>({ concurrency, requestsPerMinute, worker, onJobStart, onJobSettled }: {
+    concurrency: number;
+    requestsPerMinute: number;
+    worker: (item: T, signal: AbortSignal) => Promise<R>;
+    onJobStart?: (item: T) => void;
+    onJobSettled?: (item: T, outcome: JobOutcome<R>) => void;
+}) => {
+    const limit = Math.max(1, Math.round(concurrency) || 1);
+    const bucket = createTokenBucket(requestsPerMinute, limit);
+    const controller = new AbortController();
+    const pending: T[] = [];
+    let running = 0;
+    let paused = false;
+    let resolveIdle: () => void;
+    const idle = new Promise<void>(resolve => { resolveIdle = resolve; });
+
+    const pump = () => {
+        while (!paused && !controller.signal.aborted && running < limit && pending.length > 0) {
+            const item = pending.shift();
+            running++;
+            (async () => {
+                try {
+                    await bucket.take(controller.signal);
+                    onJobStart?.(item);
+                    const value = await worker(item, controller.signal);
+                    onJobSettled?.(item, { ok: true, value });
+                } catch (error) {
+                    onJobSettled?.(item, { ok: false, error, cancelled: controller.signal.aborted || isAbortError(error) });
+                } finally {
+                    running--;
+                    pump();
+                }
+            })();
+        }
+        if (running === 0 && pending.length === 0) resolveIdle();
+    };
+
+    return {
+        run: (items: T[]) => {
+            pending.push(...items);
+            pump();
+            return idle;
+        },
+        pause: () => { paused = true; },
+        resume: () => {
+            paused = false;
+            pump();
+        },
+        cancel: () => {
+            controller.abort();
+            pending.splice(0).forEach(item => onJobSettled?.(item, { ok: false, error: createAbortError(), cancelled: true }));
+            pump();
+        },
+        /** Drops the jobs that have not started yet and lets the running ones finish. */
+        drain: () => {
+            pending.splice(0).forEach(item => onJobSettled?.(item, { ok: false, error: createAbortError(), cancelled: true }));
+            pump();
+        },
+    };
 };
 
+/** One entry in a job's attempt log, as reported by `makeResilientAiCall`. */
+interface AttemptLogEntry {
+    attempt: number;
+    at: string;
+    durationMs: number;
+    ok: boolean;
+    error?: string;
+    retryInMs?: number;
+}
+
 /**
  * Wraps an async function with a robust retry mechanism. It retries on any failure,
  * using exponential backoff for API rate-limiting errors (HTTP 429) and a short,
@@ -116,28 +274,42 @@ const processPromiseQueue = async (items, promiseFn, onProgress, delay = 1000) =
  * including parsing and validation, throwing an error on failure.
  * @param maxRetries The maximum number of retries before giving up.
  * @param initialDelay The initial delay in ms for the first rate-limit retry.
+ * @param options.signal Aborts the call, including any pending retry delay. Aborted calls are never retried.
+ * @param options.onAttempt Receives a log entry for every attempt, successful or not.
  * @returns A Promise that resolves with the result of the `apiCallFn`.
  */
 const makeResilientAiCall = async <T,>(
     apiCallFn: () => Promise<T>, 
     maxRetries: number = 3, 
-    initialDelay: number = 2000
+    initialDelay: number = 2000,
+    { signal, onAttempt }: { signal?: AbortSignal; onAttempt?: (entry: AttemptLogEntry) => void } = {}
 ): Promise<T> => {
     let lastError: Error | null = null;
     for (let i = 0; i < maxRetries; i++) {
+        if (signal?.aborted) throw createAbortError();
+        const startedAt = Date.now();
         try {
-            return await apiCallFn();
-        } catch (error: any) {
-            lastError = error;
+            const result = await apiCallFn();
+            onAttempt?.({ attempt: i + 1, at: new Date(startedAt).toISOString(), durationMs: Date.now() - startedAt, ok: true });
+            return result;
+        } catch (error) {
+            lastError = (error instanceof Error) ? error : new Error(String(error));
+            const logEntry = { attempt: i + 1, at: new Date(startedAt).toISOString(), durationMs: Date.now() - startedAt, ok: false, error: lastError.message };
+            if (signal?.aborted || isAbortError(error)) {
+                onAttempt?.({ ...logEntry, error: 'Cancelled' });
+                throw error;
+            }
             if (i >= maxRetries - 1) {
+                onAttempt?.(logEntry);
                 console.error(`AI call failed on final attempt (${maxRetries}).`, error);
                 throw error; // Throw after final attempt
             }
 
+            const status = typeof error === 'object' && error !== null && 'status' in error ? error.status : undefined;
             const isRateLimitError = (
-                (error.status === 429) || 
-                (error.message && error.message.includes('429')) ||
-                (error.message && error.message.toLowerCase().includes('rate limit'))
+                (status === 429) || 
+                lastError.message.includes('429') ||
+                lastError.message.toLowerCase().includes('rate limit')
             );
 
             let delay = 1000; // Default delay for non-rate-limit errors
@@ -145,9 +317,10 @@ const makeResilientAiCall = async <T,>(
                 delay = initialDelay * Math.pow(2, i) + Math.random() * 1000;
                 console.warn(`Rate limit error detected. Retrying in ${Math.round(delay / 1000)}s... (Attempt ${i + 1}/${maxRetries})`);
             } else {
-                 console.warn(`AI call failed. Retrying in ${delay/1000}s... (Attempt ${i + 1}/${maxRetries})`, error.message);
+                 console.warn(`AI call failed. Retrying in ${delay/1000}s... (Attempt ${i + 1}/${maxRetries})`, lastError.message);
             }
-            await new Promise(resolve => setTimeout(resolve, delay));
+            onAttempt?.({ ...logEntry, retryInMs: Math.round(delay) });
+            await abortableDelay(delay, signal);
         }
     }
     // This part should be unreachable if maxRetries > 0, but is a good fallback.
@@ -155,6 +328,498 @@ const makeResilientAiCall = async <T,>(
 };
 
 
+/**
+ * Registry of supported AI providers with their default models and capabilities.
+ * `local` targets any self-hosted, OpenAI-compatible server (Ollama, LM Studio, vLLM).
+ */
+const AI_PROVIDERS = {
+    gemini: {
+        label: 'Google Gemini', defaultModel: 'gemini-2.5-flash', defaultImageModel: 'imagen-3.0-generate-002', requiresKey: true,
+        queueDefaults: { concurrency: 2, requestsPerMinute: 10 },
+        capabilities: { jsonMode: true, searchGrounding: true, streaming: true, imageGeneration: true },
+    },
+    openai: {
+        label: 'OpenAI', defaultModel: 'gpt-4o', defaultImageModel: 'dall-e-3', requiresKey: true,
+        queueDefaults: { concurrency: 3, requestsPerMinute: 30 },
+        capabilities: { jsonMode: true, searchGrounding: false, streaming: true, imageGeneration: true },
+    },
+    anthropic: {
+        label: 'Anthropic', defaultModel: 'claude-3-haiku-20240307', defaultImageModel: '', requiresKey: true,
+        queueDefaults: { concurrency: 2, requestsPerMinute: 20 },
+        capabilities: { jsonMode: false, searchGrounding: false, streaming: true, imageGeneration: false },
+    },
+    openrouter: {
+        label: 'OpenRouter (Experimental)', defaultModel: 'google/gemini-flash-1.5', defaultImageModel: '', requiresKey: true,
+        queueDefaults: { concurrency: 2, requestsPerMinute: 20 },
+        capabilities: { jsonMode: true, searchGrounding: false, streaming: true, imageGeneration: false },
+    },
+    local: {
+        label: 'Local / Self-Hosted (OpenAI-compatible)', defaultModel: 'llama3.1', defaultImageModel: '', requiresKey: false,
+        queueDefaults: { concurrency: 1, requestsPerMinute: 60 },
+        // Not every local server honours `response_format`, so JSON is extracted from plain text instead.
+        capabilities: { jsonMode: false, searchGrounding: false, streaming: true, imageGeneration: false },
+    },
+};
+
+type AiProviderId = keyof typeof AI_PROVIDERS;
+
+interface AiRequest {
+    prompt: string;
+    /** Ask for a JSON response, using the provider's native JSON mode when it has one. */
+    json?: boolean;
+    /** Optional response schema, only honoured by providers with structured output (Gemini). */
+    responseSchema?: Schema;
+    /** Ground the response with live web search when the provider supports it. Takes precedence over `json`. */
+    useSearch?: boolean;
+    maxTokens?: number;
+    signal?: AbortSignal;
+}
+
+/** What one AI call used, as reported by the provider. */
+interface AiUsage {
+    inputTokens: number;
+    outputTokens: number;
+    /** Generated images, which are priced per image rather than per token. */
+    images?: number;
+    /**
+     * True when the usage was estimated from the text length, because the provider did not
+     * report it or the call was cancelled before it could.
+     */
+    estimated?: boolean;
+}
+
+interface AiResponse {
+    text: string;
+    groundingChunks?: GroundingChunk[];
+    usage?: AiUsage;
+}
+
+interface AiImageRequest {
+    prompt: string;
+    /** Landscape suits featured images, which themes usually crop to a wide banner. */
+    aspectRatio?: '16:9' | '1:1';
+    signal?: AbortSignal;
+}
+
+interface AiImage {
+    /** The image file, base64-encoded. */
+    base64: string;
+    mimeType: string;
+}
+
+interface AiProvider {
+    id: AiProviderId;
+    model: string;
+    /** The model `generateImage` uses, or an empty string when the provider has none. */
+    imageModel: string;
+    capabilities: { jsonMode: boolean; searchGrounding: boolean; streaming: boolean; imageGeneration: boolean };
+    generate: (request: AiRequest) => Promise<AiResponse>;
+    /** Generates an image with the provider's image model. Throws for providers without one. */
+    generateImage: (request: AiImageRequest) => Promise<AiImage>;
+    /** Streams the response, calling `onText` with the accumulated text after every chunk. */
+    stream: (request: AiRequest, onText: (textSoFar: string) => void) => Promise<AiResponse>;
+    /** Lists the models available to the configured key. Doubles as a lightweight key check. */
+    listModels: () => Promise<string[]>;
+}
+
+/** An error that carries the HTTP status of the failed request, like the SDK errors do. */
+type HttpStatusError = Error & { status?: number };
+
+const httpStatusError = (message: string, status: number): HttpStatusError => Object.assign(new Error(message), { status });
+
+/**
+ * Parses a JSON response from a provider's REST API, throwing an error that carries
+ * the HTTP status (like the SDK errors do) when the request was not successful.
+ */
+const readProviderJson = async (response: Response) => {
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw httpStatusError(data?.error?.message || data?.message || `HTTP error! Status: ${response.status}`, response.status);
+    }
+    return data;
+};
+
+/**
+ * Maps a failed key check onto the status shown next to the API key field.
+ * @param error The error thrown by `AiProvider.listModels`.
+ * @returns 'quota' for exhausted credit or rate limits, 'invalid' for rejected keys, otherwise 'network'.
+ */
+const classifyKeyError = (error: unknown): 'invalid' | 'quota' | 'network' => {
+    const status = typeof error === 'object' && error !== null && 'status' in error ? error.status : undefined;
+    const message = ((error instanceof Error) ? error.message : String(error)).toLowerCase();
+    if (status === 429 || status === 402 || /quota|credit|billing|exhausted/.test(message)) return 'quota';
+    if (status === 400 || status === 401 || status === 403) return 'invalid';
+    return 'network';
+};
+
+const unsupportedImageGeneration = (id: AiProviderId) => async (): Promise<AiImage> => {
+    throw new Error(`${AI_PROVIDERS[id].label} cannot generate images. Switch to Google Gemini or OpenAI, or pick an image from the media library.`);
+};
+
+const createGeminiProvider = (apiKey: string, model: string, imageModel: string): AiProvider => {
+    const client = new GoogleGenAI({ apiKey });
+    // Thinking models bill their thoughts as output tokens.
+    const toUsage = (metadata): AiUsage | undefined => metadata
+        ? { inputTokens: metadata.promptTokenCount || 0, outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0) }
+        : undefined;
+    const buildParams = ({ prompt, json, responseSchema, useSearch, signal }: AiRequest) => {
+        const config: GenerateContentConfig = signal ? { abortSignal: signal } : {};
+        if (useSearch) config.tools = [{ googleSearch: {} }];
+        else if (json) {
+            config.responseMimeType = 'application/json';
+            if (responseSchema) config.responseSchema = responseSchema;
+        }
+        return { model, contents: prompt, config };
+    };
+    return {
+        id: 'gemini', model, imageModel, capabilities: AI_PROVIDERS.gemini.capabilities,
+        generate: async (request) => {
+            const response = await client.models.generateContent(buildParams(request));
+            return { text: response.text, groundingChunks: response.candidates?.[0]?.groundingMetadata?.groundingChunks, usage: toUsage(response.usageMetadata) };
+        },
+        stream: async (request, onText) => {
+            let text = '';
+            let groundingChunks;
+            let usageMetadata;
+            for await (const chunk of await client.models.generateContentStream(buildParams(request))) {
+                text += chunk.text || '';
+                groundingChunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks || groundingChunks;
+                usageMetadata = chunk.usageMetadata || usageMetadata;
+                onText(text);
+            }
+            return { text, groundingChunks, usage: toUsage(usageMetadata) };
+        },
+        generateImage: async ({ prompt, aspectRatio = '16:9', signal }) => {
+            const response = await client.models.generateImages({ model: imageModel, prompt, config: { numberOfImages: 1, aspectRatio, abortSignal: signal } });
+            const image = response.generatedImages?.[0]?.image;
+            if (!image?.imageBytes) throw new Error('The image model returned no image. The prompt may have been blocked by its safety filters.');
+            return { base64: image.imageBytes, mimeType: image.mimeType || 'image/png' };
+        },
+        listModels: async () => {
+            const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000&key=${encodeURIComponent(apiKey)}`);
+            const data = await readProviderJson(response);
+            return (data.models || [])
+                .filter(m => m.supportedGenerationMethods?.includes('generateContent'))
+                .map(m => m.name.replace(/^models\//, ''));
+        },
+    };
+};
+
+const createAnthropicProvider = (apiKey: string, model: string): AiProvider => {
+    const client = new Anthropic({ apiKey, dangerouslyAllowBrowser: true });
+    return {
+        id: 'anthropic', model, imageModel: '', capabilities: AI_PROVIDERS.anthropic.capabilities,
+        generate: async ({ prompt, maxTokens = 4096, signal }) => {
+            const response = await client.messages.create({ model, max_tokens: maxTokens, messages: [{ role: 'user', content: prompt }] }, { signal });
+            return {
+                text: response.content[0]?.type === 'text' ? response.content[0].text : '',
+                usage: { inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens },
+            };
+        },
+        stream: async ({ prompt, maxTokens = 4096, signal }, onText) => {
+            let text = '';
+            // The input count arrives with the first event and the output count with the last.
+            const usage: AiUsage = { inputTokens: 0, outputTokens: 0 };
+            const events = await client.messages.create({ model, max_tokens: maxTokens, messages: [{ role: 'user', content: prompt }], stream: true }, { signal });
+            for await (const event of events) {
+                if (event.type === 'message_start') usage.inputTokens = event.message.usage.input_tokens;
+                else if (event.type === 'message_delta') usage.outputTokens = event.usage.output_tokens;
+                else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+                    text += event.delta.text;
+                    onText(text);
+                }
+            }
+            return { text, usage };
+        },
+        generateImage: unsupportedImageGeneration('anthropic'),
+        listModels: async () => {
+            // The pinned SDK predates the models endpoint, so it is called directly.
+            const response = await fetch('https://api.anthropic.com/v1/models?limit=100', {
+                headers: { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01', 'anthropic-dangerous-direct-browser-access': 'true' },
+            });
+            const data = await readProviderJson(response);
+            return (data.data || []).map(m => m.id);
+        },
+    };
+};
+
+const createOpenAiCompatibleProvider = (id: AiProviderId, client: OpenAI, model: string, imageModel: string = ''): AiProvider => {
+    const { capabilities } = AI_PROVIDERS[id];
+    const toUsage = (usage): AiUsage | undefined => usage ? { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 } : undefined;
+    const buildParams = ({ prompt, json }: AiRequest) => ({
+        model,
+        messages: [{ role: 'user' as const, content: prompt }],
+        ...(json && capabilities.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+    return {
+        id, model, imageModel: capabilities.imageGeneration ? imageModel : '', capabilities,
+        generate: async (request) => {
+            const response = await client.chat.completions.create(buildParams(request), { signal: request.signal });
+            return { text: response.choices[0]?.message?.content || '', usage: toUsage(response.usage) };
+        },
+        stream: async (request, onText) => {
+            let text = '';
+            let usage: AiUsage | undefined;
+            // Local servers may reject `stream_options`; their usage is estimated instead.
+            const streamOptions = id !== 'local' ? { stream_options: { include_usage: true } } : {};
+            const chunks = await client.chat.completions.create({ ...buildParams(request), stream: true, ...streamOptions }, { signal: request.signal });
+            for await (const chunk of chunks) {
+                text += chunk.choices[0]?.delta?.content || '';
+                usage = toUsage(chunk.usage) || usage;
+                onText(text);
+            }
+            return { text, usage };
+        },
+        generateImage: capabilities.imageGeneration ? async ({ prompt, aspectRatio = '16:9', signal }) => {
+            // gpt-image models always return base64 and use different landscape sizes than DALL-E 3.
+            const isGptImage = imageModel.startsWith('gpt-image');
+            const size: OpenAI.ImageGenerateParams['size'] = aspectRatio === '1:1' ? '1024x1024' : isGptImage ? '1536x1024' : '1792x1024';
+            const response = await client.images.generate({ model: imageModel, prompt, n: 1, size, ...(isGptImage ? {} : { response_format: 'b64_json' as const }) }, { signal });
+            const base64 = response.data?.[0]?.b64_json;
+            if (!base64) throw new Error('The image model returned no image.');
+            return { base64, mimeType: 'image/png' };
+        } : unsupportedImageGeneration(id),
+        listModels: async () => {
+            const page = await client.models.list();
+            return page.data.map(m => m.id).sort();
+        },
+    };
+};
+
+/**
+ * Creates the provider adapter for the given AI provider. All handlers talk to AI models
+ * exclusively through the returned `AiProvider` interface.
+ * @param providerId One of the keys of `AI_PROVIDERS`.
+ * @param settings The API key, model names and (for `local`) the server's base URL.
+ * @returns An `AiProvider` ready to generate or stream responses.
+ */
+const createAiProvider = (providerId: AiProviderId, { apiKey, model, baseUrl, imageModel }: { apiKey: string; model?: string; baseUrl?: string; imageModel?: string }): AiProvider => {
+    const resolvedModel = model?.trim() || AI_PROVIDERS[providerId]?.defaultModel;
+    const resolvedImageModel = imageModel?.trim() || AI_PROVIDERS[providerId]?.defaultImageModel;
+    switch (providerId) {
+        case 'gemini': return createGeminiProvider(apiKey, resolvedModel, resolvedImageModel);
+        case 'anthropic': return createAnthropicProvider(apiKey, resolvedModel);
+        case 'openai': return createOpenAiCompatibleProvider('openai', new OpenAI({ apiKey, dangerouslyAllowBrowser: true }), resolvedModel, resolvedImageModel);
+        case 'openrouter': {
+            const provider = createOpenAiCompatibleProvider('openrouter', new OpenAI({ baseURL: "https://openrouter.ai/api/v1", apiKey, defaultHeaders: { "HTTP-Referer": "http://localhost:3000", "X-Title": "AI Content Engine" }, dangerouslyAllowBrowser: true }), resolvedModel);
+            return {
+                ...provider,
+                // OpenRouter's model list is public, so the key is verified separately first.
+                listModels: async () => {
+                    const response = await fetch('https://openrouter.ai/api/v1/auth/key', { headers: { 'Authorization': `Bearer ${apiKey}` } });
+                    const { data } = await readProviderJson(response);
+                    if (data?.limit_remaining != null && data.limit_remaining <= 0) {
+                        throw httpStatusError('OpenRouter credit limit reached for this key.', 402);
+                    }
+                    return provider.listModels();
+                },
+            };
+        }
+        case 'local': {
+            if (!baseUrl?.trim()) throw new Error('A base URL is required for the local provider.');
+            // Local servers usually ignore the key, but the OpenAI SDK refuses to run without one.
+            return createOpenAiCompatibleProvider('local', new OpenAI({ baseURL: baseUrl.trim().replace(/\/$/, ''), apiKey: apiKey || 'local', dangerouslyAllowBrowser: true }), resolvedModel);
+        }
+        default: throw new Error('Unsupported AI provider');
+    }
+};
+
+/** A recorded AI call. Costs are worked out from the price table when they are shown. */
+interface UsageRecord extends AiUsage {
+    at: string;
+    provider: AiProviderId;
+    model: string;
+    /** The post the call was made for, if any. */
+    postId?: string;
+    /** The bulk run the call was part of, if any. */
+    runId?: string;
+}
+
+/** Prices in US dollars per million tokens, and per image for image models. */
+interface ModelPrice {
+    input: number;
+    output: number;
+    image?: number;
+}
+
+/** The usage log, prices and budget as they are saved in IndexedDB. */
+interface StoredUsage {
+    log?: UsageRecord[];
+    prices?: Record<string, ModelPrice>;
+    budget?: { perRun?: number; perMonth?: number };
+}
+
+/** Calls older than this are dropped from the usage log. */
+const USAGE_RETENTION_MONTHS = 13;
+
+/**
+ * List prices at the time of writing. They change often and differ by plan, so every entry
+ * can be edited, and models not listed here are matched by their longest listed prefix.
+ */
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+    'imagen-3.0-generate-002': { input: 0, output: 0, image: 0.03 },
+    'gpt-4o': { input: 2.50, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.60 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+    'dall-e-3': { input: 0, output: 0, image: 0.08 },
+    'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'google/gemini-flash-1.5': { input: 0.075, output: 0.30 },
+    'openai/gpt-4o': { input: 2.50, output: 10 },
+    'anthropic/claude-3.5-sonnet': { input: 3, output: 15 },
+};
+
+/** A rough token count for providers that do not report usage: about four characters per token. */
+const estimateTokens = (text: string): number => Math.ceil((text || '').length / 4);
+
+/** Finds a model's price: an exact entry, or the longest entry the model name starts with. */
+const findModelPrice = (prices: Record<string, ModelPrice>, model: string): ModelPrice | null => {
+    if (prices[model]) return prices[model];
+    const prefix = Object.keys(prices).filter(key => model.startsWith(key)).sort((a, b) => b.length - a.length)[0];
+    return prefix ? prices[prefix] : null;
+};
+
+/** @returns The call's cost in dollars, or null when its model has no price. Local models are free. */
+const usageCost = (record: UsageRecord, prices: Record<string, ModelPrice>): number | null => {
+    if (record.provider === 'local') return 0;
+    const price = findModelPrice(prices, record.model);
+    if (!price) return null;
+    return (record.inputTokens * price.input + record.outputTokens * price.output) / 1_000_000 + (record.images || 0) * (price.image || 0);
+};
+
+interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    cost: number;
+    /** Calls whose model has no price, so they are missing from `cost`. */
+    unpriced: number;
+    /** Calls whose usage was estimated rather than reported by the provider. */
+    estimated: number;
+}
+
+const sumUsage = (records: UsageRecord[], prices: Record<string, ModelPrice>): UsageTotals =>
+    records.reduce((totals, record) => {
+        const cost = usageCost(record, prices);
+        return {
+            calls: totals.calls + 1,
+            inputTokens: totals.inputTokens + record.inputTokens,
+            outputTokens: totals.outputTokens + record.outputTokens,
+            images: totals.images + (record.images || 0),
+            cost: totals.cost + (cost || 0),
+            unpriced: totals.unpriced + (cost === null ? 1 : 0),
+            estimated: totals.estimated + (record.estimated ? 1 : 0),
+        };
+    }, { calls: 0, inputTokens: 0, outputTokens: 0, images: 0, cost: 0, unpriced: 0, estimated: 0 });
+
+/** The `YYYY-MM` month a call falls in, in local time. */
+const usageMonth = (at: string): string => {
+    const date = new Date(at);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const formatCost = (cost: number): string => `$${cost < 1 ? cost.toFixed(cost < 0.01 ? 4 : 3) : cost.toFixed(2)}`;
+
+const formatTokens = (tokens: number): string => tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(2)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+/**
+ * Wraps a provider so every call reports what it used. Retries made by
+ * `makeResilientAiCall` are separate calls, so they are counted too. Providers still bill
+ * for the work they did on a cancelled call, so those are recorded with an estimate: the
+ * prompt, plus for streams the text that arrived before the cancel.
+ */
+const withUsageTracking = (provider: AiProvider, onUsage: (usage: AiUsage, model: string) => void): AiProvider => {
+    const wasCancelled = (signal: AbortSignal | undefined, error: unknown) => !!signal?.aborted || isAbortError(error);
+    return {
+        ...provider,
+        generate: async (request) => {
+            try {
+                const response = await provider.generate(request);
+                onUsage(response.usage || { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(response.text), estimated: true }, provider.model);
+                return response;
+            } catch (error) {
+                if (wasCancelled(request.signal, error)) onUsage({ inputTokens: estimateTokens(request.prompt), outputTokens: 0, estimated: true }, provider.model);
+                throw error;
+            }
+        },
+        stream: async (request, onText) => {
+            let received = '';
+            try {
+                const response = await provider.stream(request, text => {
+                    received = text;
+                    onText(text);
+                });
+                onUsage(response.usage || { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(response.text), estimated: true }, provider.model);
+                return response;
+            } catch (error) {
+                if (wasCancelled(request.signal, error)) onUsage({ inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(received), estimated: true }, provider.model);
+                throw error;
+            }
+        },
+        generateImage: async (request) => {
+            try {
+                const image = await provider.generateImage(request);
+                onUsage({ inputTokens: 0, outputTokens: 0, images: 1 }, provider.imageModel);
+                return image;
+            } catch (error) {
+                if (wasCancelled(request.signal, error)) onUsage({ inputTokens: 0, outputTokens: 0, images: 1, estimated: true }, provider.imageModel);
+                throw error;
+            }
+        },
+    };
+};
+
+/**
+ * Estimates what generating one article costs: the average of earlier bulk-run posts written
+ * with the same model when there are any, otherwise a guess from the voice profile's target
+ * length (HTML markup and the JSON envelope roughly double the tokens of the prose).
+ */
+const estimateArticleUsage = (log: UsageRecord[], model: string, targetLength: number): { inputTokens: number; outputTokens: number; basedOnHistory: boolean } => {
+    const perPost = new Map<string, { inputTokens: number; outputTokens: number }>();
+    log.filter(record => record.runId && record.postId && record.model === model).forEach(record => {
+        const totals = perPost.get(record.postId) || { inputTokens: 0, outputTokens: 0 };
+        perPost.set(record.postId, { inputTokens: totals.inputTokens + record.inputTokens, outputTokens: totals.outputTokens + record.outputTokens });
+    });
+    if (perPost.size > 0) {
+        const posts = [...perPost.values()];
+        return {
+            inputTokens: Math.round(posts.reduce((sum, p) => sum + p.inputTokens, 0) / posts.length),
+            outputTokens: Math.round(posts.reduce((sum, p) => sum + p.outputTokens, 0) / posts.length),
+            basedOnHistory: true,
+        };
+    }
+    return { inputTokens: 4000, outputTokens: Math.round((targetLength || DEFAULT_VOICE_PROFILE.targetLength) * 1.35 * 2), basedOnHistory: false };
+};
+
+/** The confirmation shown before a bulk run: its estimated cost and how the budgets apply. */
+const describeRunEstimate = (
+    count: number, model: string, estimate: ReturnType<typeof estimateArticleUsage>, postCost: number | null,
+    budget: { perRun: number; perMonth: number }, monthSpent: number
+): string => {
+    const lines = [`Generate ${count} post${count !== 1 ? 's' : ''} with ${model}?`, ''];
+    const tokens = `about ${formatTokens(estimate.inputTokens)} input and ${formatTokens(estimate.outputTokens)} output tokens each, ${estimate.basedOnHistory ? 'based on your earlier runs' : 'for a typical article'}`;
+    if (postCost === null) {
+        lines.push(`No price is set for ${model}, so the cost cannot be estimated (${tokens}) and the budgets cannot stop the run. Add a price under "Usage and budget".`);
+    } else {
+        lines.push(`Estimated cost: ${formatCost(postCost * count)} (${formatCost(postCost)} per post, ${tokens}). Retries and web search can add to it.`);
+        if (budget.perRun > 0 && postCost * count > budget.perRun) {
+            lines.push(`Your ${formatCost(budget.perRun)} per-run budget stops the run after about ${Math.floor(budget.perRun / postCost)} posts.`);
+        }
+        if (budget.perMonth > 0) {
+            lines.push(monthSpent >= budget.perMonth
+                ? `This month's spending (${formatCost(monthSpent)}) has already reached your ${formatCost(budget.perMonth)} monthly budget, so no posts will be generated.`
+                : `This month's spending is ${formatCost(monthSpent)} of your ${formatCost(budget.perMonth)} monthly budget.`);
+        }
+    }
+    return lines.join('\n');
+};
+
+
 /**
  * Intelligently fetches a public resource (e.g., sitemap) by first attempting a direct connection.
  * If the direct connection fails due to a CORS-like network error, it automatically
@@ -225,556 +890,4466 @@ const directFetch = async (url: string, options: RequestInit = {}): Promise<Resp
     }
 };
 
+type SeoPluginId = 'yoast' | 'rankmath' | 'aioseo' | 'seopress' | 'none';
+
+/** The SEO values the app manages. Empty strings mean "leave the plugin's default". */
+interface SeoFields {
+    metaTitle: string;
+    metaDescription: string;
+    focusKeyword: string;
+    canonicalUrl: string;
+}
+
+const SEO_FIELD_LABELS: Record<keyof SeoFields, string> = {
+    metaTitle: 'meta title',
+    metaDescription: 'meta description',
+    focusKeyword: 'focus keyword',
+    canonicalUrl: 'canonical URL',
+};
+
+/** Everything an adapter needs to talk to one WordPress site. */
+interface WpContext {
+    siteUrl: string;
+    headers: Headers;
+}
+
+interface SeoPluginAdapter {
+    label: string;
+    /** The REST namespace the plugin registers under `/wp-json/`. */
+    namespace: string;
+    /** `restPath` is the post type's collection route, e.g. `wp/v2/pages`. */
+    write(ctx: WpContext, postId: number, fields: Partial<SeoFields>, restPath: string): Promise<void>;
+    /** Reads the stored values back. Fields the plugin cannot report are left out. */
+    read(ctx: WpContext, postId: number, link: string, restPath: string): Promise<Partial<SeoFields>>;
+}
+
 /**
- * Recursively parses a sitemap or sitemap index to extract all unique URLs.
- * @param url The URL of the sitemap or sitemap index.
- * @param visited A Set to keep track of visited sitemap URLs to prevent infinite loops.
- * @returns A Promise resolving to an array of all found URLs.
+ * Sends an authenticated request to the WordPress REST API and returns the parsed JSON body.
  */
-const parseSitemap = async (url: string, visited: Set<string> = new Set()): Promise<string[]> => {
-    if (visited.has(url)) return [];
-    visited.add(url);
+const fetchWpJson = async (ctx: WpContext, path: string, init: { method?: string; body?: unknown } = {}) => {
+    const headers = new Headers(ctx.headers);
+    if (init.body !== undefined) headers.set('Content-Type', 'application/json');
+    const response = await directFetch(`${ctx.siteUrl}/wp-json/${path.replace(/^\//, '')}`, {
+        method: init.method || 'GET',
+        headers,
+        body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.message || `HTTP error! Status: ${response.status}`);
+    return data;
+};
 
-    try {
-        const response = await smartFetch(url);
-        if (!response.ok) {
-            console.error(`Failed to fetch sitemap/index at ${url}. Status: ${response.status}`);
-            return []; // Fail gracefully for this URL
-        }
-        
-        const text = await response.text();
-        const parser = new DOMParser();
-        const xmlDoc = parser.parseFromString(text, "application/xml");
+/** Drops the fields the user left empty so the plugin keeps its own defaults for them. */
+const filledSeoFields = (fields: Partial<SeoFields>): Partial<SeoFields> =>
+    Object.fromEntries(Object.entries(fields).filter(([, value]) => typeof value === 'string' && value.trim() !== '')) as Partial<SeoFields>;
 
-        if (xmlDoc.getElementsByTagName("parsererror").length > 0) {
-            console.error(`XML parsing error for ${url}`);
-            return [];
-        }
+/**
+ * Extracts title, description and canonical from a rendered `<head>` fragment.
+ */
+const parseHeadTags = (head: string): Partial<SeoFields> => {
+    const doc = new DOMParser().parseFromString(`<html><head>${head}</head></html>`, 'text/html');
+    return {
+        metaTitle: doc.querySelector('title')?.textContent ?? undefined,
+        metaDescription: doc.querySelector('meta[name="description"]')?.getAttribute('content') ?? undefined,
+        canonicalUrl: doc.querySelector('link[rel="canonical"]')?.getAttribute('href') ?? undefined,
+    };
+};
 
-        const isSitemapIndex = xmlDoc.getElementsByTagName('sitemapindex').length > 0;
-        if (isSitemapIndex) {
-            const sitemapUrls = Array.from(xmlDoc.getElementsByTagName('loc')).map(node => node.textContent).filter(Boolean) as string[];
-            const promises = sitemapUrls.map(sitemapUrl => parseSitemap(sitemapUrl, visited));
-            const results = await Promise.all(promises);
-            return results.flat();
-        }
+const SEO_PLUGINS: Record<Exclude<SeoPluginId, 'none'>, SeoPluginAdapter> = {
+    // Listed in detection order: sites migrating between plugins often leave Yoast active alongside another.
+    rankmath: {
+        label: 'Rank Math',
+        namespace: 'rankmath/v1',
+        write: async (ctx, postId, fields) => {
+            const meta = {
+                rank_math_title: fields.metaTitle,
+                rank_math_description: fields.metaDescription,
+                rank_math_focus_keyword: fields.focusKeyword,
+                rank_math_canonical_url: fields.canonicalUrl,
+            };
+            await fetchWpJson(ctx, 'rankmath/v1/updateMeta', {
+                method: 'POST',
+                body: { objectType: 'post', objectID: postId, meta: Object.fromEntries(Object.entries(meta).filter(([, v]) => v !== undefined)) },
+            });
+        },
+        // Rank Math only exposes its output through the headless `getHead` endpoint, which has no focus keyword.
+        read: async (ctx, _postId, link) => {
+            const data = await fetchWpJson(ctx, `rankmath/v1/getHead?url=${encodeURIComponent(link)}`);
+            return data?.head ? parseHeadTags(data.head) : {};
+        },
+    },
+    aioseo: {
+        label: 'All in One SEO',
+        namespace: 'aioseo/v1',
+        write: async (ctx, postId, fields) => {
+            await fetchWpJson(ctx, 'aioseo/v1/post', {
+                method: 'POST',
+                body: {
+                    id: postId,
+                    ...(fields.metaTitle !== undefined ? { title: fields.metaTitle } : {}),
+                    ...(fields.metaDescription !== undefined ? { description: fields.metaDescription } : {}),
+                    ...(fields.focusKeyword !== undefined ? { keyphrases: { focus: { keyphrase: fields.focusKeyword }, additional: [] } } : {}),
+                    ...(fields.canonicalUrl !== undefined ? { canonicalUrl: fields.canonicalUrl } : {}),
+                },
+            });
+        },
+        read: async (ctx, postId, _link, restPath) => {
+            const data = await fetchWpJson(ctx, `${restPath}/${postId}?context=edit&_fields=aioseo_head_json,aioseo_meta_data`);
+            const head = data?.aioseo_head_json || {};
+            const keyphrases = data?.aioseo_meta_data?.keyphrases;
+            const focus = typeof keyphrases === 'string' ? JSON.parse(keyphrases || '{}')?.focus?.keyphrase : keyphrases?.focus?.keyphrase;
+            return { metaTitle: head.title, metaDescription: head.description, canonicalUrl: head.canonical_url, focusKeyword: focus };
+        },
+    },
+    seopress: {
+        label: 'SEOPress',
+        namespace: 'seopress/v1',
+        write: async (ctx, postId, fields) => {
+            if (fields.metaTitle !== undefined || fields.metaDescription !== undefined) {
+                await fetchWpJson(ctx, `seopress/v1/posts/${postId}/title-description-metas`, {
+                    method: 'PUT',
+                    body: { _seopress_titles_title: fields.metaTitle, _seopress_titles_desc: fields.metaDescription },
+                });
+            }
+            if (fields.focusKeyword !== undefined) {
+                await fetchWpJson(ctx, `seopress/v1/posts/${postId}/target-keywords`, { method: 'PUT', body: { _seopress_analysis_target_kw: fields.focusKeyword } });
+            }
+            if (fields.canonicalUrl !== undefined) {
+                await fetchWpJson(ctx, `seopress/v1/posts/${postId}/meta-robot-settings`, { method: 'PUT', body: { _seopress_robots_canonical: fields.canonicalUrl } });
+            }
+        },
+        read: async (ctx, postId) => {
+            const metas = await fetchWpJson(ctx, `seopress/v1/posts/${postId}/title-description-metas`);
+            const keywords = await fetchWpJson(ctx, `seopress/v1/posts/${postId}/target-keywords`).catch(() => ({}));
+            const robots = await fetchWpJson(ctx, `seopress/v1/posts/${postId}/meta-robot-settings`).catch(() => ({}));
+            return {
+                metaTitle: metas?.title ?? metas?._seopress_titles_title,
+                metaDescription: metas?.description ?? metas?._seopress_titles_desc,
+                focusKeyword: keywords?._seopress_analysis_target_kw ?? keywords?.value,
+                canonicalUrl: robots?.canonical ?? robots?._seopress_robots_canonical,
+            };
+        },
+    },
+    // Yoast's post meta is only writable when the site registers it for REST, so the read-back matters most here.
+    yoast: {
+        label: 'Yoast SEO',
+        namespace: 'yoast/v1',
+        write: async (ctx, postId, fields, restPath) => {
+            const meta = {
+                _yoast_wpseo_title: fields.metaTitle,
+                _yoast_wpseo_metadesc: fields.metaDescription,
+                _yoast_wpseo_focuskw: fields.focusKeyword,
+                _yoast_wpseo_canonical: fields.canonicalUrl,
+            };
+            await fetchWpJson(ctx, `${restPath}/${postId}`, { method: 'POST', body: { meta: Object.fromEntries(Object.entries(meta).filter(([, v]) => v !== undefined)) } });
+        },
+        read: async (ctx, postId, _link, restPath) => {
+            const data = await fetchWpJson(ctx, `${restPath}/${postId}?context=edit&_fields=meta,yoast_head_json`);
+            const meta = Array.isArray(data?.meta) ? {} : (data?.meta || {});
+            return {
+                metaTitle: meta._yoast_wpseo_title || data?.yoast_head_json?.title,
+                metaDescription: meta._yoast_wpseo_metadesc || data?.yoast_head_json?.description,
+                focusKeyword: meta._yoast_wpseo_focuskw,
+                canonicalUrl: meta._yoast_wpseo_canonical || data?.yoast_head_json?.canonical,
+            };
+        },
+    },
+};
 
-        const isUrlset = xmlDoc.getElementsByTagName('urlset').length > 0;
-        if (isUrlset) {
-            return Array.from(xmlDoc.getElementsByTagName('loc')).map(node => node.textContent).filter(Boolean) as string[];
-        }
-        
-        console.warn(`No <sitemapindex> or <urlset> found in ${url}.`);
-        return [];
+/**
+ * Finds the active SEO plugin from the REST namespaces a site advertises at `/wp-json/`.
+ * @returns The plugin ID, or 'none' when no supported plugin is active.
+ */
+const detectSeoPlugin = async (ctx: WpContext): Promise<SeoPluginId> => {
+    const index = await fetchWpJson(ctx, '');
+    const namespaces: string[] = Array.isArray(index?.namespaces) ? index.namespaces : [];
+    const match = (Object.keys(SEO_PLUGINS) as Exclude<SeoPluginId, 'none'>[]).find(id => namespaces.includes(SEO_PLUGINS[id].namespace));
+    return match || 'none';
+};
+
+/** The outcome of writing SEO fields and reading them back. */
+interface SeoSyncResult {
+    plugin: SeoPluginId;
+    verified: (keyof SeoFields)[];
+    mismatched: (keyof SeoFields)[];
+    unverifiable: (keyof SeoFields)[];
+    error?: string;
+}
 
+const normalizeSeoValue = (value: string) =>
+    new DOMParser().parseFromString(value, 'text/html').body.textContent.replace(/\s+/g, ' ').trim().replace(/\/$/, '');
+
+/**
+ * Writes the SEO fields through the active plugin and confirms each one by reading it back.
+ * Plugins render titles through their own templates, so a read-back that merely contains
+ * the value we sent still counts as saved.
+ */
+const syncSeoFields = async (ctx: WpContext, plugin: SeoPluginId, postId: number, link: string, fields: Partial<SeoFields>, restPath = 'wp/v2/posts'): Promise<SeoSyncResult> => {
+    const toWrite = filledSeoFields(fields);
+    const keys = Object.keys(toWrite) as (keyof SeoFields)[];
+    const result: SeoSyncResult = { plugin, verified: [], mismatched: [], unverifiable: [] };
+    if (plugin === 'none' || keys.length === 0) return result;
+    const adapter = SEO_PLUGINS[plugin];
+    try {
+        await adapter.write(ctx, postId, toWrite, restPath);
     } catch (error) {
-        console.error(`Error processing sitemap URL ${url}:`, error);
-        return [];
+        return { ...result, mismatched: keys, error: `${adapter.label} rejected the SEO fields: ${(error instanceof Error) ? error.message : String(error)}` };
     }
+    const saved = await adapter.read(ctx, postId, link, restPath).catch(() => null);
+    keys.forEach(key => {
+        const value = saved?.[key];
+        if (value == null) {
+            result.unverifiable.push(key);
+        } else if (normalizeSeoValue(String(value)).includes(normalizeSeoValue(toWrite[key]))) {
+            result.verified.push(key);
+        } else {
+            result.mismatched.push(key);
+        }
+    });
+    return result;
 };
 
-const slugToTitle = (url: string): string => {
-    try {
-        const path = new URL(url).pathname;
-        if (path === '/blog/') return 'Affiliate Marketing Blog';
-        return path.replace(/^\/|\/$/g, '').split('/').pop().replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
-    } catch (e) {
-        return url;
+/** A one-line summary of an SEO sync for the publishing status message. */
+const describeSeoSync = (result: SeoSyncResult): string => {
+    if (result.plugin === 'none') return 'No supported SEO plugin was detected, so the SEO fields were not sent.';
+    const label = SEO_PLUGINS[result.plugin].label;
+    if (result.error) return result.error;
+    const list = (keys: (keyof SeoFields)[]) => keys.map(key => SEO_FIELD_LABELS[key]).join(', ');
+    const parts = [];
+    if (result.verified.length) parts.push(`${label} saved the ${list(result.verified)}.`);
+    if (result.mismatched.length) parts.push(`${label} did not keep the ${list(result.mismatched)}.`);
+    if (result.unverifiable.length) parts.push(`Could not read back the ${list(result.unverifiable)}.`);
+    return parts.join(' ');
+};
+
+/** A public post type the REST API can list, such as posts, pages or a `product` type. */
+interface WpPostType {
+    slug: string;
+    name: string;
+    /** The collection route under `/wp-json/`, e.g. `wp/v2/pages`. */
+    restPath: string;
+    /** Slugs of the taxonomies registered for the type, e.g. `category` and `post_tag`. */
+    taxonomies: string[];
+}
+
+/** A category, tag or author, reduced to what the table and the review need. */
+interface WpTerm {
+    id: number;
+    name: string;
+    slug?: string;
+    count?: number;
+}
+
+/** A post type as `wp/v2/types` describes it, limited to what the inventory reads. */
+interface WpRestPostType {
+    slug: string;
+    name: string;
+    rest_base?: string;
+    rest_namespace?: string;
+    viewable?: boolean;
+    taxonomies?: string[];
+}
+
+/** A category, tag or user as the REST API returns it. */
+interface WpRestTerm {
+    id: number;
+    name: string;
+    slug?: string;
+    count?: number;
+}
+
+/** A post or page as the REST API returns it. Every field is optional because requests pick them with `_fields`. */
+interface WpRestPost {
+    id?: number;
+    link?: string;
+    modified?: string;
+    author?: number;
+    categories?: number[];
+    tags?: number[];
+    title?: { rendered: string; raw?: string };
+    content?: { rendered: string; raw?: string };
+    meta?: Record<string, unknown>;
+    yoast_head_json?: { title?: string; description?: string };
+}
+
+/** The site's content types, taxonomies and authors, fetched once per site. */
+interface SiteInventory {
+    siteUrl: string;
+    postTypes: WpPostType[];
+    /** Categories and tags are ordered from most to least used. */
+    categories: WpTerm[];
+    tags: WpTerm[];
+    authors: WpTerm[];
+    fetchedAt: string;
+}
+
+/** Built-in post types that hold site structure rather than content. */
+const NON_CONTENT_POST_TYPES = new Set(['attachment', 'nav_menu_item', 'wp_block', 'wp_template', 'wp_template_part', 'wp_navigation', 'wp_global_styles', 'wp_font_family', 'wp_font_face']);
+
+/** How many of the most-used tags are offered to the model. */
+const MAX_PROMPT_TAGS = 150;
+
+const decodeHtmlEntities = (text: string): string => new DOMParser().parseFromString(text || '', 'text/html').body.textContent || '';
+
+/**
+ * Reads every page of a WordPress collection endpoint.
+ * @param path A collection route with its query string, e.g. `wp/v2/tags?_fields=id,name`.
+ */
+const fetchWpCollection = async <T,>(ctx: WpContext, path: string): Promise<T[]> => {
+    const pageUrl = (page: number) => `${ctx.siteUrl}/wp-json/${path.replace(/^\//, '')}${path.includes('?') ? '&' : '?'}per_page=100&page=${page}`;
+    const firstResponse = await directFetch(pageUrl(1), { headers: ctx.headers });
+    const firstPage = await firstResponse.json().catch(() => []);
+    if (!firstResponse.ok) throw new Error(firstPage?.message || `HTTP error! Status: ${firstResponse.status}`);
+    const items: T[] = [...firstPage];
+    const totalPages = parseInt(firstResponse.headers.get('X-WP-TotalPages') || '1', 10);
+    const responses = await Promise.all(Array.from({ length: Math.max(0, totalPages - 1) }, (_, i) => directFetch(pageUrl(i + 2), { headers: ctx.headers })));
+    for (const response of responses) {
+        if (response.ok) items.push(...await response.json());
+        else console.warn(`Failed to fetch a page of ${path}. Status: ${response.status}`);
     }
+    return items;
 };
 
-const ProgressBar = ({ currentStep }: { currentStep: number }) => {
-    const steps = ['Config', 'Content Strategy', 'Review & Publish'];
-    return (
-        <ol className="progress-bar">
-            {steps.map((name, index) => {
-                const stepIndex = index + 1;
-                const status = stepIndex < currentStep ? 'completed' : stepIndex === currentStep ? 'active' : '';
-                return (
-                    <li key={name} className={`progress-step ${status}`}>
-                        <div className="step-circle">{stepIndex < currentStep ? '✔' : stepIndex}</div>
-                        <span className="step-name">{name}</span>
-                    </li>
-                );
-            })}
-        </ol>
-    );
+/**
+ * Lists the site's content types, categories, tags and authors. Authors are the users the
+ * REST API shows publicly, which are those with published posts.
+ */
+const fetchSiteInventory = async (ctx: WpContext): Promise<SiteInventory> => {
+    const types: Record<string, WpRestPostType> = await fetchWpJson(ctx, 'wp/v2/types?context=edit');
+    const postTypes: WpPostType[] = Object.values(types || {})
+        .filter(type => type?.rest_base && type.viewable !== false && !NON_CONTENT_POST_TYPES.has(type.slug))
+        .map(type => ({ slug: type.slug, name: type.name, restPath: `${type.rest_namespace || 'wp/v2'}/${type.rest_base}`, taxonomies: type.taxonomies || [] }));
+    const toTerm = (item: WpRestTerm): WpTerm => ({ id: item.id, name: decodeHtmlEntities(item.name), slug: item.slug, count: item.count });
+    // Sites can switch off either taxonomy, and listing users can be restricted, so each list may come back empty.
+    const [categories, tags, authors] = await Promise.all([
+        fetchWpCollection<WpRestTerm>(ctx, 'wp/v2/categories?_fields=id,name,slug,count&orderby=count&order=desc').catch(() => []),
+        fetchWpCollection<WpRestTerm>(ctx, 'wp/v2/tags?_fields=id,name,slug,count&orderby=count&order=desc').catch(() => []),
+        fetchWpCollection<WpRestTerm>(ctx, 'wp/v2/users?_fields=id,name,slug').catch(() => []),
+    ]);
+    return {
+        siteUrl: ctx.siteUrl,
+        postTypes,
+        categories: categories.map(toTerm),
+        tags: tags.map(toTerm),
+        authors: authors.map(toTerm),
+        fetchedAt: new Date().toISOString(),
+    };
 };
 
-const ApiKeyValidator = ({ status }) => {
-    if (status === 'validating') return <div className="key-status-icon"><div className="key-status-spinner"></div></div>;
-    if (status === 'valid') return <div className="key-status-icon success"><svg fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path></svg></div>;
-    if (status === 'invalid') return <div className="key-status-icon error"><svg fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg></div>;
-    return null;
+/** Whether a post type has a taxonomy. Posts of unknown type are treated as regular posts. */
+const postTypeSupports = (inventory: SiteInventory | null, restPath: string, taxonomy: string): boolean => {
+    const type = inventory?.postTypes.find(t => t.restPath === restPath);
+    return type ? type.taxonomies.includes(taxonomy) : restPath === 'wp/v2/posts';
 };
 
-const Feature = ({ icon, title, children }) => (
-    <div className="feature">
-        <div className="feature-icon">{icon}</div>
-        <div className="feature-content">
-            <h3>{title}</h3>
-            <p>{children}</p>
+/** Maps the term names the model picked back to IDs, dropping any it made up. */
+const matchTermNames = (names: unknown, terms: WpTerm[]): number[] => {
+    if (!Array.isArray(names)) return [];
+    const idsByName = new Map(terms.map(term => [term.name.trim().toLowerCase(), term.id]));
+    return [...new Set(names.map(name => idsByName.get(String(name).trim().toLowerCase())).filter((id): id is number => id != null))];
+};
+
+/** True when a post has no category, or only WordPress's default "Uncategorized". */
+const isUncategorized = (categoryIds: number[] | undefined, categories: WpTerm[]): boolean =>
+    !categoryIds?.length || categoryIds.every(id => categories.find(term => term.id === id)?.slug === 'uncategorized');
+
+type MultilingualPluginId = 'wpml' | 'polylang' | 'none';
+
+/** A published version of a post in another language. */
+interface TranslationLink {
+    locale: string;
+    postId: number;
+}
+
+/** The multilingual fields WordPress returns for a saved post, depending on the plugin. */
+interface WpTranslatedPost {
+    /** Polylang: the linked post IDs by language slug. */
+    translations?: Record<string, number>;
+    /** WPML: the post's other language versions. */
+    wpml_translations?: { locale?: string; language_code?: string; id?: number }[];
+}
+
+interface MultilingualAdapter {
+    label: string;
+    /** The REST namespace the plugin registers under `/wp-json/`. */
+    namespace: string;
+    /** Whether `prepare` can link a post to its translations, not just set its language. */
+    linksTranslations: boolean;
+    /**
+     * Works out how to create or update a post in `locale` and link it to its published
+     * translations: extra query parameters for the request and extra fields for its body.
+     */
+    prepare(ctx: WpContext, locale: string, translations: TranslationLink[]): Promise<{ query: Record<string, string>; fields: Record<string, unknown> }>;
+    /** The language codes WordPress reports as linked to the saved post, or null if it does not say. */
+    linkedLanguages(saved: WpTranslatedPost): string[] | null;
+}
+
+const MULTILINGUAL_PLUGINS: Record<Exclude<MultilingualPluginId, 'none'>, MultilingualAdapter> = {
+    // Polylang Pro adds writable `lang` and `translations` fields to every translatable post type.
+    polylang: {
+        label: 'Polylang',
+        namespace: 'pll/v1',
+        linksTranslations: true,
+        prepare: async (ctx, locale, translations) => {
+            const languages = await fetchWpJson(ctx, 'pll/v1/languages').catch(() => []);
+            const slugFor = (code: string) => {
+                const match = (Array.isArray(languages) ? languages : []).find(lang => canonicalLocale(lang.w3c || lang.locale) === canonicalLocale(code))
+                    || (Array.isArray(languages) ? languages : []).find(lang => lang.slug === localeLanguage(code));
+                return match?.slug || localeLanguage(code);
+            };
+            const lang = slugFor(locale);
+            const linked = Object.fromEntries(translations.map(t => [slugFor(t.locale), t.postId]).filter(([slug]) => slug !== lang));
+            return { query: {}, fields: { lang, ...(Object.keys(linked).length ? { translations: linked } : {}) } };
+        },
+        linkedLanguages: saved => saved?.translations && typeof saved.translations === 'object' ? Object.keys(saved.translations) : null,
+    },
+    // WPML picks the language from the `lang` parameter and reports the linked versions in `wpml_translations`.
+    // Its REST API has no field for joining a translation group, so linking is left to WPML's own screens.
+    wpml: {
+        label: 'WPML',
+        namespace: 'wpml/v1',
+        linksTranslations: false,
+        prepare: async (_ctx, locale) => ({ query: { lang: localeLanguage(locale) }, fields: {} }),
+        linkedLanguages: saved => Array.isArray(saved?.wpml_translations)
+            ? saved.wpml_translations.map(t => localeLanguage(t.locale || t.language_code || '')).filter(Boolean)
+            : null,
+    },
+};
+
+/**
+ * Finds an active multilingual plugin from the REST namespaces a site advertises.
+ * @returns The plugin ID, or 'none' when neither WPML nor Polylang is active.
+ */
+const detectMultilingualPlugin = async (ctx: WpContext): Promise<MultilingualPluginId> => {
+    const index = await fetchWpJson(ctx, '');
+    const namespaces: string[] = Array.isArray(index?.namespaces) ? index.namespaces : [];
+    const match = (Object.keys(MULTILINGUAL_PLUGINS) as Exclude<MultilingualPluginId, 'none'>[]).find(id => namespaces.includes(MULTILINGUAL_PLUGINS[id].namespace));
+    return match || 'none';
+};
+
+/**
+ * A one-line summary of how a translation was linked, for the publishing status message.
+ * Both plugins print hreflang tags for the versions they have linked. With WPML the user
+ * links them, so the message says which ones are still to do.
+ */
+const describeTranslationLink = (plugin: MultilingualPluginId, locale: string, expected: TranslationLink[], linked: string[] | null): string => {
+    if (plugin === 'none') {
+        return expected.length
+            ? 'No WPML or Polylang was found, so this version is not linked to its translations and no hreflang tags connect them.'
+            : '';
+    }
+    const label = MULTILINGUAL_PLUGINS[plugin].label;
+    if (!expected.length) return `${label} filed it under ${localeLabel(locale)}.`;
+    if (!MULTILINGUAL_PLUGINS[plugin].linksTranslations) {
+        const unlinked = expected.filter(t => !linked?.includes(localeLanguage(t.locale)));
+        if (unlinked.length) return `${label} filed it under ${localeLabel(locale)}, but its REST API cannot link translations. Connect it to the ${unlinked.map(t => localeLabel(t.locale)).join(', ')} version${unlinked.length !== 1 ? 's' : ''} in ${label} so hreflang tags are output.`;
+    }
+    const missing = linked ? expected.filter(t => !linked.includes(localeLanguage(t.locale))) : [];
+    if (!linked) return `${label} filed it under ${localeLabel(locale)} but did not report its translations; check the hreflang tags on the live page.`;
+    if (missing.length) return `${label} did not link the ${missing.map(t => localeLabel(t.locale)).join(', ')} version${missing.length !== 1 ? 's' : ''}; connect ${missing.length !== 1 ? 'them' : 'it'} in ${label} so hreflang tags are output.`;
+    return `${label} linked it to ${expected.length} translation${expected.length !== 1 ? 's' : ''}, so hreflang tags connect them.`;
+};
+
+/** The image shown at the top of a post and in link previews. */
+interface FeaturedImage {
+    source: 'generated' | 'library';
+    /** The attachment ID, once the image is in the media library. Generated images are uploaded when the post is published. */
+    mediaId?: number;
+    sourceUrl?: string;
+    /** A generated image that has not been uploaded yet, as a data URL. */
+    dataUrl?: string;
+    /** What the image shows (the generation prompt or the library title), used to write the alt text. */
+    description: string;
+    altText: string;
+    caption: string;
+    /** Also place the image in the content, under the introduction. */
+    inline: boolean;
+    /** The library item's own alt text and caption, so unchanged ones are not written back. */
+    libraryAltText?: string;
+    libraryCaption?: string;
+}
+
+interface WpMediaItem {
+    id: number;
+    sourceUrl: string;
+    thumbnailUrl: string;
+    title: string;
+    altText: string;
+    caption: string;
+}
+
+/** Searches the site's media library for images, newest first. */
+const searchWpMedia = async (ctx: WpContext, search: string): Promise<WpMediaItem[]> => {
+    const params = new URLSearchParams({ media_type: 'image', per_page: '24', _fields: 'id,source_url,alt_text,caption,title,media_details' });
+    if (search.trim()) params.set('search', search.trim());
+    const items = await fetchWpJson(ctx, `wp/v2/media?${params}`);
+    return (Array.isArray(items) ? items : []).map(item => ({
+        id: item.id,
+        sourceUrl: item.source_url,
+        thumbnailUrl: item.media_details?.sizes?.medium?.source_url || item.media_details?.sizes?.thumbnail?.source_url || item.source_url,
+        title: decodeHtmlEntities(item.title?.rendered),
+        altText: item.alt_text || '',
+        caption: decodeHtmlEntities(item.caption?.rendered).trim(),
+    }));
+};
+
+/**
+ * Uploads a file to the media library, then saves its alt text, caption and title. The
+ * upload request carries only the file, so the text is written in a second request.
+ */
+const uploadWpMedia = async (ctx: WpContext, file: Blob, filename: string, fields: { alt_text: string; caption: string; title: string }): Promise<{ id: number; sourceUrl: string }> => {
+    const headers = new Headers(ctx.headers);
+    headers.set('Content-Type', file.type || 'application/octet-stream');
+    headers.set('Content-Disposition', `attachment; filename="${filename}"`);
+    const response = await directFetch(`${ctx.siteUrl}/wp-json/wp/v2/media`, { method: 'POST', headers, body: file });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.message || `HTTP error! Status: ${response.status}`);
+    await fetchWpJson(ctx, `wp/v2/media/${data.id}`, { method: 'POST', body: fields });
+    return { id: data.id, sourceUrl: data.source_url };
+};
+
+/** A file name for an uploaded image, made from the post title. */
+const imageFileName = (title: string, mimeType: string): string => {
+    const slug = (title || 'featured-image').toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+    return `${slug || 'featured-image'}.${mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'png'}`;
+};
+
+/** The image as a core Image block, the markup the block editor itself saves. */
+const buildImageFigure = (image: FeaturedImage, src: string): string => {
+    const figure = document.createElement('figure');
+    figure.className = 'wp-block-image size-large';
+    const img = document.createElement('img');
+    img.setAttribute('src', src);
+    img.setAttribute('alt', image.altText);
+    if (image.mediaId) img.className = `wp-image-${image.mediaId}`;
+    figure.appendChild(img);
+    if (image.caption.trim()) {
+        const caption = document.createElement('figcaption');
+        caption.className = 'wp-element-caption';
+        caption.textContent = image.caption.trim();
+        figure.appendChild(caption);
+    }
+    return figure.outerHTML;
+};
+
+/**
+ * Inserts HTML after the introduction: before the Key Takeaways box or the first H2,
+ * whichever comes first, or after the first paragraph when the post has neither.
+ */
+const insertAfterIntro = (html: string, insertion: string): string => {
+    const content = html || '';
+    const anchors = [content.search(/<div[^>]*class="[^"]*key-takeaways/i), content.search(/<h2[\s>]/i)].filter(index => index >= 0);
+    if (anchors.length) {
+        const index = Math.min(...anchors);
+        return `${content.slice(0, index)}${insertion}\n${content.slice(index)}`;
+    }
+    const paragraphEnd = content.search(/<\/p>/i);
+    if (paragraphEnd >= 0) return `${content.slice(0, paragraphEnd + 4)}\n${insertion}${content.slice(paragraphEnd + 4)}`;
+    return `${insertion}\n${content}`;
+};
+
+type EditorBlockType = 'paragraph' | 'heading' | 'list' | 'table' | 'image' | 'quote' | 'group' | 'details' | 'separator' | 'preformatted' | 'html';
+
+/** A top-level element of a post's HTML, as the visual editor shows it. */
+interface EditorBlock {
+    type: EditorBlockType;
+    html: string;
+}
+
+const EDITOR_BLOCK_LABELS: Record<EditorBlockType, string> = {
+    paragraph: 'Paragraph',
+    heading: 'Heading',
+    list: 'List',
+    table: 'Table',
+    image: 'Image',
+    quote: 'Quote',
+    group: 'Group',
+    details: 'FAQ item',
+    separator: 'Separator',
+    preformatted: 'Preformatted',
+    html: 'Custom HTML',
+};
+
+/** Text blocks can be turned into one another. */
+const EDITOR_TEXT_TAGS = ['p', 'h2', 'h3', 'h4'];
+
+const editorBlockType = (el: Element): EditorBlockType => {
+    const tag = el.tagName;
+    if (tag === 'P') return 'paragraph';
+    if (/^H[1-6]$/.test(tag)) return 'heading';
+    if (tag === 'UL' || tag === 'OL') return 'list';
+    if (tag === 'TABLE' || (tag === 'FIGURE' && el.querySelector('table'))) return 'table';
+    if (tag === 'IMG' || (tag === 'FIGURE' && el.querySelector('img'))) return 'image';
+    if (tag === 'BLOCKQUOTE') return 'quote';
+    if (tag === 'DIV' || tag === 'SECTION' || tag === 'ASIDE') return 'group';
+    if (tag === 'DETAILS') return 'details';
+    if (tag === 'HR') return 'separator';
+    if (tag === 'PRE') return 'preformatted';
+    return 'html';
+};
+
+/**
+ * Splits HTML into its top-level elements for the visual editor. Loose text becomes a
+ * paragraph; comments are dropped, so content that already has block delimiters
+ * (see hasBlockMarkup) is kept out of the visual editor.
+ */
+const parseEditorBlocks = (html: string): EditorBlock[] => {
+    const doc = new DOMParser().parseFromString(html || '', 'text/html');
+    return Array.from(doc.body.childNodes).flatMap((node): EditorBlock[] => {
+        if (node.nodeType === Node.ELEMENT_NODE) return [{ type: editorBlockType(node as Element), html: (node as Element).outerHTML }];
+        if (node.nodeType === Node.TEXT_NODE && node.textContent.trim()) {
+            const p = doc.createElement('p');
+            p.textContent = node.textContent.trim();
+            return [{ type: 'paragraph', html: p.outerHTML }];
+        }
+        return [];
+    });
+};
+
+/** Whether the content already carries WordPress block delimiters, which the visual editor would drop. */
+const hasBlockMarkup = (html: string): boolean => /<!--\s*wp:/.test(html || '');
+
+/** Turns a text block into another tag, keeping its content and anchor. */
+const changeBlockTag = (html: string, tag: string): string => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const el = doc.body.firstElementChild;
+    if (!el) return html;
+    const replacement = doc.createElement(tag);
+    replacement.innerHTML = el.innerHTML;
+    if (el.id) replacement.id = el.id;
+    return replacement.outerHTML;
+};
+
+/** Puts a block's class first, as the block editor saves it, without repeating it. */
+const setBlockClass = (el: Element, ...classes: string[]) => {
+    const rest = Array.from(el.classList).filter(name => !classes.includes(name));
+    el.setAttribute('class', [...classes, ...rest].join(' '));
+};
+
+/** A block delimiter pair. Attributes are escaped the way WordPress escapes them, so they cannot end the comment. */
+const blockComment = (name: string, attrs: Record<string, unknown>, inner: string): string => {
+    const json = Object.keys(attrs).length
+        ? ` ${JSON.stringify(attrs).replace(/--/g, '\\u002d\\u002d').replace(/</g, '\\u003c').replace(/>/g, '\\u003e').replace(/&/g, '\\u0026')}`
+        : '';
+    return `<!-- wp:${name}${json} -->\n${inner}\n<!-- /wp:${name} -->`;
+};
+
+const serializeListBlock = (list: Element): string => {
+    setBlockClass(list, 'wp-block-list');
+    Array.from(list.children).forEach(item => {
+        if (item.tagName !== 'LI') return;
+        item.querySelectorAll(':scope > ul, :scope > ol').forEach(nested => { nested.outerHTML = serializeListBlock(nested); });
+        item.outerHTML = blockComment('list-item', {}, item.outerHTML);
+    });
+    return blockComment('list', list.tagName === 'OL' ? { ordered: true } : {}, list.outerHTML);
+};
+
+const serializeBlock = (el: Element): string => {
+    const doc = el.ownerDocument;
+    switch (editorBlockType(el)) {
+        case 'paragraph':
+            return blockComment('paragraph', {}, el.outerHTML);
+        case 'heading': {
+            const level = Number(el.tagName.slice(1));
+            setBlockClass(el, 'wp-block-heading');
+            return blockComment('heading', level === 2 ? {} : { level }, el.outerHTML);
+        }
+        case 'list':
+            return serializeListBlock(el);
+        case 'table': {
+            if (el.tagName === 'FIGURE') {
+                setBlockClass(el, 'wp-block-table');
+                return blockComment('table', {}, el.outerHTML);
+            }
+            return blockComment('table', {}, `<figure class="wp-block-table">${el.outerHTML}</figure>`);
+        }
+        case 'image': {
+            let figure = el;
+            if (el.tagName === 'IMG') {
+                figure = doc.createElement('figure');
+                figure.appendChild(el.cloneNode(true));
+            }
+            setBlockClass(figure, 'wp-block-image', 'size-large');
+            const id = Number(figure.querySelector('img')?.className.match(/\bwp-image-(\d+)\b/)?.[1]);
+            return blockComment('image', { ...(id ? { id } : {}), sizeSlug: 'large' }, figure.outerHTML);
+        }
+        case 'quote':
+            el.innerHTML = serializeBlockChildren(el);
+            setBlockClass(el, 'wp-block-quote');
+            return blockComment('quote', {}, el.outerHTML);
+        case 'group': {
+            const className = Array.from(el.classList).filter(name => name !== 'wp-block-group').join(' ');
+            const tagName = el.tagName.toLowerCase();
+            el.innerHTML = serializeBlockChildren(el);
+            setBlockClass(el, 'wp-block-group');
+            return blockComment('group', { ...(tagName !== 'div' ? { tagName } : {}), ...(className ? { className } : {}) }, el.outerHTML);
+        }
+        case 'details': {
+            const summary = el.querySelector(':scope > summary');
+            if (summary) summary.remove();
+            const inner = serializeBlockChildren(el);
+            setBlockClass(el, 'wp-block-details');
+            el.innerHTML = `${summary ? summary.outerHTML : '<summary></summary>'}${inner}`;
+            return blockComment('details', {}, el.outerHTML);
+        }
+        case 'separator':
+            setBlockClass(el, 'wp-block-separator', 'has-alpha-channel-opacity');
+            return blockComment('separator', {}, el.outerHTML);
+        case 'preformatted':
+            if (el.children.length === 1 && el.firstElementChild.tagName === 'CODE') {
+                setBlockClass(el, 'wp-block-code');
+                return blockComment('code', {}, el.outerHTML);
+            }
+            setBlockClass(el, 'wp-block-preformatted');
+            return blockComment('preformatted', {}, el.outerHTML);
+        default:
+            return blockComment('html', {}, el.outerHTML);
+    }
+};
+
+const serializeBlockChildren = (parent: Element): string =>
+    Array.from(parent.childNodes).map(node => {
+        if (node.nodeType === Node.ELEMENT_NODE) return serializeBlock(node as Element);
+        if (node.nodeType === Node.TEXT_NODE && node.textContent.trim()) {
+            const p = parent.ownerDocument.createElement('p');
+            p.textContent = node.textContent.trim();
+            return blockComment('paragraph', {}, p.outerHTML);
+        }
+        return '';
+    }).filter(Boolean).join('\n\n');
+
+/**
+ * Wraps each question in the FAQ section, an H3 or H4 with the answer that follows it,
+ * in a `<details>` element so it becomes a Details block.
+ */
+const wrapFaqItems = (body: HTMLElement) => {
+    const faqHeading = Array.from(body.querySelectorAll(':scope > h2')).find(h => /frequently asked questions|\bfaqs?\b/i.test(h.textContent));
+    if (!faqHeading) return;
+    let current: HTMLDetailsElement | null = null;
+    let el = faqHeading.nextElementSibling;
+    while (el && el.tagName !== 'H2' && editorBlockType(el) !== 'group') {
+        const next = el.nextElementSibling;
+        if (el.matches('h3, h4')) {
+            current = body.ownerDocument.createElement('details');
+            const summary = body.ownerDocument.createElement('summary');
+            summary.innerHTML = el.innerHTML;
+            current.appendChild(summary);
+            el.replaceWith(current);
+        } else if (current) current.appendChild(el);
+        el = next;
+    }
+};
+
+/**
+ * Converts post HTML into serialized block markup (paragraphs, headings, lists, tables,
+ * images, groups, and FAQ questions as core Details blocks) so WordPress opens it as
+ * editable blocks instead of a single Classic block. Anything else becomes a Custom HTML
+ * block. Content that already has block delimiters is returned unchanged.
+ */
+const serializeGutenbergBlocks = (html: string): string => {
+    if (!html?.trim() || /<!--\s*wp:/.test(html)) return html;
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    wrapFaqItems(doc.body);
+    return serializeBlockChildren(doc.body);
+};
+
+type SitemapSourceType = 'post' | 'page' | 'product' | 'category' | 'tag' | 'author' | 'attachment' | 'other';
+
+/** One URL from a sitemap, with the metadata we keep from its `<url>` element. */
+interface SitemapEntry {
+    url: string;
+    lastmod?: string;
+    /** The sitemap file the URL was listed in. */
+    source: string;
+    sourceType: SitemapSourceType;
+    images: number;
+    isNews: boolean;
+}
+
+const SITEMAP_SOURCE_LABELS: Record<SitemapSourceType, string> = {
+    post: 'Posts', page: 'Pages', product: 'Products', category: 'Categories', tag: 'Tags', author: 'Authors', attachment: 'Attachments', other: 'Other',
+};
+
+/** How many sitemap files are fetched at the same time, across all nested sitemap indexes. */
+const SITEMAP_FETCH_CONCURRENCY = 4;
+
+/** The most sitemap files fetched per minute. */
+const SITEMAP_REQUESTS_PER_MINUTE = 600;
+
+/**
+ * Guesses what a sitemap lists from its file name, covering the naming used by WordPress
+ * core, Yoast, Rank Math, AIOSEO and WooCommerce.
+ */
+const classifySitemap = (sitemapUrl: string): SitemapSourceType => {
+    const name = sitemapUrl.toLowerCase().split('/').pop() || '';
+    if (/attachment|media|image/.test(name)) return 'attachment';
+    if (/author|users/.test(name)) return 'author';
+    if (/post_tag|[-_]tag|^tag/.test(name)) return 'tag';
+    if (/categor|product_cat/.test(name)) return 'category';
+    if (/product/.test(name)) return 'product';
+    if (/page/.test(name)) return 'page';
+    if (/post|news|blog|article/.test(name)) return 'post';
+    return 'other';
+};
+
+/**
+ * Matches a URL against patterns entered one per line: each is tried as a regular
+ * expression and, if it isn't a valid one, as a plain substring.
+ */
+const matchesAnyPattern = (url: string, patterns: string[]): boolean =>
+    patterns.some(pattern => {
+        try { return new RegExp(pattern, 'i').test(url); } catch { return url.toLowerCase().includes(pattern.toLowerCase()); }
+    });
+
+/**
+ * Fetches a sitemap and returns its XML text, decompressing gzip bodies. Servers usually
+ * send `.xml.gz` files as a binary download rather than with `Content-Encoding`, so the
+ * browser leaves the decompression to us.
+ */
+const fetchSitemapText = async (url: string): Promise<string> => {
+    const response = await smartFetch(url);
+    if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+        const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+        return new Response(stream).text();
+    }
+    return new TextDecoder().decode(bytes);
+};
+
+/**
+ * Recursively parses a sitemap or sitemap index into structured entries. Child sitemaps
+ * of an index are fetched a few at a time.
+ * @param url The URL of the sitemap or sitemap index.
+ * @param visited A Set to keep track of visited sitemap URLs to prevent infinite loops.
+ * @param limit Caps the fetches of the whole tree; nested indexes share their parent's.
+ * @returns A Promise resolving to every URL entry found, in the order the sitemaps list them.
+ */
+const parseSitemap = async (
+    url: string,
+    visited: Set<string> = new Set(),
+    limit: TaskLimiter = createTaskLimiter(SITEMAP_FETCH_CONCURRENCY, SITEMAP_REQUESTS_PER_MINUTE)
+): Promise<SitemapEntry[]> => {
+    if (visited.has(url)) return [];
+    visited.add(url);
+
+    try {
+        const text = await limit(() => fetchSitemapText(url));
+        const xmlDoc = new DOMParser().parseFromString(text, "application/xml");
+
+        if (xmlDoc.getElementsByTagName("parsererror").length > 0) {
+            console.error(`XML parsing error for ${url}`);
+            return [];
+        }
+
+        const childText = (parent: Element, localName: string) =>
+            Array.from(parent.children).find(child => child.localName === localName)?.textContent?.trim() || undefined;
+
+        const isSitemapIndex = xmlDoc.getElementsByTagName('sitemapindex').length > 0;
+        if (isSitemapIndex) {
+            const childSitemaps = Array.from(xmlDoc.getElementsByTagName('sitemap')).map(node => childText(node, 'loc')).filter(Boolean) as string[];
+            const results = await Promise.all(childSitemaps.map(childUrl => parseSitemap(childUrl, visited, limit)));
+            return results.flat();
+        }
+
+        const isUrlset = xmlDoc.getElementsByTagName('urlset').length > 0;
+        if (isUrlset) {
+            const sourceType = classifySitemap(url);
+            return Array.from(xmlDoc.getElementsByTagName('url')).map(node => {
+                const children = Array.from(node.children);
+                const news = children.find(child => child.localName === 'news');
+                return {
+                    url: childText(node, 'loc'),
+                    lastmod: childText(node, 'lastmod') || (news ? childText(news, 'publication_date') : undefined),
+                    source: url,
+                    sourceType,
+                    images: children.filter(child => child.localName === 'image').length,
+                    isNews: !!news,
+                };
+            }).filter(entry => entry.url);
+        }
+        
+        console.warn(`No <sitemapindex> or <urlset> found in ${url}.`);
+        return [];
+
+    } catch (error) {
+        console.error(`Error processing sitemap URL ${url}:`, error);
+        return [];
+    }
+};
+
+/**
+ * Turns what the user typed into sitemap URLs. A sitemap URL is used as is; for a bare
+ * domain the sitemaps are read from robots.txt, falling back to the usual WordPress locations.
+ */
+const discoverSitemaps = async (input: string): Promise<string[]> => {
+    const withProtocol = /^https?:\/\//i.test(input.trim()) ? input.trim() : `https://${input.trim()}`;
+    const parsed = new URL(withProtocol);
+    const looksLikeSitemap = /\.xml(\.gz)?$|sitemap/i.test(parsed.pathname + parsed.search);
+    if (looksLikeSitemap) return [parsed.href];
+
+    const robots = await smartFetch(`${parsed.origin}/robots.txt`).then(r => r.ok ? r.text() : '').catch(() => '');
+    const fromRobots = robots.split('\n')
+        .map(line => line.match(/^\s*sitemap:\s*(\S+)/i)?.[1])
+        .filter(Boolean);
+    if (fromRobots.length) return [...new Set(fromRobots)];
+
+    for (const path of ['/sitemap_index.xml', '/wp-sitemap.xml', '/sitemap.xml']) {
+        const ok = await smartFetch(`${parsed.origin}${path}`).then(r => r.ok).catch(() => false);
+        if (ok) return [`${parsed.origin}${path}`];
+    }
+    throw new Error(`No sitemap was listed in ${parsed.origin}/robots.txt or found at the usual locations.`);
+};
+
+interface SitemapFilters {
+    include: string;
+    exclude: string;
+    excludedTypes: SitemapSourceType[];
+}
+
+/**
+ * Applies the include/exclude patterns and sitemap types chosen in the configuration.
+ * With no include patterns every URL is a candidate.
+ */
+const filterSitemapEntries = (entries: SitemapEntry[], filters: SitemapFilters): SitemapEntry[] => {
+    const include = parsePatternList(filters.include);
+    const exclude = parsePatternList(filters.exclude);
+    return entries.filter(entry =>
+        !filters.excludedTypes.includes(entry.sourceType)
+        && (include.length === 0 || matchesAnyPattern(entry.url, include))
+        && !matchesAnyPattern(entry.url, exclude));
+};
+
+/**
+ * A minimal promise-based key-value store on top of IndexedDB, used for data that is
+ * too large or too valuable for localStorage (post snapshots, saved workspaces).
+ */
+const openKeyValueStore = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open('wpContentOptimizer', 1);
+    request.onupgradeneeded = () => request.result.createObjectStore('kv');
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const runKeyValueRequest = async <T,>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+    const db = await openKeyValueStore();
+    return new Promise<T>((resolve, reject) => {
+        const request = makeRequest(db.transaction('kv', mode).objectStore('kv'));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    }).finally(() => db.close());
+};
+
+const kvGet = <T,>(key: string): Promise<T | undefined> => runKeyValueRequest<T | undefined>('readonly', store => store.get(key));
+const kvSet = (key: string, value: unknown): Promise<void> => runKeyValueRequest<void>('readwrite', store => store.put(value, key));
+const kvDelete = (key: string): Promise<void> => runKeyValueRequest<void>('readwrite', store => store.delete(key));
+
+/** The state of a WordPress post captured right before the app overwrote it. */
+interface PostSnapshot {
+    id: string;
+    siteUrl: string;
+    postId: number;
+    takenAt: string;
+    title: string;
+    content: string;
+    excerpt: string;
+    status: string;
+    meta: Record<string, unknown>;
+    /**
+     * The SEO plugin's fields, read through its adapter. Rank Math, All in One SEO and
+     * SEOPress keep them outside core `meta`, so restoring `meta` alone would not bring them back.
+     */
+    seo?: { plugin: Exclude<SeoPluginId, 'none'>; fields: Partial<SeoFields> };
+    link: string;
+    /** WordPress's own last-modified timestamp at the time of the snapshot. */
+    modified?: string;
+    /** The post type's collection route. Snapshots taken before pages were supported are all posts. */
+    restPath?: string;
+    author?: number;
+    categories?: number[];
+    tags?: number[];
+    /** The featured image's attachment ID, 0 for none. Missing on post types without featured images. */
+    featuredMedia?: number;
+}
+
+/** How many snapshots are kept per post before the oldest are discarded. */
+const MAX_SNAPSHOTS_PER_POST = 10;
+
+type CredentialStorage = 'vault' | 'session' | 'none';
+
+/** Secrets are kept apart from the rest of the saved configuration and never exported. */
+interface StoredSecrets {
+    wpPassword: string;
+    apiKeys: Record<string, string>;
+}
+
+const CONFIG_STORAGE_KEY = 'wpContentOptimizerConfig';
+const VAULT_STORAGE_KEY = 'wpContentOptimizerVault';
+/** Where older versions kept the raw vault key. Only read to scrub it. */
+const LEGACY_VAULT_SESSION_KEY = 'wpContentOptimizerVaultKey';
+const SESSION_SECRETS_KEY = 'wpContentOptimizerSecrets';
+
+const bytesToBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+/**
+ * Derives the AES-GCM vault key from a passphrase with PBKDF2. The key is not extractable
+ * and is only ever held in memory, so the vault locks again whenever the app is reloaded.
+ */
+const deriveVaultKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: 310000, hash: 'SHA-256' },
+        material, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']
+    );
+};
+
+const encryptVault = async (secrets: StoredSecrets, key: CryptoKey, salt: Uint8Array) => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(secrets)));
+    return { version: 1, salt: bytesToBase64(salt), iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(data)) };
+};
+
+const decryptVault = async (vault: { iv: string; data: string }, key: CryptoKey): Promise<StoredSecrets> => {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToBytes(vault.iv) }, key, base64ToBytes(vault.data));
+    return JSON.parse(new TextDecoder().decode(plain));
+};
+
+const readStoredVault = () => {
+    const raw = localStorage.getItem(VAULT_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as { version: number; salt: string; iv: string; data: string } : null;
+};
+
+/** The unlocked vault key. It never leaves memory. */
+let sessionVaultKey: CryptoKey | null = null;
+
+const readSessionVaultKey = (): CryptoKey | null => sessionVaultKey;
+
+const rememberSessionVaultKey = (key: CryptoKey) => {
+    sessionVaultKey = key;
+};
+
+/** Removes every stored copy of the credentials, whichever storage option wrote them. */
+const clearStoredSecrets = () => {
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+    sessionStorage.removeItem(LEGACY_VAULT_SESSION_KEY);
+    sessionStorage.removeItem(SESSION_SECRETS_KEY);
+    sessionVaultKey = null;
+};
+
+/** Returns a copy of a config or state object without credentials, for anything that leaves memory. */
+const withoutSecrets = <T extends { wpPassword?: unknown; apiKeys?: unknown },>(value: T): Omit<T, 'wpPassword' | 'apiKeys'> => {
+    const { wpPassword, apiKeys, ...rest } = value;
+    return rest;
+};
+
+const normalizeSiteUrl = (url: string): string => (url || '').trim().replace(/\/$/, '');
+
+const getLatestSnapshot = (snapshots: PostSnapshot[], siteUrl: string, postId): PostSnapshot | undefined =>
+    snapshots.find(s => s.siteUrl === normalizeSiteUrl(siteUrl) && String(s.postId) === String(postId));
+
+const slugToTitle = (url: string): string => {
+    try {
+        const path = new URL(url).pathname;
+        if (path === '/blog/') return 'Affiliate Marketing Blog';
+        return path.replace(/^\/|\/$/g, '').split('/').pop().replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+    } catch (e) {
+        return url;
+    }
+};
+
+const RELEVANCE_STOPWORDS = new Set('a an and are as at be best by can do does for from get guide how i in is it its my of on or our the this to top vs what when where which who why will with you your'.split(' '));
+
+/** Lowercased content words with plurals folded, so "tools" matches "tool". */
+const relevanceTokens = (text: string): string[] =>
+    (String(text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [] as string[])
+        .filter(token => token.length > 1 && !RELEVANCE_STOPWORDS.has(token))
+        .map(token => token.length > 3 ? token.replace(/ies$/, 'y').replace(/([^s])s$/, '$1') : token);
+
+/** Compares URLs ignoring protocol, "www.", query, fragment and trailing slash. */
+const normalizeLinkUrl = (url: string): string => {
+    try {
+        const parsed = new URL(url);
+        return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}`.toLowerCase();
+    } catch {
+        return String(url || '').toLowerCase();
+    }
+};
+
+/**
+ * Ranks internal link candidates by how much their title and slug share with the topic.
+ * Shared words count by their inverse document frequency, so a rare word like "shopify"
+ * outweighs a common one like "marketing".
+ * @param query The topic, optionally followed by its pillar topic.
+ * @param candidates Known site URLs with an optional title.
+ * @param limit How many candidates to return.
+ * @param excludeUrl The URL of the post being written, which should not link to itself.
+ */
+const rankInternalLinks = (query: string, candidates: { url: string; title?: string }[], limit: number, excludeUrl?: string): { url: string; title: string; score: number }[] => {
+    const seen = new Set(excludeUrl ? [normalizeLinkUrl(excludeUrl)] : []);
+    const docs = candidates
+        .filter(c => {
+            const key = c.url && normalizeLinkUrl(c.url);
+            if (!key || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .map(c => {
+            const title = c.title || slugToTitle(c.url);
+            let slug = c.url;
+            try { slug = new URL(c.url).pathname; } catch { /* keep the raw URL */ }
+            return { url: c.url, title, tokens: new Set([...relevanceTokens(title), ...relevanceTokens(slug)]) };
+        });
+    const documentFrequency = new Map<string, number>();
+    docs.forEach(doc => doc.tokens.forEach(token => documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1)));
+    const queryTokens = [...new Set(relevanceTokens(query))];
+    return docs
+        .map((doc, index) => {
+            const overlap = queryTokens.reduce((sum, token) => doc.tokens.has(token) ? sum + Math.log(1 + docs.length / documentFrequency.get(token)) : sum, 0);
+            // Long slugs match more words by chance; dampen them a little.
+            return { url: doc.url, title: doc.title, score: overlap / Math.sqrt(Math.max(1, doc.tokens.size) / 4 + 1), index };
+        })
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .slice(0, limit)
+        .map(({ url, title, score }) => ({ url, title, score: Math.round(score * 100) / 100 }));
+};
+
+/** Similarity at which two pages are reported as competing for the same keyword. */
+const CANNIBALIZATION_THRESHOLD = 0.5;
+
+/** Similarity at which a planned article counts as a duplicate of an existing page. */
+const DUPLICATE_TOPIC_THRESHOLD = 0.7;
+
+type OverlapAction = 'merge' | 'differentiate' | 'redirect';
+
+/** A page, or a planned article, compared for keyword overlap. */
+interface OverlapDocument {
+    key: string;
+    kind: 'existing' | 'planned';
+    title: string;
+    url?: string;
+    /** The plain text of the content, when it has been fetched. */
+    text?: string;
+    modified?: string;
+}
+
+interface CannibalizationGroup {
+    members: OverlapDocument[];
+    /** The highest similarity between two members, from 0 to 1. */
+    score: number;
+    action: OverlapAction;
+    advice: string;
+}
+
+/** A unit-length vector of log-scaled term counts weighted by inverse document frequency. */
+const termVector = (tokens: string[], idf: Map<string, number>): Map<string, number> => {
+    const counts = new Map<string, number>();
+    tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+    const vector = new Map<string, number>();
+    let norm = 0;
+    counts.forEach((count, token) => {
+        const weight = (1 + Math.log(count)) * (idf.get(token) || 0);
+        vector.set(token, weight);
+        norm += weight * weight;
+    });
+    norm = Math.sqrt(norm) || 1;
+    vector.forEach((weight, token) => vector.set(token, weight / norm));
+    return vector;
+};
+
+const cosineSimilarity = (a: Map<string, number>, b: Map<string, number>): number => {
+    const [small, large] = a.size < b.size ? [a, b] : [b, a];
+    let sum = 0;
+    small.forEach((weight, token) => { sum += weight * (large.get(token) || 0); });
+    return sum;
+};
+
+/**
+ * Prepares documents for comparison. Titles and slugs are compared by TF-IDF cosine
+ * similarity; when both documents have content, its similarity counts for 40% of the score.
+ * @returns A scorer for two document indexes, the pairs that share at least one distinctive
+ * title or slug word (the only ones worth scoring), and the documents paired with one document.
+ */
+const buildOverlapScorer = (docs: OverlapDocument[]) => {
+    const headTokens = docs.map(doc => {
+        let slug = '';
+        try { slug = doc.url ? new URL(doc.url).pathname : ''; } catch { /* not a URL */ }
+        return [...relevanceTokens(doc.title), ...relevanceTokens(slug)];
+    });
+    const bodyTokens = docs.map(doc => (doc.text ? relevanceTokens(doc.text.slice(0, 20000)) : null));
+    const inverseFrequency = (tokenLists: string[][]) => {
+        const frequency = new Map<string, number>();
+        tokenLists.forEach(tokens => new Set(tokens).forEach(token => frequency.set(token, (frequency.get(token) || 0) + 1)));
+        return { frequency, idf: new Map([...frequency].map(([token, count]) => [token, Math.log(1 + tokenLists.length / count)])) };
+    };
+    const head = inverseFrequency(headTokens);
+    const body = inverseFrequency(bodyTokens.filter(Boolean));
+    const headVectors = headTokens.map(tokens => termVector(tokens, head.idf));
+    const bodyVectors = bodyTokens.map(tokens => (tokens ? termVector(tokens, body.idf) : null));
+
+    const score = (i: number, j: number): number => {
+        const titleScore = cosineSimilarity(headVectors[i], headVectors[j]);
+        return bodyVectors[i] && bodyVectors[j] ? 0.6 * titleScore + 0.4 * cosineSimilarity(bodyVectors[i], bodyVectors[j]) : titleScore;
+    };
+
+    // Words on more than 50 pages (or 5% of a large site) are too common to make two pages compete.
+    const maxFrequency = Math.max(50, docs.length * 0.05);
+    const byToken = new Map<string, number[]>();
+    headTokens.forEach((tokens, index) => new Set(tokens).forEach(token => {
+        if (head.frequency.get(token) > maxFrequency) return;
+        if (!byToken.has(token)) byToken.set(token, []);
+        byToken.get(token).push(index);
+    }));
+    const pairs = (): [number, number][] => {
+        const keys = new Set<string>();
+        byToken.forEach(indexes => indexes.forEach((i, n) => indexes.slice(n + 1).forEach(j => keys.add(`${i}:${j}`))));
+        return [...keys].map(pair => pair.split(':').map(Number) as [number, number]);
+    };
+    const candidates = (index: number): number[] => {
+        const matches = new Set<number>();
+        new Set(headTokens[index]).forEach(token => byToken.get(token)?.forEach(other => { if (other !== index) matches.add(other); }));
+        return [...matches];
+    };
+    return { score, pairs, candidates };
+};
+
+const adviseOverlap = (members: OverlapDocument[], score: number): { action: OverlapAction; advice: string } => {
+    const existing = members.filter(doc => doc.kind === 'existing');
+    const planned = members.filter(doc => doc.kind === 'planned');
+    const newest = [...existing].sort((a, b) => String(b.modified || '').localeCompare(String(a.modified || '')))[0];
+    if (planned.length && existing.length) {
+        return score >= DUPLICATE_TOPIC_THRESHOLD
+            ? { action: 'merge', advice: `Planned ${planned.map(doc => `"${doc.title}"`).join(', ')} mostly duplicates "${newest.title}". Rewrite the existing page instead of writing a new one.` }
+            : { action: 'differentiate', advice: 'Give the planned article its own angle and focus keyword, and link it to the existing page.' };
+    }
+    if (!existing.length) return { action: 'differentiate', advice: 'These planned articles overlap. Drop one, or give each its own angle and focus keyword.' };
+    if (score >= 0.8) return { action: 'redirect', advice: `Keep "${newest.title}", the most recently updated, and 301-redirect the others to it.` };
+    if (score >= 0.65) return { action: 'merge', advice: `Merge the best parts into "${newest.title}", then redirect the others to it.` };
+    return { action: 'differentiate', advice: 'Give each page its own focus keyword and search intent, and link between them.' };
+};
+
+/**
+ * Finds pages and planned articles that compete for the same keyword. Overlapping pairs
+ * are joined into groups, each with its highest similarity and a suggested fix.
+ * @returns The groups, most similar first.
+ */
+const findCannibalization = (docs: OverlapDocument[]): CannibalizationGroup[] => {
+    const { score, pairs } = buildOverlapScorer(docs);
+    const parent = docs.map((_, index) => index);
+    const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+    const best = new Map<number, number>();
+    pairs().forEach(([i, j]) => {
+        const similarity = score(i, j);
+        if (similarity < CANNIBALIZATION_THRESHOLD) return;
+        const [a, b] = [root(i), root(j)];
+        parent[a] = b;
+        best.set(b, Math.max(best.get(a) || 0, best.get(b) || 0, similarity));
+    });
+    const groups = new Map<number, OverlapDocument[]>();
+    docs.forEach((doc, index) => {
+        const group = root(index);
+        if (!groups.has(group)) groups.set(group, []);
+        groups.get(group).push(doc);
+    });
+    return [...groups.entries()]
+        .filter(([, members]) => members.length > 1)
+        .map(([group, members]) => {
+            const groupScore = Math.round((best.get(group) || 0) * 100) / 100;
+            return { members, score: groupScore, ...adviseOverlap(members, groupScore) };
+        })
+        .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * The existing page a planned topic most duplicates, if any is similar enough to make
+ * writing the topic likely to cannibalize it.
+ */
+const findDuplicateTopic = (topic: string, existing: OverlapDocument[]): { doc: OverlapDocument; score: number } | null => {
+    const docs = [...existing.filter(doc => doc.kind === 'existing'), { key: `planned:${topic}`, kind: 'planned' as const, title: topic }];
+    const { score, candidates } = buildOverlapScorer(docs.map(({ text, ...doc }) => doc));
+    const planned = docs.length - 1;
+    return candidates(planned)
+        .map(index => ({ doc: docs[index], score: score(planned, index) }))
+        .filter(match => match.score >= DUPLICATE_TOPIC_THRESHOLD)
+        .sort((a, b) => b.score - a.score)[0] || null;
+};
+
+/**
+ * Everything to compare for cannibalization: the site's content URLs (with their content
+ * when the post was fetched) and the cluster plan's new opportunities.
+ */
+const collectOverlapDocuments = (state: {
+    posts: WorkspacePost[];
+    modeWorkspaces?: Record<string, ModeWorkspace>;
+    sitemapUrls: string[];
+    sitemapEntries?: SitemapEntry[];
+    clusterPlan?: ClusterPlan;
+}): OverlapDocument[] => {
+    const posts = [...state.posts, ...Object.values(state.modeWorkspaces || {}).flatMap(workspace => workspace.posts || [])];
+    const postsByUrl = new Map(posts.filter(post => post.url).map(post => [normalizeLinkUrl(post.url), post]));
+    const entries = new Map<string, SitemapEntry>((state.sitemapEntries || []).map(entry => [normalizeLinkUrl(entry.url), entry]));
+    const urls = new Map<string, string>([...state.sitemapUrls, ...[...postsByUrl.values()].map(post => post.url)].map(url => [normalizeLinkUrl(url), url]));
+    const existing = [...urls.entries()]
+        .filter(([key]) => !['category', 'tag', 'author', 'attachment'].includes(entries.get(key)?.sourceType))
+        .map(([key, url]): OverlapDocument => {
+            const post = postsByUrl.get(key);
+            return {
+                key,
+                kind: 'existing',
+                title: post?.title || slugToTitle(url),
+                url,
+                text: post?.content ? decodeHtmlEntities(post.content) : undefined,
+                modified: post?.modified || entries.get(key)?.lastmod,
+            };
+        });
+    const planned = (state.clusterPlan?.newOpportunities || []).map((opportunity): OverlapDocument => ({ key: `planned:${opportunity.title}`, kind: 'planned', title: opportunity.title }));
+    return [...existing, ...planned];
+};
+
+/** Anchors that tell neither readers nor search engines what the target is about. */
+const GENERIC_ANCHORS = new Set(['click here', 'here', 'read more', 'learn more', 'this article', 'this post', 'this guide', 'link', 'more']);
+
+interface InternalLinkReport {
+    links: { href: string; anchor: string; known: boolean }[];
+    invented: string[];
+    anchors: { text: string; count: number; targets: number; generic: boolean }[];
+    /** Share of internal links whose anchor text is unique, from 0 to 1. */
+    diversity: number;
+}
+
+/**
+ * Checks every internal link in the content against the URLs the site actually has, and
+ * summarises how varied the anchor texts are.
+ * @param html The article HTML.
+ * @param siteHosts Hostnames that count as internal (without "www.").
+ * @param knownUrls Normalized URLs (see `normalizeLinkUrl`) known to exist on the site.
+ */
+const analyzeInternalLinks = (html: string, siteHosts: Set<string>, knownUrls: Set<string>): InternalLinkReport => {
+    const doc = new DOMParser().parseFromString(html || '', 'text/html');
+    const links = Array.from(doc.body.querySelectorAll('a[href]'))
+        .map(a => ({ href: a.getAttribute('href'), anchor: a.textContent.replace(/\s+/g, ' ').trim() }))
+        .filter(link => {
+            if (link.href.startsWith('#')) return false;
+            if (link.href.startsWith('/')) return true;
+            try { return siteHosts.has(new URL(link.href).hostname.replace(/^www\./, '')); } catch { return false; }
+        })
+        .map(link => {
+            const absolute = link.href.startsWith('/') && siteHosts.size ? `https://${[...siteHosts][0]}${link.href}` : link.href;
+            return { ...link, known: knownUrls.has(normalizeLinkUrl(absolute)) };
+        });
+    const byAnchor = new Map<string, { text: string; count: number; targets: Set<string> }>();
+    links.forEach(link => {
+        const key = link.anchor.toLowerCase();
+        const entry = byAnchor.get(key) || { text: link.anchor, count: 0, targets: new Set<string>() };
+        entry.count++;
+        entry.targets.add(normalizeLinkUrl(link.href));
+        byAnchor.set(key, entry);
+    });
+    const anchors = [...byAnchor.entries()]
+        .map(([key, entry]) => ({ text: entry.text, count: entry.count, targets: entry.targets.size, generic: GENERIC_ANCHORS.has(key) || key === '' }))
+        .sort((a, b) => b.count - a.count);
+    const uniqueAnchors = anchors.filter(a => a.count === 1).length;
+    return {
+        links,
+        invented: [...new Set(links.filter(link => !link.known).map(link => link.href))],
+        anchors,
+        diversity: links.length ? uniqueAnchors / links.length : 1,
+    };
+};
+
+/**
+ * Collects the hostnames and URLs that make up the site, from the WordPress URL, the
+ * sitemap and the fetched posts.
+ */
+const buildSiteLinkIndex = (wpUrl: string, sitemapUrls: string[], posts: { url?: string }[]): { hosts: Set<string>; known: Set<string> } => {
+    const urls = [...sitemapUrls, ...posts.map(p => p.url).filter(Boolean)];
+    const hosts = new Set<string>();
+    [wpUrl, ...urls].forEach(url => {
+        try { hosts.add(new URL(url).hostname.replace(/^www\./, '')); } catch { /* not a URL */ }
+    });
+    return { hosts, known: new Set(urls.map(normalizeLinkUrl)) };
+};
+
+/**
+ * Replaces links to the given URLs with their anchor text, keeping the sentence intact.
+ */
+const unwrapLinks = (html: string, hrefs: string[]): string => {
+    const targets = new Set(hrefs);
+    const doc = new DOMParser().parseFromString(html || '', 'text/html');
+    doc.body.querySelectorAll('a[href]').forEach(a => {
+        if (targets.has(a.getAttribute('href'))) a.replaceWith(...Array.from(a.childNodes));
+    });
+    return doc.body.innerHTML;
+};
+
+/** An example link-check proxy template. `{url}` is replaced with the raw target URL and `{encodedUrl}` with the URL-encoded one. */
+const LINK_CHECK_PROXY_EXAMPLE = 'https://proxy.example.com/?url={encodedUrl}';
+
+/** Common affiliate networks and link-cloaking paths, matched against the full URL. */
+const AFFILIATE_LINK_PATTERNS = [
+    'amzn.to', 'amazon.*[?&]tag=', 'hop.clickbank.net', 'shareasale.com', 'awin1.com', 'anrdoezrs.net', 'jdoqocy.com',
+    'tkqlhce.com', 'dpbolvw.net', 'kqzyfj.com', 'sjv.io', 'pxf.io', 'partnerstack.com', 'impact.com', 'avantlink.com',
+    '[?&](ref|aff|affid|affiliate|aff_id|via)=', '/go/', '/recommends/', '/refer/',
+];
+
+interface LinkCheckResult {
+    url: string;
+    pending?: boolean;
+    ok?: boolean;
+    status?: number | null;
+    finalUrl?: string;
+    title?: string;
+    error?: string;
+    checkedAt?: string;
+}
+
+const isExternalHref = (href: string, siteHosts: Set<string>): boolean => {
+    try {
+        const url = new URL(href);
+        return /^https?:$/.test(url.protocol) && !siteHosts.has(url.hostname.replace(/^www\./, ''));
+    } catch {
+        return false;
+    }
+};
+
+const extractExternalLinks = (html: string, siteHosts: Set<string>): string[] =>
+    extractLinkHrefs(html).filter(href => isExternalHref(href, siteHosts));
+
+/** Splits the newline-separated patterns entered in the configuration. */
+const parsePatternList = (text: string): string[] => String(text || '').split('\n').map(line => line.trim()).filter(Boolean);
+
+const isAffiliateLink = (href: string, extraPatterns: string[]): boolean =>
+    matchesAnyPattern(href, [...AFFILIATE_LINK_PATTERNS, ...extraPatterns]);
+
+/**
+ * Gives every outbound link `noopener`, and affiliate or sponsored links `sponsored nofollow`.
+ * Existing `rel` values are kept.
+ * @param extraPatterns Site-specific affiliate patterns (substrings or regular expressions).
+ * @returns The HTML, re-serialized only when a link changed.
+ */
+const applyOutboundRel = (html: string, siteHosts: Set<string>, extraPatterns: string[]): string => {
+    const doc = new DOMParser().parseFromString(html || '', 'text/html');
+    let changed = false;
+    doc.body.querySelectorAll('a[href]').forEach(a => {
+        const href = a.getAttribute('href');
+        if (!isExternalHref(href, siteHosts)) return;
+        const rel = new Set((a.getAttribute('rel') || '').split(/\s+/).filter(Boolean));
+        const before = rel.size;
+        rel.add('noopener');
+        if (isAffiliateLink(href, extraPatterns)) { rel.add('sponsored'); rel.add('nofollow'); }
+        if (rel.size !== before) {
+            a.setAttribute('rel', [...rel].join(' '));
+            changed = true;
+        }
+    });
+    return changed ? doc.body.innerHTML : html;
+};
+
+const replaceLinkHref = (html: string, from: string, to: string): string => {
+    const doc = new DOMParser().parseFromString(html || '', 'text/html');
+    doc.body.querySelectorAll('a[href]').forEach(a => {
+        if (a.getAttribute('href') === from) a.setAttribute('href', to);
+    });
+    return doc.body.innerHTML;
+};
+
+/**
+ * Requests an outbound URL, directly or through a link-check proxy, and records what came back.
+ * Redirects are only detected on direct requests, where the browser reports the final URL.
+ * A proxy follows them itself and answers from its own URL, so the result cannot say where
+ * the link ended up.
+ * @param proxyTemplate The proxy URL template, or an empty string to fetch directly.
+ */
+const checkExternalLink = async (url: string, proxyTemplate: string, timeoutMs = 15000): Promise<LinkCheckResult> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const checkedAt = new Date().toISOString();
+    try {
+        const target = proxyTemplate ? proxyTemplate.replace('{encodedUrl}', encodeURIComponent(url)).replace('{url}', url) : url;
+        const response = await fetch(target, { signal: controller.signal, redirect: 'follow' });
+        const finalUrl = !proxyTemplate && response.redirected && normalizeLinkUrl(response.url) !== normalizeLinkUrl(url) ? response.url : undefined;
+        let title: string | undefined;
+        if (response.ok && (response.headers.get('content-type') || '').includes('html')) {
+            const rawTitle = (await response.text()).match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+            if (rawTitle) title = new DOMParser().parseFromString(rawTitle, 'text/html').body.textContent.trim();
+        }
+        return { url, ok: response.ok, status: response.status, finalUrl, title, checkedAt };
+    } catch (error) {
+        const message = controller.signal.aborted ? `No response within ${timeoutMs / 1000}s`
+            // Browsers report a cross-origin refusal as a bare network error.
+            : !proxyTemplate && error instanceof TypeError ? 'The site does not allow cross-origin checks. Set a link check proxy to check it.'
+            : (error instanceof Error) ? error.message : String(error);
+        return { url, ok: false, status: null, error: message, checkedAt };
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+type PromptKind = 'pillar' | 'cluster' | 'article';
+
+/** A prompt the user can edit. Saving a changed template bumps its version. */
+interface PromptTemplate {
+    id: string;
+    kind: PromptKind;
+    name: string;
+    body: string;
+    version: number;
+    updatedAt: string;
+    /** Built-in templates ship with the app and can only be duplicated. */
+    builtIn?: boolean;
+    /** Earlier versions, oldest first, so the prompt behind a post's recorded version can still be read. */
+    history?: PromptTemplateVersion[];
+}
+
+interface PromptTemplateVersion {
+    version: number;
+    name: string;
+    body: string;
+    updatedAt: string;
+}
+
+/** The prompt library as it is saved in IndexedDB. */
+interface StoredPromptLibrary {
+    templates?: PromptTemplate[];
+    activeTemplates?: { [site: string]: Partial<Record<PromptKind, string>> };
+    /** Profiles from before locales were added have a `language` name instead of `locale`. */
+    voiceProfiles?: { [site: string]: Partial<VoiceProfile> & { language?: string } };
+}
+
+/** The template a generated post was written with, recorded on the post. */
+interface PromptTemplateRef {
+    id: string;
+    name: string;
+    version: number;
+}
+
+type ReadingLevel = 'simple' | 'general' | 'expert';
+
+/** A site's house style, filled into every prompt. */
+interface VoiceProfile {
+    niche: string;
+    /** BCP 47 locale the site publishes in, e.g. `es-ES`. */
+    locale: string;
+    tone: string;
+    readingLevel: ReadingLevel;
+    /** Target article length in words. */
+    targetLength: number;
+    /** One word or phrase per line. */
+    bannedPhrases: string;
+}
+
+/** Locales offered in the locale pickers. Any valid BCP 47 code can be typed instead. */
+const COMMON_LOCALES = ['en-US', 'en-GB', 'es-ES', 'es-MX', 'de-DE', 'de-AT', 'fr-FR', 'it-IT', 'pt-BR', 'pt-PT', 'nl-NL', 'pl-PL', 'sv-SE', 'da-DK', 'nb-NO', 'fi-FI', 'ja-JP', 'ko-KR', 'zh-CN'];
+
+/** A readable name for a locale, e.g. "Spanish (Spain)" for `es-ES`. */
+const localeLabel = (locale: string): string => {
+    try {
+        return new Intl.DisplayNames(['en'], { type: 'language' }).of(locale) || locale;
+    } catch {
+        return locale;
+    }
+};
+
+/** Normalizes a locale code, or returns null when it is not valid BCP 47. Accepts WordPress's `es_ES` form. */
+const canonicalLocale = (locale: string): string | null => {
+    try {
+        return Intl.getCanonicalLocales(String(locale || '').trim().replace(/_/g, '-'))[0] || null;
+    } catch {
+        return null;
+    }
+};
+
+/** The two-letter language part of a locale, which WPML and Polylang use as language codes. */
+const localeLanguage = (locale: string): string => String(locale || '').split(/[-_]/)[0].toLowerCase();
+
+/**
+ * Voice profiles saved before locales were added hold a free-text `language`, e.g. "Spanish".
+ * It becomes the first common locale for that language, or is used as typed when it is already a locale code.
+ */
+const migrateVoiceProfile = ({ language, ...profile }: Partial<VoiceProfile> & { language?: string }): Partial<VoiceProfile> => {
+    if (profile.locale || !language?.trim()) return profile;
+    const name = language.trim().toLowerCase();
+    const byName = COMMON_LOCALES.find(code => localeLabel(localeLanguage(code)).toLowerCase() === name);
+    const typed = canonicalLocale(language);
+    // Plain words such as "english" are syntactically valid language subtags, so only 2-3 letter codes count.
+    const locale = byName || (typed && /^[a-z]{2,3}(-|$)/i.test(typed) ? typed : null);
+    return locale ? { ...profile, locale } : profile;
+};
+
+const PROMPT_KIND_LABELS: Record<PromptKind, string> = { pillar: 'Pillar topics', cluster: 'Cluster plan', article: 'Article' };
+
+/** `minFlesch` is the reading ease the quality check expects at each level. */
+const READING_LEVELS: Record<ReadingLevel, { label: string; instruction: string; minFlesch: number }> = {
+    simple: { label: 'Simple', instruction: 'Plain language a 12-year-old can follow: short sentences, everyday words, no jargon.', minFlesch: 70 },
+    general: { label: 'General audience', instruction: 'Conversational and clear for a general adult audience. Explain any jargon the first time it appears.', minFlesch: 50 },
+    expert: { label: 'Expert', instruction: 'Precise, technical language for practitioners. Skip the basics they already know.', minFlesch: 30 },
+};
+
+const DEFAULT_VOICE_PROFILE: VoiceProfile = {
+    niche: 'affiliate marketing',
+    locale: 'en-US',
+    tone: 'Direct, high-conviction, and packed with actionable value, reminiscent of Alex Hormozi.',
+    readingLevel: 'general',
+    targetLength: 1800,
+    bannedPhrases: '',
+};
+
+/** The variables each kind of template can use, with what they are filled with. */
+const PROMPT_VARIABLES: Record<PromptKind, Record<string, string>> = {
+    pillar: {
+        sitemapUrls: 'Up to 100 URLs picked at random from the sitemap',
+        niche: 'The niche from the voice profile',
+        language: 'The output language from the voice profile, e.g. "Spanish (Spain)"',
+        locale: 'The locale code from the voice profile, e.g. es-ES',
+    },
+    cluster: {
+        pillar: 'The selected pillar topic',
+        existingUrls: 'Every sitemap URL, with its last-modified date when known',
+        niche: 'The niche from the voice profile',
+        language: 'The output language from the voice profile, e.g. "Spanish (Spain)"',
+        locale: 'The locale code from the voice profile, e.g. es-ES',
+    },
+    article: {
+        topic: 'The topic, or the URL of the post being rewritten',
+        task: 'What to do: write a new article or rewrite an existing one',
+        pillar: 'The pillar topic the article supports, if any',
+        internalLinks: 'The internal linking instructions and the ranked list of site URLs',
+        references: 'How to cite sources, depending on whether the model can search',
+        niche: 'The niche from the voice profile',
+        language: 'The output language from the voice profile, e.g. "Spanish (Spain)"',
+        locale: 'The locale code from the voice profile, e.g. es-ES',
+        tone: 'The tone from the voice profile',
+        readingLevel: 'The reading level instruction from the voice profile',
+        targetLength: 'The target length in words from the voice profile',
+        bannedPhrases: 'The banned phrases from the voice profile, comma-separated',
+    },
+};
+
+const BUILT_IN_PROMPT_TEMPLATES: PromptTemplate[] = [
+    {
+        id: 'builtin-pillar',
+        kind: 'pillar',
+        name: 'Pillar strategist',
+        version: 1,
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        builtIn: true,
+        body: `You are a world-class SEO content strategist. Your task is to analyze a website's sitemap to identify its main areas of expertise and propose high-level "pillar topics". A pillar topic is a broad subject area that can be broken down into many smaller, more specific articles (cluster content).
+
+Based on this list of URLs from the website:
+{{sitemapUrls}}
+
+**Your Task:**
+Identify 3-5 core pillar topics for this website. For each pillar, provide a compelling title and a short description explaining why it's a crucial pillar for establishing topical authority in the {{niche}} niche. Write the titles and descriptions in {{language}}.`,
+    },
+    {
+        id: 'builtin-cluster',
+        kind: 'cluster',
+        name: 'Topical cluster planner',
+        version: 1,
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        builtIn: true,
+        body: `You are an expert SEO content strategist specializing in building topical authority. Your mission is to create a complete "Topical Cluster Plan" around a central pillar topic, ensuring zero keyword cannibalization by analyzing the site's existing content.
+
+**Pillar Topic:** {{pillar}}
+
+**Full list of existing URLs on the website:**
+{{existingUrls}}
+
+**Your Task (3 Steps):**
+
+1.  **Map Existing Assets:** Analyze the full list of URLs provided. Identify every existing article that is relevant to the pillar topic "{{pillar}}". These are your 'Existing Cluster Assets'.
+2.  **Identify Content Gaps:** Based on your expert knowledge of "{{pillar}}", determine which crucial subtopics, user questions, and long-tail keywords are MISSING from the existing assets. Your goal is to find the gaps that prevent the website from being the definitive authority on this subject.
+3.  **Propose New Content:** Generate a list of 10-15 highly specific, long-tail blog post ideas that precisely fill the content gaps you identified. These are your 'New Cluster Opportunities'. Each title should be compelling and target a clear user intent. Write the titles, descriptions and suggestions in {{language}}.`,
+    },
+    {
+        id: 'builtin-article',
+        kind: 'article',
+        name: '10x pillar post',
+        version: 1,
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        builtIn: true,
+        body: `You are a world-class SEO and content strategist, operating as a definitive expert in the given topic. Your mission is to produce a comprehensive, {{targetLength}}+ word pillar blog post in {{language}} that is strategically designed to rank #1 on Google.
+
+**Core Task:** {{task}}
+
+**Pillar Post Generation Protocol:**
+
+1.  **Data-Driven SERP & Gap Analysis:**
+    *   **Use Google Search:** Actively use your search capabilities to analyze the current top 5-10 search results for the primary keyword.
+    *   **Identify Content Gaps:** Your primary objective is to create "10x content" that addresses the gaps they've missed. What questions are unanswered? What topics are only superficially covered? Your article MUST provide significantly more value, depth, and unique insights than the current top rankers.
+
+2.  **Content & Tone:**
+    *   **Voice:** {{tone}}
+    *   **Expert Persona:** Write with extreme authority. Inject critical thinking and strong, defensible opinions. Avoid generic, fluffy language.
+    *   **Reading Level:** {{readingLevel}}
+    *   **Banned Phrases:** Never use any of these words or phrases: {{bannedPhrases}}.
+    *   **Localization:** Write for readers in the {{locale}} market: use their spelling, units, currency and examples.
+    *   **Readability is Key:** Use short, punchy paragraphs (2-3 sentences max). Utilize bolding, bullet points (\`<ul>\`), and numbered lists (\`<ol>\`) to make the extensive content scannable.
+
+3.  **Required Article Structure (in this exact order):**
+    *   **"Wow" Introduction:** Start with a compelling hook: a surprising statistic, a bold contrarian claim, or a relatable pain point.
+    *   **Key Takeaways Box:** Immediately after the intro, add an H3 titled "Key Takeaways" inside a \`<div class="key-takeaways">\`. Provide a bulleted list of 6-8 crucial, actionable points.
+    *   **Comprehensive Body:** A deep-dive exploration of the topic using clear H2 and H3 subheadings. The final article MUST be at least {{targetLength}} words. Cover all aspects of the main keyword and the insights from your gap analysis.
+    *   **Intelligent Internal Linking:** {{internalLinks}}
+    *   **FAQ Section:** Include an H2 titled "Frequently Asked Questions" and answer 3-5 relevant questions (inspired by "People Also Ask" from your search analysis).
+    *   **Conclusion:** A strong, actionable conclusion that summarizes the key points and gives the reader a clear next step.
+    *   **References:** {{references}}`,
+    },
+];
+
+/** Replaces `{{name}}` placeholders. Unknown names are left in place so the editor can flag them. */
+const renderPromptTemplate = (body: string, variables: Record<string, string>): string =>
+    body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => (name in variables ? variables[name] : match));
+
+/** The placeholders in a template that its kind does not provide. */
+const findUnknownPromptVariables = (body: string, kind: PromptKind): string[] =>
+    [...new Set([...body.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map(match => match[1]))].filter(name => !(name in PROMPT_VARIABLES[kind]));
+
+/**
+ * Picks the template a site uses for a kind of prompt, falling back to the built-in one
+ * when none was chosen or the chosen one was deleted.
+ */
+const resolvePromptTemplate = (customTemplates: PromptTemplate[], activeIds: Partial<Record<PromptKind, string>> | undefined, kind: PromptKind): PromptTemplate =>
+    [...BUILT_IN_PROMPT_TEMPLATES, ...customTemplates].find(t => t.kind === kind && t.id === activeIds?.[kind])
+    || BUILT_IN_PROMPT_TEMPLATES.find(t => t.kind === kind);
+
+/** The voice profile variables shared by every kind of template. */
+const voiceProfileVariables = (voice: VoiceProfile): Record<string, string> => {
+    const banned = parsePatternList(voice.bannedPhrases);
+    return {
+        niche: voice.niche || DEFAULT_VOICE_PROFILE.niche,
+        language: localeLabel(voice.locale || DEFAULT_VOICE_PROFILE.locale),
+        locale: voice.locale || DEFAULT_VOICE_PROFILE.locale,
+        tone: voice.tone || DEFAULT_VOICE_PROFILE.tone,
+        readingLevel: READING_LEVELS[voice.readingLevel]?.instruction || READING_LEVELS.general.instruction,
+        targetLength: String(voice.targetLength || DEFAULT_VOICE_PROFILE.targetLength),
+        bannedPhrases: banned.length ? banned.map(phrase => `"${phrase}"`).join(', ') : 'none',
+    };
+};
+
+type PublishStatus = 'publish' | 'draft' | 'pending' | 'future';
+
+const PUBLISH_MODES: { value: PublishStatus; label: string; action: string }[] = [
+    { value: 'publish', label: 'Publish immediately', action: 'Publish to WordPress' },
+    { value: 'draft', label: 'Save as draft', action: 'Save Draft to WordPress' },
+    { value: 'pending', label: 'Pending review', action: 'Submit for Review' },
+    { value: 'future', label: 'Schedule', action: 'Schedule in WordPress' },
+];
+
+/**
+ * Formats a date for a `datetime-local` input (local time, minute precision).
+ */
+const toDateTimeInputValue = (date: Date): string => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const toDayKey = (date: Date): string => toDateTimeInputValue(date).slice(0, 10);
+
+/**
+ * Spreads items evenly over a weekly publishing cadence. With 3 posts a week starting
+ * on a Monday, items land on Monday, Wednesday and Friday of each consecutive week.
+ * @param items The items to schedule, in publishing order.
+ * @param postsPerWeek How many items to publish per week (1-7).
+ * @param startDate The first publishing day.
+ * @param time The local publishing time, as "HH:MM".
+ * @param occupiedDays Days (see `toDayKey`) that already have a post scheduled. Their slots are skipped.
+ * @returns The items paired with their publishing date.
+ */
+const buildPublishingSchedule = <T,>(items: T[], postsPerWeek: number, startDate: Date, time: string, occupiedDays: Set<string> = new Set()): { item: T; date: Date }[] => {
+    const perWeek = Math.min(7, Math.max(1, Math.round(postsPerWeek) || 1));
+    const [hours, minutes] = time.split(':').map(Number);
+    const slotDate = (index: number) => {
+        const date = new Date(startDate);
+        date.setDate(date.getDate() + Math.floor(index / perWeek) * 7 + Math.floor((index % perWeek) * 7 / perWeek));
+        date.setHours(hours || 0, minutes || 0, 0, 0);
+        return date;
+    };
+    let slot = 0;
+    return items.map(item => {
+        while (occupiedDays.has(toDayKey(slotDate(slot)))) slot++;
+        return { item, date: slotDate(slot++) };
+    });
+};
+
+type DiffOp<T> = { type: 'equal' | 'removed' | 'added'; value: T };
+
+/**
+ * Computes a minimal edit script between two sequences using the classic LCS table.
+ * Sequences whose table would exceed `maxCells` are reported as a full replacement
+ * instead, which keeps memory bounded on very long articles.
+ * @param a The original sequence.
+ * @param b The new sequence.
+ * @param key Maps an item to the string used to compare items.
+ * @returns The operations that turn `a` into `b`, in document order.
+ */
+const diffSequences = <T,>(a: T[], b: T[], key: (item: T) => string, maxCells = 4_000_000): DiffOp<T>[] => {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && key(a[prefix]) === key(b[prefix])) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && key(a[a.length - 1 - suffix]) === key(b[b.length - 1 - suffix])) suffix++;
+
+    const head: DiffOp<T>[] = a.slice(0, prefix).map(value => ({ type: 'equal', value }));
+    const tail: DiffOp<T>[] = a.slice(a.length - suffix).map(value => ({ type: 'equal', value }));
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    const n = midA.length;
+    const m = midB.length;
+
+    if ((n + 1) * (m + 1) > maxCells) {
+        return [...head, ...midA.map(value => ({ type: 'removed' as const, value })), ...midB.map(value => ({ type: 'added' as const, value })), ...tail];
+    }
+
+    const keysA = midA.map(key);
+    const keysB = midB.map(key);
+    const table = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            table[i * (m + 1) + j] = keysA[i] === keysB[j]
+                ? table[(i + 1) * (m + 1) + j + 1] + 1
+                : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1]);
+        }
+    }
+
+    const middle: DiffOp<T>[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (keysA[i] === keysB[j]) {
+            middle.push({ type: 'equal', value: midA[i] });
+            i++; j++;
+        } else if (table[(i + 1) * (m + 1) + j] >= table[i * (m + 1) + j + 1]) {
+            middle.push({ type: 'removed', value: midA[i++] });
+        } else {
+            middle.push({ type: 'added', value: midB[j++] });
+        }
+    }
+    while (i < n) middle.push({ type: 'removed', value: midA[i++] });
+    while (j < m) middle.push({ type: 'added', value: midB[j++] });
+    return [...head, ...middle, ...tail];
+};
+
+const tokenizeWords = (text: string): string[] => (text || '').split(/(\s+)/).filter(Boolean);
+
+const diffWords = (before: string, after: string) => diffSequences(tokenizeWords(before), tokenizeWords(after), word => word);
+
+interface ContentBlock { tag: string; text: string; }
+
+/**
+ * Splits HTML into its text-bearing leaf blocks (headings, paragraphs, list items,
+ * table cells, ...) so content can be compared block by block.
+ */
+const extractContentBlocks = (html: string): ContentBlock[] => {
+    const doc = new DOMParser().parseFromString(html || '', 'text/html');
+    const selector = 'h1, h2, h3, h4, h5, h6, p, li, blockquote, pre, th, td, figcaption, dt, dd';
+    return Array.from(doc.body.querySelectorAll(selector))
+        .filter(el => !el.querySelector(selector))
+        .map(el => ({ tag: el.tagName.toLowerCase(), text: el.textContent.replace(/\s+/g, ' ').trim() }))
+        .filter(block => block.text);
+};
+
+const extractLinkHrefs = (html: string): string[] => {
+    const doc = new DOMParser().parseFromString(html || '', 'text/html');
+    return [...new Set(Array.from(doc.querySelectorAll('a[href]')).map(a => a.getAttribute('href')))];
+};
+
+type BlockChange =
+    | { type: 'equal'; block: ContentBlock }
+    | { type: 'removed'; block: ContentBlock }
+    | { type: 'added'; block: ContentBlock }
+    | { type: 'modified'; before: ContentBlock; after: ContentBlock; words: DiffOp<string>[] };
+
+/**
+ * Block-level diff of two HTML documents. A removed block directly followed by an added
+ * block of the same tag is reported as a single `modified` block with a word-level diff.
+ */
+const diffContentBlocks = (beforeHtml: string, afterHtml: string): BlockChange[] => {
+    const ops = diffSequences(extractContentBlocks(beforeHtml), extractContentBlocks(afterHtml), block => `${block.tag}:${block.text}`);
+    const changes: BlockChange[] = [];
+    for (let i = 0; i < ops.length; i++) {
+        const op = ops[i];
+        const next = ops[i + 1];
+        if (op.type === 'removed' && next?.type === 'added' && next.value.tag === op.value.tag) {
+            changes.push({ type: 'modified', before: op.value, after: next.value, words: diffWords(op.value.text, next.value.text) });
+            i++;
+        } else {
+            changes.push({ type: op.type, block: op.value });
+        }
+    }
+    return changes;
+};
+
+const ProgressBar = ({ currentStep }: { currentStep: number }) => {
+    const steps = ['Config', 'Content Strategy', 'Review & Publish'];
+    return (
+        <ol className="progress-bar">
+            {steps.map((name, index) => {
+                const stepIndex = index + 1;
+                const status = stepIndex < currentStep ? 'completed' : stepIndex === currentStep ? 'active' : '';
+                return (
+                    <li key={name} className={`progress-step ${status}`}>
+                        <div className="step-circle">{stepIndex < currentStep ? '✔' : stepIndex}</div>
+                        <span className="step-name">{name}</span>
+                    </li>
+                );
+            })}
+        </ol>
+    );
+};
+
+const ApiKeyValidator = ({ status }) => {
+    if (status === 'validating') return <div className="key-status-icon"><div className="key-status-spinner"></div></div>;
+    if (status === 'valid') return <div className="key-status-icon success"><svg fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path></svg></div>;
+    if (status === 'quota' || status === 'network') return <div className="key-status-icon warning"><svg fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01M10.29 3.86L1.82 18a2 2 0 001.71 3h16.94a2 2 0 001.71-3L13.71 3.86a2 2 0 00-3.42 0z"></path></svg></div>;
+    if (status === 'invalid') return <div className="key-status-icon error"><svg fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg></div>;
+    return null;
+};
+
+const Feature = ({ icon, title, children }) => (
+    <div className="feature">
+        <div className="feature-icon">{icon}</div>
+        <div className="feature-content">
+            <h3>{title}</h3>
+            <p>{children}</p>
+        </div>
+    </div>
+);
+
+const PromotionalLinks = () => {
+    const linksToShow = useMemo(() => getRandomSubset(PROMOTIONAL_LINKS, 4), []);
+
+    return (
+        <div className="promo-links-section">
+            <h3>Explore Our Expertise</h3>
+            <p>Check out some of our top-performing content at affiliatemarketingforsuccess.com.</p>
+            <div className="promo-links-grid">
+                {linksToShow.map(url => (
+                    <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="promo-link-card">
+                        <h4>{slugToTitle(url)}</h4>
+                        <span>affiliatemarketingforsuccess.com</span>
+                    </a>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const LandingPageIntro = () => (
+    <div className="landing-intro">
+        <h2 className="usp-headline">The AI Strategist that builds your content empire, from keyword to #1 ranking.</h2>
+        <p className="usp-subheadline">
+            Go beyond generic AI writing. We analyze your entire site to build a data-driven content strategy, creating interconnected articles engineered to dominate search rankings.
+        </p>
+        <div className="features-grid">
+            <Feature
+                icon={<svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13V7m0 13a2 2 0 002-2V9a2 2 0 00-2-2m-2 4h.01M15 20l5.447-2.724A1 1 0 0021 16.382V5.618a1 1 0 00-1.447-.894L15 7m0 13V7m0 13a2 2 0 01-2-2V9a2 2 0 012-2m2 4h-.01" /></svg>}
+                title="Full-Stack Content Strategy"
+            >
+                Automatically identify core content pillars and generate entire "content clusters" to build topical authority and own your niche.
+            </Feature>
+            <Feature
+                icon={<svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" /></svg>}
+                title="Data-Driven Content Engine"
+            >
+                 Leverage live SERP analysis to find competitor gaps and generate 10x content with automated schema markup for higher rankings.
+            </Feature>
+            <Feature
+                icon={<svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>}
+                title="Automated Content Audits"
+            >
+                Automatically detect and flag "stale" content. Revitalize old posts with one click, turning content decay into a strategic advantage.
+            </Feature>
+        </div>
+        <PromotionalLinks />
+        <div className="risk-reversal">
+            <p><strong>Your Advantage:</strong> This is a powerful, free tool designed to give you a competitive edge. There are no trials or fees. Simply configure your details below and start optimizing.</p>
+        </div>
+    </div>
+);
+
+
+/**
+ * Edits the prompt templates and the current site's voice profile. Built-in templates are
+ * read-only; duplicating one gives an editable copy. Saving a changed template bumps its
+ * version, which generated posts record, and keeps the previous version in its history.
+ */
+const PromptLibrary = ({ state, dispatch }) => {
+    const { promptTemplates, activeTemplates, voiceProfiles, wpUrl, sitemapUrl } = state;
+    const site = getSiteKey(wpUrl, sitemapUrl) || '';
+    const voice: VoiceProfile = { ...DEFAULT_VOICE_PROFILE, ...voiceProfiles[site] };
+    const [kind, setKind] = useState<PromptKind>('article');
+    const selected = resolvePromptTemplate(promptTemplates, activeTemplates[site], kind);
+    const [draft, setDraft] = useState({ name: selected.name, body: selected.body });
+    const templatesOfKind = [...BUILT_IN_PROMPT_TEMPLATES, ...promptTemplates].filter(t => t.kind === kind);
+    const unknownVariables = useMemo(() => findUnknownPromptVariables(draft.body, kind), [draft.body, kind]);
+    const isDirty = draft.name !== selected.name || draft.body !== selected.body;
+    const [localeDraft, setLocaleDraft] = useState(voice.locale);
+
+    useEffect(() => setLocaleDraft(voice.locale), [site]);
+
+    useEffect(() => setDraft({ name: selected.name, body: selected.body }), [selected.id, selected.version]);
+
+    const selectTemplate = (id: string) => dispatch({ type: 'SET_ACTIVE_TEMPLATE', payload: { site, kind, id } });
+    const setVoice = (profile: Partial<VoiceProfile>) => dispatch({ type: 'SET_VOICE_PROFILE', payload: { site, profile } });
+    // Half-typed codes stay in the field; only valid locales reach the profile.
+    const handleLocaleChange = (value: string) => {
+        setLocaleDraft(value);
+        const locale = canonicalLocale(value);
+        if (locale) setVoice({ locale });
+    };
+
+    const handleDuplicate = () => {
+        const copy: PromptTemplate = { id: `template-${Date.now()}`, kind, name: `${draft.name} (copy)`, body: draft.body, version: 1, updatedAt: new Date().toISOString() };
+        dispatch({ type: 'SAVE_PROMPT_TEMPLATE', payload: copy });
+        selectTemplate(copy.id);
+    };
+
+    const handleSave = () => {
+        const previous: PromptTemplateVersion = { version: selected.version, name: selected.name, body: selected.body, updatedAt: selected.updatedAt };
+        dispatch({ type: 'SAVE_PROMPT_TEMPLATE', payload: { ...selected, ...draft, version: selected.version + 1, updatedAt: new Date().toISOString(), history: [...(selected.history || []), previous] } });
+    };
+
+    // Loading an earlier version only fills the editor; saving it makes it the next version.
+    const handleLoadVersion = (version: number) => {
+        const earlier = selected.history?.find(entry => entry.version === version);
+        if (earlier) setDraft({ name: earlier.name, body: earlier.body });
+    };
+
+    const handleDelete = () => {
+        if (!window.confirm(`Delete the "${selected.name}" template? Sites using it switch back to the built-in template.`)) return;
+        dispatch({ type: 'DELETE_PROMPT_TEMPLATE', payload: selected.id });
+    };
+
+    return (
+        <details className="prompt-library">
+            <summary>Prompt templates and brand voice</summary>
+            <div className="prompt-library-grid">
+                <fieldset className="config-fieldset">
+                    <legend>Brand Voice{site ? ` for ${site}` : ''}</legend>
+                    <div className="form-group"><label htmlFor="voiceNiche">Niche</label><input type="text" id="voiceNiche" value={voice.niche} onChange={e => setVoice({ niche: e.target.value })} placeholder={DEFAULT_VOICE_PROFILE.niche} /></div>
+                    <div className="form-group">
+                        <label htmlFor="voiceLocale">Language &amp; Locale</label>
+                        <input type="text" id="voiceLocale" list="common-locales" value={localeDraft} onChange={e => handleLocaleChange(e.target.value)} placeholder={DEFAULT_VOICE_PROFILE.locale} />
+                        <datalist id="common-locales">{COMMON_LOCALES.map(locale => <option key={locale} value={locale}>{localeLabel(locale)}</option>)}</datalist>
+                        <p className={`help-text ${canonicalLocale(localeDraft) ? '' : 'key-status-message invalid'}`}>{canonicalLocale(localeDraft) ? `Articles are written in ${localeLabel(canonicalLocale(localeDraft))}.` : 'Enter a locale code such as en-US or es-ES.'}</p>
+                    </div>
+                    <div className="form-group"><label htmlFor="voiceTone">Tone</label><textarea id="voiceTone" className="meta-description-input" value={voice.tone} onChange={e => setVoice({ tone: e.target.value })} /></div>
+                    <div className="form-group">
+                        <label htmlFor="voiceReadingLevel">Reading Level</label>
+                        <select id="voiceReadingLevel" value={voice.readingLevel} onChange={e => setVoice({ readingLevel: e.target.value as ReadingLevel })}>
+                            {(Object.keys(READING_LEVELS) as ReadingLevel[]).map(level => <option key={level} value={level}>{READING_LEVELS[level].label}</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group"><label htmlFor="voiceTargetLength">Target Length (words)</label><input type="number" id="voiceTargetLength" min={300} step={100} value={voice.targetLength} onChange={e => setVoice({ targetLength: Math.max(0, parseInt(e.target.value, 10) || 0) })} /></div>
+                    <div className="form-group"><label htmlFor="voiceBanned">Banned Phrases</label><textarea id="voiceBanned" className="meta-description-input" value={voice.bannedPhrases} onChange={e => setVoice({ bannedPhrases: e.target.value })} placeholder={'game-changer\nin today\'s fast-paced world'} /><p className="help-text">One per line. The voice profile is saved for this site only.</p></div>
+                </fieldset>
+
+                <fieldset className="config-fieldset">
+                    <legend>Prompt Templates</legend>
+                    <div className="prompt-kind-tabs">
+                        {(Object.keys(PROMPT_KIND_LABELS) as PromptKind[]).map(k => (
+                            <button key={k} type="button" className={`tab-btn ${kind === k ? 'active' : ''}`} onClick={() => setKind(k)}>{PROMPT_KIND_LABELS[k]}</button>
+                        ))}
+                    </div>
+                    <div className="form-group">
+                        <label htmlFor="promptTemplate">Template used for this site</label>
+                        <select id="promptTemplate" value={selected.id} onChange={e => selectTemplate(e.target.value)}>
+                            {templatesOfKind.map(t => <option key={t.id} value={t.id}>{t.name} (v{t.version}{t.builtIn ? ', built-in' : ''})</option>)}
+                        </select>
+                    </div>
+                    <div className="form-group"><label htmlFor="promptTemplateName">Name</label><input type="text" id="promptTemplateName" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} disabled={selected.builtIn} /></div>
+                    <div className="form-group">
+                        <label htmlFor="promptTemplateBody">Prompt</label>
+                        <textarea id="promptTemplateBody" className="prompt-template-body" value={draft.body} onChange={e => setDraft({ ...draft, body: e.target.value })} readOnly={selected.builtIn} />
+                        {unknownVariables.length > 0 && <p className="help-text key-status-message invalid">Unknown variable{unknownVariables.length !== 1 ? 's' : ''}: {unknownVariables.map(name => `{{${name}}}`).join(', ')}. {unknownVariables.length !== 1 ? 'They are' : 'It is'} sent to the model as written.</p>}
+                        <p className="help-text">{selected.builtIn ? 'Built-in templates are read-only. Duplicate one to customize it. ' : ''}The JSON output format is added after the prompt automatically.</p>
+                    </div>
+                    {selected.history?.length > 0 && (
+                        <div className="form-group">
+                            <label htmlFor="promptTemplateHistory">Earlier Versions</label>
+                            <select id="promptTemplateHistory" value="" onChange={e => handleLoadVersion(Number(e.target.value))}>
+                                <option value="">Load an earlier version into the editor...</option>
+                                {[...selected.history].reverse().map(entry => <option key={entry.version} value={entry.version}>v{entry.version}: {entry.name} ({new Date(entry.updatedAt).toLocaleDateString()})</option>)}
+                            </select>
+                        </div>
+                    )}
+                    <dl className="prompt-variables">
+                        {Object.entries(PROMPT_VARIABLES[kind]).map(([name, description]) => (
+                            <React.Fragment key={name}><dt><code>{`{{${name}}}`}</code></dt><dd>{description}</dd></React.Fragment>
+                        ))}
+                    </dl>
+                    <div className="button-group">
+                        <button type="button" className="btn btn-secondary btn-small" onClick={handleDuplicate}>Duplicate</button>
+                        {!selected.builtIn && <button type="button" className="btn btn-secondary btn-small" onClick={handleDelete}>Delete</button>}
+                        {!selected.builtIn && <button type="button" className="btn btn-small" onClick={handleSave} disabled={!isDirty || !draft.name.trim()}>Save as v{selected.version + 1}</button>}
+                    </div>
+                </fieldset>
+            </div>
+        </details>
+    );
+};
+
+const ConfigStep = ({ state, dispatch, onFetchSitemap, onValidateKey, onUnlockVault, onForgetSite }) => {
+    const { wpUrl, wpUser, wpPassword, sitemapUrl, urlLimit, loading, aiProvider, apiKeys, aiModels, imageModels, localBaseUrl, keyStatus, keyStatusMessage, availableModels, credentialStorage, vaultStatus, credentialsMigrated, linkCheckProxy, affiliatePatterns, sitemapFilters } = state;
+    const providerInfo = AI_PROVIDERS[aiProvider];
+    const isSitemapConfigValid = useMemo(() => sitemapUrl && sitemapUrl.trim() !== '', [sitemapUrl]);
+    const isApiKeyValid = useMemo(() => {
+        if (keyStatus[aiProvider] === 'invalid' || keyStatus[aiProvider] === 'quota') return false;
+        if (!AI_PROVIDERS[aiProvider].requiresKey) return !!localBaseUrl?.trim();
+        return !!apiKeys[aiProvider]?.trim();
+    }, [apiKeys, aiProvider, keyStatus, localBaseUrl]);
+    const [saveConfig, setSaveConfig] = useState(true);
+    const [vaultPassphrase, setVaultPassphrase] = useState('');
+    const [unlockPassphrase, setUnlockPassphrase] = useState('');
+    const [unlockState, setUnlockState] = useState<{ busy: boolean; error: string | null }>({ busy: false, error: null });
+    const hasSavedConfig = !!localStorage.getItem(CONFIG_STORAGE_KEY);
+    const needsVaultPassphrase = saveConfig && credentialStorage === 'vault' && vaultStatus !== 'unlocked';
+    const isVaultPassphraseValid = !needsVaultPassphrase || vaultPassphrase.length >= 8;
+
+    const handleUnlock = async (e) => {
+        e.preventDefault();
+        setUnlockState({ busy: true, error: null });
+        try {
+            await onUnlockVault(unlockPassphrase);
+            setUnlockPassphrase('');
+            setUnlockState({ busy: false, error: null });
+        } catch (error) {
+            setUnlockState({ busy: false, error: error.message });
+        }
+    };
+
+    const debouncedValidateKey = useCallback(debounce(onValidateKey, 500), [onValidateKey]);
+
+    const handleApiKeyChange = (e) => {
+        const { value } = e.target;
+        dispatch({ type: 'SET_API_KEY', payload: { provider: aiProvider, key: value } });
+        if (value.trim() !== '' || !providerInfo.requiresKey) debouncedValidateKey(aiProvider, value, localBaseUrl);
+    };
+
+    const handleBaseUrlChange = (e) => {
+        const { value } = e.target;
+        dispatch({ type: 'SET_FIELD', payload: { field: 'localBaseUrl', value } });
+        if (value.trim() !== '') debouncedValidateKey('local', apiKeys.local, value);
+    };
+
+    const handleProviderChange = (e) => {
+        const newProvider = e.target.value;
+        dispatch({ type: 'SET_AI_PROVIDER', payload: newProvider });
+        const key = apiKeys[newProvider];
+        const canValidate = AI_PROVIDERS[newProvider].requiresKey ? key?.trim() : localBaseUrl?.trim();
+        if (canValidate && keyStatus[newProvider] === 'unknown') onValidateKey(newProvider, key, localBaseUrl);
+    };
+
+    const discoveredModels = availableModels[aiProvider] || [];
+    const keyMessage = keyStatusMessage[aiProvider];
+
+    return (
+        <div className="step-container">
+            <LandingPageIntro />
+            <div className="config-forms-wrapper">
+                <fieldset className="config-fieldset">
+                    <legend>WordPress Configuration</legend>
+                    {vaultStatus === 'locked' && (
+                        <form className="vault-unlock" onSubmit={handleUnlock}>
+                            <label htmlFor="unlockPassphrase">Your saved credentials are encrypted. Enter your passphrase to unlock them for this session.</label>
+                            <div className="vault-unlock-row">
+                                <input type="password" id="unlockPassphrase" value={unlockPassphrase} onChange={(e) => setUnlockPassphrase(e.target.value)} placeholder="Vault passphrase" autoComplete="current-password" />
+                                <button type="submit" className="btn btn-small" disabled={!unlockPassphrase || unlockState.busy}>{unlockState.busy ? 'Unlocking...' : 'Unlock'}</button>
+                            </div>
+                            {unlockState.error && <p className="help-text key-status-message invalid">{unlockState.error}</p>}
+                        </form>
+                    )}
+                    <div className="form-group"><label htmlFor="wpUrl">WordPress URL</label><input type="url" id="wpUrl" value={wpUrl} onChange={(e) => dispatch({ type: 'SET_FIELD', payload: { field: 'wpUrl', value: e.target.value } })} placeholder="https://example.com" /></div>
+                    <div className="form-group"><label htmlFor="wpUser">WordPress Username</label><input type="text" id="wpUser" value={wpUser} onChange={(e) => dispatch({ type: 'SET_FIELD', payload: { field: 'wpUser', value: e.target.value } })} placeholder="admin" /></div>
+                    <div className="form-group"><label htmlFor="wpPassword">Application Password</label><input type="password" id="wpPassword" value={wpPassword} onChange={(e) => dispatch({ type: 'SET_FIELD', payload: { field: 'wpPassword', value: e.target.value } })} placeholder="••••••••••••••••" /><p className="help-text">This is not your main password. <a href="https://wordpress.org/documentation/article/application-passwords/" target="_blank" rel="noopener noreferrer">Learn how to create one</a>.</p></div>
+                    <div className="checkbox-group"><input type="checkbox" id="saveConfig" checked={saveConfig} onChange={(e) => setSaveConfig(e.target.checked)} /><label htmlFor="saveConfig">Save WordPress Configuration</label></div>
+                    {credentialsMigrated && (
+                        <div className="resume-banner">
+                            <span>Your saved credentials were stored in plain text by an older version. They have been moved out of it and will only last until this tab is closed. Choose a vault passphrase below and continue to keep them encrypted.</span>
+                        </div>
+                    )}
+                    {saveConfig && (
+                        <div className="form-group">
+                            <label htmlFor="credentialStorage">Credential Storage</label>
+                            <select id="credentialStorage" value={credentialStorage} onChange={(e) => dispatch({ type: 'SET_FIELD', payload: { field: 'credentialStorage', value: e.target.value } })}>
+                                <option value="vault">Encrypted vault (passphrase)</option>
+                                <option value="session">This browser session only</option>
+                                <option value="none">Don't store credentials</option>
+                            </select>
+                            <p className="help-text">Applies to the application password and AI API keys. Other settings are saved without them.</p>
+                        </div>
+                    )}
+                    {needsVaultPassphrase && (
+                        <div className="form-group">
+                            <label htmlFor="vaultPassphrase">Vault Passphrase</label>
+                            <input type="password" id="vaultPassphrase" value={vaultPassphrase} onChange={(e) => setVaultPassphrase(e.target.value)} placeholder="At least 8 characters" autoComplete="new-password" />
+                            <p className="help-text">Encrypts your credentials in this browser (AES-GCM). You'll enter it each time you open the app. It is never stored and cannot be recovered.</p>
+                        </div>
+                    )}
+                    {hasSavedConfig && <button type="button" className="btn btn-secondary btn-small" onClick={onForgetSite}>Forget This Site</button>}
+                    <div style={{ marginTop: '1rem', padding: '1rem', borderRadius: '8px', backgroundColor: 'var(--warning-bg-color)', border: '1px solid var(--warning-color)', color: 'var(--warning-text-color)' }}><p style={{margin: 0, fontSize: '0.875rem', lineHeight: '1.5'}}><strong>Security Note:</strong> This app connects directly to your WordPress site. Connection issues (CORS) may require server configuration. Always use a dedicated Application Password with limited permissions.</p></div>
+                </fieldset>
+
+                <fieldset className="config-fieldset">
+                    <legend>Content Source</legend>
+                    <div className="form-group"><label htmlFor="sitemapUrl">Sitemap URL or Domain</label><input type="text" id="sitemapUrl" value={sitemapUrl} onChange={(e) => dispatch({ type: 'SET_FIELD', payload: { field: 'sitemapUrl', value: e.target.value } })} placeholder="https://example.com/sitemap.xml" /><p className="help-text">Sitemap indexes and <code>.xml.gz</code> files are supported. Enter just the domain to find the sitemaps listed in its robots.txt.</p></div>
+                    <details className="sitemap-filters">
+                        <summary>URL filters</summary>
+                        <div className="form-group">
+                            <label>Skip URLs from these sitemaps</label>
+                            <div className="checkbox-row">
+                                {(['category', 'tag', 'author', 'attachment', 'product', 'page'] as SitemapSourceType[]).map(type => (
+                                    <label key={type} className="checkbox-group">
+                                        <input type="checkbox" checked={sitemapFilters.excludedTypes.includes(type)} onChange={(e) => dispatch({ type: 'SET_SITEMAP_FILTERS', payload: { excludedTypes: e.target.checked ? [...sitemapFilters.excludedTypes, type] : sitemapFilters.excludedTypes.filter(t => t !== type) } })} />
+                                        {SITEMAP_SOURCE_LABELS[type]}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="form-group"><label htmlFor="sitemapInclude">Only include URLs matching</label><textarea id="sitemapInclude" className="meta-description-input" value={sitemapFilters.include} onChange={(e) => dispatch({ type: 'SET_SITEMAP_FILTERS', payload: { include: e.target.value } })} placeholder="/blog/" /></div>
+                        <div className="form-group"><label htmlFor="sitemapExclude">Exclude URLs matching</label><textarea id="sitemapExclude" className="meta-description-input" value={sitemapFilters.exclude} onChange={(e) => dispatch({ type: 'SET_SITEMAP_FILTERS', payload: { exclude: e.target.value } })} placeholder={'/tools/\n\\?replytocom='} /><p className="help-text">One pattern per line: a plain piece of the URL or a regular expression.</p></div>
+                    </details>
+                    <div className="form-group"><label htmlFor="linkCheckProxy">Link Check Proxy</label><input type="text" id="linkCheckProxy" value={linkCheckProxy} onChange={(e) => dispatch({ type: 'SET_FIELD', payload: { field: 'linkCheckProxy', value: e.target.value } })} placeholder={LINK_CHECK_PROXY_EXAMPLE} /><p className="help-text">Outbound links in generated articles are checked directly by default, which many sites block (CORS). To check those too, enter a proxy you trust and use <code>{'{url}'}</code> or <code>{'{encodedUrl}'}</code> for the link. Redirects are only detected on direct checks.</p></div>
+                    <div className="form-group"><label htmlFor="affiliatePatterns">Affiliate Link Patterns</label><textarea id="affiliatePatterns" className="meta-description-input" value={affiliatePatterns} onChange={(e) => dispatch({ type: 'SET_FIELD', payload: { field: 'affiliatePatterns', value: e.target.value } })} placeholder={'partner.example.com\n/out/'} /><p className="help-text">One per line, in addition to common affiliate networks. Matching links get <code>rel="sponsored nofollow"</code>.</p></div>
+                </fieldset>
+
+                <fieldset className="config-fieldset">
+                    <legend>AI Configuration</legend>
+                    <div className="form-group"><label htmlFor="aiProvider">AI Provider</label><select id="aiProvider" value={aiProvider} onChange={handleProviderChange}>{Object.entries(AI_PROVIDERS).map(([id, provider]) => <option key={id} value={id}>{provider.label}</option>)}</select></div>
+                    {aiProvider === 'local' && (<div className="form-group"><label htmlFor="localBaseUrl">Server Base URL</label><input type="url" id="localBaseUrl" value={localBaseUrl} onChange={handleBaseUrlChange} placeholder="http://localhost:11434/v1" /><p className="help-text">Any OpenAI-compatible endpoint. Ollama: <code>http://localhost:11434/v1</code>, LM Studio: <code>http://localhost:1234/v1</code>. The server must allow browser (CORS) requests.</p></div>)}
+                    <div className="form-group"><label htmlFor="aiModel">Model</label><input type="text" id="aiModel" list="ai-models-list" value={aiModels[aiProvider] || ''} onChange={(e) => dispatch({ type: 'SET_AI_MODEL', payload: { provider: aiProvider, model: e.target.value } })} placeholder={`e.g., ${providerInfo.defaultModel}`} /><datalist id="ai-models-list">{discoveredModels.map(model => <option key={model} value={model} />)}</datalist><p className="help-text">{discoveredModels.length > 0 ? `${discoveredModels.length} models available for this key.` : 'Models available to your key are listed once it has been verified.'} The model is remembered separately for each provider.</p></div>
+                    {providerInfo.capabilities.imageGeneration && (<div className="form-group"><label htmlFor="imageModel">Image Model</label><input type="text" id="imageModel" value={imageModels[aiProvider] || ''} onChange={(e) => dispatch({ type: 'SET_IMAGE_MODEL', payload: { provider: aiProvider, model: e.target.value } })} placeholder={`e.g., ${providerInfo.defaultImageModel}`} /><p className="help-text">Used for featured images generated on the Media tab.</p></div>)}
+                    <div className="form-group api-key-group"><label htmlFor="apiKey">API Key{!providerInfo.requiresKey && ' (optional)'}</label><input type="password" id="apiKey" value={apiKeys[aiProvider] || ''} onChange={handleApiKeyChange} placeholder={`Enter your ${providerInfo.label} API Key`} /><ApiKeyValidator status={keyStatus[aiProvider]} /></div>
+                    {keyMessage && <p className={`help-text key-status-message ${keyStatus[aiProvider]}`}>{keyMessage}</p>}
+                </fieldset>
+            </div>
+
+            <PromptLibrary state={state} dispatch={dispatch} />
+
+            <button className="btn" onClick={() => onFetchSitemap(sitemapUrl, saveConfig, needsVaultPassphrase ? vaultPassphrase : '')} disabled={loading || !isSitemapConfigValid || !isApiKeyValid || !isVaultPassphraseValid}>{loading ? <div className="spinner" style={{width: '24px', height: '24px', borderWidth: '2px'}}></div> : 'Analyze Site & Continue'}</button>
+        </div>
+    );
+};
+
+const SingleArticleGenerator = ({ onGenerate, isGenerating, targetLength }) => {
+    const [topic, setTopic] = useState('');
+
+    const handleSubmit = (e) => {
+        e.preventDefault();
+        if (topic.trim() && !isGenerating) {
+            onGenerate(topic);
+        }
+    };
+
+    return (
+        <div className="single-article-hub">
+            <h2>Single Article Generator</h2>
+            <p>Enter your target keyword or a full blog post title below. The AI will generate a comprehensive article of about {targetLength} words, following your voice profile, complete with SEO metadata and schema.</p>
+            <form onSubmit={handleSubmit}>
+                <div className="form-group">
+                    <label htmlFor="newTopic">Topic or Keyword</label>
+                    <input
+                        type="text"
+                        id="newTopic"
+                        value={topic}
+                        onChange={(e) => setTopic(e.target.value)}
+                        placeholder="e.g., How to start affiliate marketing in 2025"
+                        disabled={isGenerating}
+                    />
+                </div>
+                <button type="submit" className="btn" disabled={!topic.trim() || isGenerating}>
+                    {isGenerating ? <div className="spinner" style={{width: '24px', height: '24px', borderWidth: '2px'}}></div> : 'Generate Article'}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+
+/** A pillar's cluster plan, as the strategist returns it. */
+interface ClusterPlan {
+    existingAssets: { url: string; suggestion: string }[];
+    newOpportunities: { title: string; description: string }[];
+}
+
+type ClusterNodeStatus = 'planned' | 'generated' | 'published' | 'needs-update';
+
+const CLUSTER_STATUS_LABELS: Record<ClusterNodeStatus, string> = {
+    planned: 'Planned',
+    generated: 'Generated',
+    published: 'Published',
+    'needs-update': 'Needs update',
+};
+
+interface ClusterMapNode {
+    /** The normalized URL, or `new:` and the title for articles that are not published yet. */
+    key: string;
+    kind: 'asset' | 'opportunity';
+    title: string;
+    detail: string;
+    url?: string;
+    status: ClusterNodeStatus;
+    /** The post in the workspace written for this node, if any. */
+    post?: WorkspacePost;
+    linksOut: number;
+    linksIn: number;
+    x: number;
+    y: number;
+}
+
+/** Suggestions that ask for more than adding a link. */
+const REWRITE_SUGGESTION = /rewrit|refresh|updat|expand|improv|outdated|consolidat|merge/i;
+
+/**
+ * The internal link targets in some HTML, as normalized URLs (see `normalizeLinkUrl`).
+ * Relative links are resolved against the site's first host.
+ */
+const internalLinkTargets = (html: string, siteHosts: Set<string>): string[] =>
+    [...new Set(analyzeInternalLinks(html, siteHosts, new Set()).links
+        .map(link => normalizeLinkUrl(link.href.startsWith('/') && siteHosts.size ? `https://${[...siteHosts][0]}${link.href}` : link.href)))];
+
+/**
+ * Lays out a pillar's cluster as a hub-and-spoke graph and works out each node's status and
+ * the internal links between nodes. Links come from the content of posts in the workspace,
+ * or from `scannedLinks` for published pages that were scanned.
+ * @param width The width of the drawing; the height is 70% of it.
+ */
+const buildClusterMap = (
+    plan: ClusterPlan, posts: WorkspacePost[], publishingStatus: Record<string, { success?: boolean }>,
+    sitemapEntries: SitemapEntry[], scannedLinks: Record<string, string[]>, siteHosts: Set<string>, width: number
+): { nodes: ClusterMapNode[]; edges: { from: string; to: string }[] } => {
+    const lastModified = new Map(sitemapEntries.map(entry => [normalizeLinkUrl(entry.url), entry.lastmod]));
+    const isPublished = post => !!post && !!publishingStatus[String(post.id)]?.success;
+    const yearAgo = Date.now() - 365 * 24 * 60 * 60 * 1000;
+
+    const assets = plan.existingAssets.map(asset => {
+        const key = normalizeLinkUrl(asset.url);
+        const post = posts.find(p => p.url && normalizeLinkUrl(p.url) === key && p.content);
+        const lastmod = lastModified.get(key);
+        const stale = lastmod ? new Date(lastmod).getTime() < yearAgo : false;
+        // A rewrite that has not been published yet is 'generated'; the live page needs an update when
+        // the strategist asked for more than a link, or it has not changed in a year.
+        const status: ClusterNodeStatus = post ? (isPublished(post) ? 'published' : 'generated')
+            : REWRITE_SUGGESTION.test(asset.suggestion) || stale ? 'needs-update' : 'published';
+        return { key, kind: 'asset' as const, title: post?.title || slugToTitle(asset.url), detail: asset.suggestion, url: asset.url, status, post };
+    });
+    const opportunities = plan.newOpportunities.map(opportunity => {
+        const post = posts.find(p => p.topic === opportunity.title);
+        const url = isPublished(post) ? post.url : undefined;
+        const status: ClusterNodeStatus = isPublished(post) ? 'published' : post ? 'generated' : 'planned';
+        return { key: url ? normalizeLinkUrl(url) : `new:${opportunity.title}`, kind: 'opportunity' as const, title: post?.title || opportunity.title, detail: opportunity.description, url, status, post };
+    });
+
+    // A published opportunity can be one of the existing assets, and two opportunities can share a
+    // title: each key gets one node, the first one, unless a later one has the post it lacks.
+    const byKey = new Map<string, Omit<ClusterMapNode, 'linksOut' | 'linksIn' | 'x' | 'y'>>();
+    [...assets, ...opportunities].forEach(node => {
+        const seen = byKey.get(node.key);
+        if (!seen || (!seen.post && node.post)) byKey.set(node.key, node);
+    });
+    const all = [...byKey.values()];
+    const keys = new Set(byKey.keys());
+    const edges = all.flatMap(node => {
+        const targets = node.post?.content ? internalLinkTargets(node.post.content, siteHosts) : scannedLinks[node.key] || [];
+        return targets.filter(target => target !== node.key && keys.has(target)).map(target => ({ from: node.key, to: target }));
+    });
+
+    // An ellipse leaves room for labels on either side; two staggered rings once there are too many nodes for one.
+    const height = width * 0.7;
+    const radiusX = width / 2 - 190;
+    const radiusY = height / 2 - 30;
+    const staggered = all.length > 14;
+    const nodes = all.map((node, index) => {
+        const angle = (index / Math.max(1, all.length)) * 2 * Math.PI - Math.PI / 2;
+        const scale = staggered && index % 2 ? 0.7 : 1;
+        return {
+            ...node,
+            linksOut: edges.filter(edge => edge.from === node.key).length,
+            linksIn: edges.filter(edge => edge.to === node.key).length,
+            x: width / 2 + Math.cos(angle) * radiusX * scale,
+            y: height / 2 + Math.sin(angle) * radiusY * scale,
+        };
+    });
+    return { nodes, edges };
+};
+
+/**
+ * The selected pillar's cluster as a graph: the pillar in the middle, existing assets and
+ * new opportunities around it, and arrows for the internal links between them. Clicking a
+ * node writes or rewrites it, or opens it for review once it has been generated.
+ */
+const TopicalMap = ({ state, dispatch, onGenerate, onScanLinks }) => {
+    const { clusterPlan, selectedPillar, posts, publishingStatus, sitemapEntries, clusterLinks, wpUrl, sitemapUrls, loading } = state;
+    const width = 800;
+    const height = width * 0.7;
+    const [scan, setScan] = useState<{ busy: boolean; message: string | null }>({ busy: false, message: null });
+    const siteHosts = useMemo(() => buildSiteLinkIndex(wpUrl, sitemapUrls, posts).hosts, [wpUrl, sitemapUrls, posts]);
+    const { nodes, edges } = useMemo(
+        () => buildClusterMap(clusterPlan, posts, publishingStatus, sitemapEntries, clusterLinks, siteHosts, width),
+        [clusterPlan, posts, publishingStatus, sitemapEntries, clusterLinks, siteHosts]
+    );
+    const byKey = new Map<string, ClusterMapNode>(nodes.map(node => [node.key, node]));
+    const unscanned = nodes.filter(node => node.url && !node.post?.content && !clusterLinks[node.key]);
+    const orphans = nodes.filter(node => node.status !== 'planned' && node.linksIn === 0);
+
+    const handleNodeClick = (node: ClusterMapNode) => {
+        if (loading) return;
+        if (node.status === 'generated') dispatch({ type: 'OPEN_REVIEW_MODAL', payload: posts.indexOf(node.post) });
+        else if (node.kind === 'opportunity' && !node.post) onGenerate(node.title, selectedPillar.title);
+        else if (node.post) onGenerate(node.post, selectedPillar.title);
+        else onGenerate({ url: node.url, title: node.title });
+    };
+
+    const handleScan = async () => {
+        setScan({ busy: true, message: null });
+        try {
+            const failed = await onScanLinks(unscanned.map(node => node.url));
+            setScan({ busy: false, message: failed.length ? `Could not read ${failed.length} page${failed.length !== 1 ? 's' : ''}: ${failed.map(url => slugToTitle(url)).join(', ')}.` : null });
+        } catch (error) {
+            setScan({ busy: false, message: (error instanceof Error) ? error.message : String(error) });
+        }
+    };
+
+    const shorten = (text: string, max = 30) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+    const statusCounts = nodes.reduce((counts, node) => ({ ...counts, [node.status]: (counts[node.status] || 0) + 1 }), {} as Record<string, number>);
+
+    return (
+        <div className="topical-map">
+            <svg viewBox={`0 0 ${width} ${height}`} role="img" aria-label={`Topical map for ${selectedPillar.title}`}>
+                <defs>
+                    <marker id="topical-map-arrow" viewBox="0 0 10 10" refX="22" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                        <path d="M 0 0 L 10 5 L 0 10 z" className="topical-map-arrow" />
+                    </marker>
+                </defs>
+                {nodes.map(node => <line key={`spoke-${node.key}`} className="topical-map-spoke" x1={width / 2} y1={height / 2} x2={node.x} y2={node.y} />)}
+                {edges.map(edge => {
+                    const from = byKey.get(edge.from);
+                    const to = byKey.get(edge.to);
+                    return <line key={`${edge.from}->${edge.to}`} className="topical-map-link" x1={from.x} y1={from.y} x2={to.x} y2={to.y} markerEnd="url(#topical-map-arrow)" />;
+                })}
+                <g className="topical-map-hub">
+                    <circle cx={width / 2} cy={height / 2} r={52} />
+                    <text x={width / 2} y={height / 2} textAnchor="middle" dominantBaseline="middle">{shorten(selectedPillar.title, 14)}</text>
+                    <title>{selectedPillar.title}</title>
+                </g>
+                {nodes.map(node => (
+                    <g
+                        key={node.key}
+                        className={`topical-map-node ${node.status} ${node.status !== 'planned' && node.linksIn === 0 ? 'orphan' : ''}`}
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => handleNodeClick(node)}
+                        onKeyDown={e => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); handleNodeClick(node); } }}
+                    >
+                        <circle cx={node.x} cy={node.y} r={node.kind === 'asset' ? 13 : 10} />
+                        <text x={node.x + (node.x >= width / 2 ? 18 : -18)} y={node.y} textAnchor={node.x >= width / 2 ? 'start' : 'end'} dominantBaseline="middle">{shorten(node.title)}</text>
+                        <title>{`${node.title}\n${CLUSTER_STATUS_LABELS[node.status]} · ${node.linksIn} link${node.linksIn !== 1 ? 's' : ''} in, ${node.linksOut} out\n${node.detail}\n\n${node.status === 'generated' ? 'Click to review' : node.kind === 'opportunity' && !node.post ? 'Click to write' : 'Click to rewrite'}`}</title>
+                    </g>
+                ))}
+            </svg>
+            <div className="topical-map-legend">
+                {(Object.keys(CLUSTER_STATUS_LABELS) as ClusterNodeStatus[]).map(status => (
+                    <span key={status} className={`topical-map-legend-item ${status}`}>{CLUSTER_STATUS_LABELS[status]} ({statusCounts[status] || 0})</span>
+                ))}
+                <span className="topical-map-legend-item orphan">No links from the cluster ({orphans.length})</span>
+            </div>
+            <p className="help-text">
+                {edges.length} internal link{edges.length !== 1 ? 's' : ''} between cluster pages.
+                {unscanned.length > 0 && ` ${unscanned.length} published page${unscanned.length !== 1 ? 's have' : ' has'} not been scanned for links yet.`}
+            </p>
+            {unscanned.length > 0 && (
+                <button type="button" className="btn btn-secondary btn-small" onClick={handleScan} disabled={scan.busy}>{scan.busy ? 'Scanning...' : 'Scan Published Pages for Links'}</button>
+            )}
+            {scan.message && <div className="result error">{scan.message}</div>}
+        </div>
+    );
+};
+
+const ContentClusterStrategist = ({ onGenerate, onGeneratePillars, onGenerateClusters, onFetchScheduledPosts, onScanLinks, dispatch, state }) => {
+    const { isGeneratingPillars, pillarTopics, selectedPillar, isGeneratingClusters, clusterPlan, clusterPlans, loading } = state;
+    const duplicates = useMemo(() => {
+        const documents = collectOverlapDocuments(state);
+        return new Map(clusterPlan.newOpportunities.map(opportunity => [opportunity.title, findDuplicateTopic(opportunity.title, documents)]));
+    }, [clusterPlan, state.sitemapUrls, state.sitemapEntries, state.posts, state.modeWorkspaces]);
+
+    if (pillarTopics.length === 0) {
+        return (
+            <div className="strategist-hub">
+                <h2>AI Content Strategist</h2>
+                <p>Let our AI analyze your entire sitemap to identify core "Pillar Topics." This forms the foundation of a powerful, interconnected content strategy that builds topical authority and dominates search rankings.</p>
+                <button className="btn" onClick={onGeneratePillars} disabled={isGeneratingPillars}>
+                    {isGeneratingPillars ? <div className="spinner" style={{width: '24px', height: '24px', borderWidth: '2px'}}></div> : 'Analyze Website & Identify Pillar Topics'}
+                </button>
+            </div>
+        );
+    }
+
+    const hasClusterPlan = clusterPlan.existingAssets.length > 0 || clusterPlan.newOpportunities.length > 0;
+
+    return (
+        <div className="strategist-hub" style={{textAlign: 'left'}}>
+            <h2 style={{textAlign: 'center'}}>Step 1: Select Your Pillar Topic</h2>
+            <p style={{textAlign: 'center'}}>These are the core content pillars AI has identified for your site. Choose one to build out a "content cluster" of supporting articles.</p>
+            <div className="pillar-grid">
+                {pillarTopics.map((pillar, index) => (
+                    <div 
+                        className={`pillar-card ${selectedPillar?.title === pillar.title ? 'selected' : ''}`} 
+                        key={index} 
+                        onClick={() => dispatch({ type: 'SET_SELECTED_PILLAR', payload: pillar })}
+                    >
+                        <h4>{pillar.title}</h4>
+                        <p>{pillar.description}</p>
+                        {clusterPlans[pillar.title] && <span className="cluster-item-badge new">Cluster planned</span>}
+                    </div>
+                ))}
+            </div>
+
+            {selectedPillar && (
+                <div className="cluster-section">
+                    <h2 style={{textAlign: 'center'}}>Step 2: Generate Your Topical Cluster Plan</h2>
+                    <p style={{textAlign: 'center'}}>Analyze existing content and identify gaps to create a comprehensive cluster around <strong>{selectedPillar.title}</strong>. This prevents keyword cannibalization and ensures a cohesive strategy.</p>
+                    <div style={{display: 'flex', justifyContent: 'center'}}>
+                        <button className="btn" onClick={() => onGenerateClusters(selectedPillar.title)} disabled={isGeneratingClusters}>
+                            {isGeneratingClusters ? <div className="spinner" style={{width: '24px', height: '24px', borderWidth: '2px'}}></div> : 'Generate Cluster Plan'}
+                        </button>
+                    </div>
+                    
+                    {hasClusterPlan && (
+                        <div className="cluster-plan">
+                             <h3 style={{textAlign: 'center', marginTop: '2.5rem'}}>Step 3: Execute Your Content Plan</h3>
+                             <TopicalMap state={state} dispatch={dispatch} onGenerate={onGenerate} onScanLinks={onScanLinks} />
+                             
+                             {clusterPlan.existingAssets.length > 0 && (
+                                <div className="plan-section">
+                                    <h4 className="plan-section-title">Optimize Existing Content</h4>
+                                    {clusterPlan.existingAssets.map((asset, index) => (
+                                        <div className="cluster-item" key={`existing-${index}`}>
+                                             <div className="cluster-item-content">
+                                                <h5><span className="cluster-item-badge existing">Existing Asset</span>{slugToTitle(asset.url)}</h5>
+                                                <p><strong>Suggestion:</strong> {asset.suggestion}</p>
+                                            </div>
+                                            <button className="btn btn-secondary btn-small" onClick={() => onGenerate({ url: asset.url, title: slugToTitle(asset.url) })} disabled={loading}>
+                                                {loading ? 'Busy...' : 'Rewrite Article'}
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                             )}
+
+                            {clusterPlan.newOpportunities.length > 0 && (
+                                <div className="plan-section">
+                                    <h4 className="plan-section-title">Fill Content Gaps</h4>
+                                    {clusterPlan.newOpportunities.map((opportunity, index) => {
+                                        const duplicate = duplicates.get(opportunity.title);
+                                        return (
+                                            <div className="cluster-item" key={`new-${index}`}>
+                                                <div className="cluster-item-content">
+                                                    <h5><span className="cluster-item-badge new">New Opportunity</span>{duplicate && <span className="cluster-item-badge duplicate">Duplicate</span>}{opportunity.title}</h5>
+                                                    <p>{opportunity.description}</p>
+                                                    {duplicate && <p className="cluster-item-warning">{Math.round(duplicate.score * 100)}% like <a href={duplicate.doc.url} target="_blank" rel="noopener noreferrer">{duplicate.doc.title}</a>. Rewrite that page instead; a new article would compete with it.</p>}
+                                                </div>
+                                                {duplicate
+                                                    ? (
+                                                        <button className="btn btn-secondary btn-small" onClick={() => onGenerate({ url: duplicate.doc.url, title: duplicate.doc.title })} disabled={loading}>
+                                                            {loading ? 'Busy...' : 'Rewrite Existing'}
+                                                        </button>
+                                                    )
+                                                    : (
+                                                        <button className="btn btn-secondary btn-small" onClick={() => onGenerate(opportunity.title, selectedPillar.title)} disabled={loading}>
+                                                            {loading ? 'Busy...' : 'Write Article'}
+                                                        </button>
+                                                    )}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            )}
+
+                            {clusterPlan.newOpportunities.length > 0 && (
+                                <ContentCalendar state={state} dispatch={dispatch} onGenerate={onGenerate} onFetchScheduledPosts={onFetchScheduledPosts} />
+                            )}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+
+const ContentCalendar = ({ state, dispatch, onGenerate, onFetchScheduledPosts }) => {
+    const { clusterPlan, selectedPillar, publishingCadence, scheduledPosts, isFetchingScheduledPosts, scheduledPostsError, loading } = state;
+    const { postsPerWeek, startDate, time } = publishingCadence;
+
+    useEffect(() => {
+        onFetchScheduledPosts();
+    }, []);
+
+    const plannedEntries = useMemo(
+        () => buildPublishingSchedule(clusterPlan.newOpportunities, postsPerWeek, new Date(`${startDate}T00:00`), time, new Set(scheduledPosts.map(post => toDayKey(new Date(post.date))))),
+        [clusterPlan.newOpportunities, postsPerWeek, startDate, time, scheduledPosts]
+    );
+
+    const entriesByDay = useMemo(() => {
+        const map = new Map<string, { type: 'planned' | 'scheduled'; title: string; date: Date; link?: string }[]>();
+        const add = (entry) => map.set(toDayKey(entry.date), [...(map.get(toDayKey(entry.date)) || []), entry]);
+        plannedEntries.forEach(({ item, date }) => add({ type: 'planned', title: item.title, date }));
+        scheduledPosts.forEach(post => add({ type: 'scheduled', title: post.title, date: new Date(post.date), link: post.link }));
+        return map;
+    }, [plannedEntries, scheduledPosts]);
+
+    const weeks = useMemo(() => {
+        const dates = [...plannedEntries.map(e => e.date), ...scheduledPosts.map(p => new Date(p.date))];
+        const first = new Date(Math.min(new Date(`${startDate}T00:00`).getTime(), ...dates.map(d => d.getTime())));
+        first.setHours(0, 0, 0, 0);
+        first.setDate(first.getDate() - first.getDay());
+        const last = Math.max(first.getTime(), ...dates.map(d => d.getTime()));
+        const result: Date[][] = [];
+        const cursor = new Date(first);
+        // Capped at half a year so a far-future scheduled post cannot render an endless grid.
+        while (cursor.getTime() <= last && result.length < 26) {
+            const week: Date[] = [];
+            for (let i = 0; i < 7; i++) {
+                week.push(new Date(cursor));
+                cursor.setDate(cursor.getDate() + 1);
+            }
+            result.push(week);
+        }
+        return result;
+    }, [plannedEntries, scheduledPosts, startDate]);
+
+    const updateCadence = (field, value) => dispatch({ type: 'SET_PUBLISHING_CADENCE', payload: { [field]: value } });
+    const todayKey = toDayKey(new Date());
+
+    return (
+        <div className="plan-section content-calendar">
+            <h4 className="plan-section-title">Content Calendar</h4>
+            <div className="calendar-controls">
+                <div className="form-group"><label htmlFor="postsPerWeek">Posts per Week</label><input type="number" id="postsPerWeek" min={1} max={7} value={postsPerWeek} onChange={e => updateCadence('postsPerWeek', Number(e.target.value))} /></div>
+                <div className="form-group"><label htmlFor="calendarStart">Start Date</label><input type="date" id="calendarStart" value={startDate} onChange={e => e.target.value && updateCadence('startDate', e.target.value)} /></div>
+                <div className="form-group"><label htmlFor="calendarTime">Publish Time</label><input type="time" id="calendarTime" value={time} onChange={e => e.target.value && updateCadence('time', e.target.value)} /></div>
+                <button className="btn btn-secondary btn-small" onClick={onFetchScheduledPosts} disabled={isFetchingScheduledPosts}>
+                    {isFetchingScheduledPosts ? 'Loading...' : 'Refresh Scheduled Posts'}
+                </button>
+            </div>
+            {scheduledPostsError && <p className="help-text calendar-error">{scheduledPostsError}</p>}
+            <div className="calendar-legend">
+                <span className="calendar-chip planned">Planned</span>
+                <span className="calendar-chip scheduled">Already scheduled in WordPress</span>
+            </div>
+            <div className="calendar-grid">
+                {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(day => <div key={day} className="calendar-weekday">{day}</div>)}
+                {weeks.flat().map(day => {
+                    const key = toDayKey(day);
+                    const entries = entriesByDay.get(key) || [];
+                    const hasConflict = entries.some(e => e.type === 'planned') && entries.some(e => e.type === 'scheduled');
+                    return (
+                        <div key={key} className={`calendar-day ${key < todayKey ? 'past' : ''} ${hasConflict ? 'conflict' : ''}`}>
+                            <span className="calendar-date">{day.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</span>
+                            {entries.map((entry, index) => entry.type === 'planned' ? (
+                                <button key={index} className="calendar-chip planned" title={`Write "${entry.title}" and schedule it for ${entry.date.toLocaleString()}`} onClick={() => onGenerate(entry.title, selectedPillar?.title, entry.date)} disabled={loading}>
+                                    {entry.title}
+                                </button>
+                            ) : (
+                                <a key={index} className="calendar-chip scheduled" href={entry.link} target="_blank" rel="noopener noreferrer" title={entry.date.toLocaleString()}>{entry.title}</a>
+                            ))}
+                        </div>
+                    );
+                })}
+            </div>
+            <p className="help-text">Click a planned article to write it; it will be pre-set to publish on its calendar date. Days highlighted in orange already have a scheduled post.</p>
+        </div>
+    );
+};
+
+
+const ExistingContentTable = ({ state, dispatch, onGenerateContent, onGenerateAll, onFetchExistingPosts, onRollback, onPauseBulk, onResumeBulk, onCancelBulk, onBulkPublish }) => {
+    const { posts, loading, generationStatus, selectedPostIds, searchTerm, sortConfig, bulkGenerationProgress, snapshots, wpUrl, pendingBulkIds, jobLog, aiProvider, queueSettings, publishingStatus, bulkPublishProgress, bulkPublishSummary, publishingCadence, usageLog, modelPrices, bulkRunSummary } = state;
+    const [bulkPublishMode, setBulkPublishMode] = useState<PublishStatus>('publish');
+    const [filters, setFilters] = useState({ type: '', category: '', tag: '', author: '' });
+    const queue = queueSettings[aiProvider] || AI_PROVIDERS[aiProvider].queueDefaults;
+    const inventory: SiteInventory | null = state.siteInventory?.siteUrl === normalizeSiteUrl(wpUrl) ? state.siteInventory : null;
+    const usageByPost = useMemo(() => {
+        const byPost = new Map<string, UsageRecord[]>();
+        (usageLog as UsageRecord[]).filter(record => record.postId).forEach(record => {
+            if (!byPost.has(record.postId)) byPost.set(record.postId, []);
+            byPost.get(record.postId).push(record);
+        });
+        return new Map([...byPost.entries()].map(([postId, records]) => [postId, sumUsage(records, modelPrices)]));
+    }, [usageLog, modelPrices]);
+    const runUsage = useMemo(
+        () => bulkGenerationProgress.runId ? sumUsage((usageLog as UsageRecord[]).filter(record => record.runId === bulkGenerationProgress.runId), modelPrices) : null,
+        [usageLog, modelPrices, bulkGenerationProgress.runId]
+    );
+    const termNames = useMemo(() => {
+        const byId = (terms: WpTerm[] = []) => new Map(terms.map(term => [term.id, term.name]));
+        return { categories: byId(inventory?.categories), tags: byId(inventory?.tags), authors: byId(inventory?.authors) };
+    }, [inventory]);
+    // Only offer filter values that actually occur in the fetched posts.
+    const filterOptions = useMemo(() => {
+        const used = (ids: number[], names: Map<number, string>) => [...new Set(ids)].filter(id => names.has(id)).map(id => ({ id, name: names.get(id) })).sort((a, b) => a.name.localeCompare(b.name));
+        return {
+            types: (inventory?.postTypes || []).filter(type => posts.some(p => p.type === type.slug)),
+            categories: used(posts.flatMap(p => p.categories || []), termNames.categories),
+            tags: used(posts.flatMap(p => p.tags || []), termNames.tags),
+            authors: used(posts.map(p => p.author).filter(Boolean), termNames.authors),
+        };
+    }, [posts, inventory, termNames]);
+    const hasActiveFilters = Object.values(filters).some(Boolean);
+    const now = useMemo(() => new Date().getTime(), []);
+    
+    const postsWithStale = useMemo(() => posts.map(p => ({
+        ...p,
+        isStale: p.modified ? (now - new Date(p.modified).getTime()) > 365 * 24 * 60 * 60 * 1000 : false
+    })), [posts, now]);
+
+    const filteredPosts = useMemo(() => {
+        const matchesFilters = (post) =>
+            (!filters.type || post.type === filters.type) &&
+            (!filters.category || (post.categories || []).includes(Number(filters.category))) &&
+            (!filters.tag || (post.tags || []).includes(Number(filters.tag))) &&
+            (!filters.author || post.author === Number(filters.author));
+        return postsWithStale.filter(post =>
+            matchesFilters(post) && (!searchTerm || post.title.toLowerCase().includes(searchTerm.toLowerCase()))
+        );
+    }, [postsWithStale, searchTerm, filters]);
+
+    const sortedPosts = useMemo(() => {
+        const sorted = [...filteredPosts];
+        if (sortConfig.key) {
+            sorted.sort((a, b) => {
+                const aVal = a[sortConfig.key];
+                const bVal = b[sortConfig.key];
+                
+                if (aVal == null) return 1;
+                if (bVal == null) return -1;
+
+                if (aVal < bVal) return sortConfig.direction === 'asc' ? -1 : 1;
+                if (aVal > bVal) return sortConfig.direction === 'asc' ? 1 : -1;
+                return 0;
+            });
+        }
+        return sorted;
+    }, [filteredPosts, sortConfig]);
+    
+    const handleSort = (key) => {
+        const direction = sortConfig.key === key && sortConfig.direction === 'asc' ? 'desc' : 'asc';
+        dispatch({ type: 'SET_SORT_CONFIG', payload: { key, direction } });
+    };
+    
+    const handleSelectAll = () => {
+        const allVisibleIds = sortedPosts.map(p => p.id);
+        dispatch({ type: 'SELECT_ALL_VISIBLE', payload: allVisibleIds });
+    };
+    
+    const handleSelectStale = () => {
+        const staleIds = sortedPosts.filter(p => p.isStale).map(p => p.id);
+        dispatch({ type: 'SELECT_STALE', payload: staleIds });
+    };
+
+    const allVisibleSelected = sortedPosts.length > 0 && sortedPosts.every(p => selectedPostIds.has(p.id));
+    const staleCount = useMemo(() => postsWithStale.filter(p => p.isStale).length, [postsWithStale]);
+    
+    const generatableCount = useMemo(() => {
+        return [...selectedPostIds].filter(id => {
+            const status = generationStatus[String(id)];
+            return status !== 'done' && status !== 'generating';
+        }).length;
+    }, [selectedPostIds, generationStatus]);
+
+    const isGenerateAllDisabled = bulkGenerationProgress.visible || generatableCount === 0;
+
+    const publishableCount = useMemo(() => [...selectedPostIds].filter(id => generationStatus[String(id)] === 'done').length, [selectedPostIds, generationStatus]);
+    const isBulkBusy = bulkGenerationProgress.visible || bulkPublishProgress.visible;
+
+    const failedIds = useMemo(() => posts.filter(p => generationStatus[String(p.id)] === 'error').map(p => p.id), [posts, generationStatus]);
+
+    const handleQueueSettingChange = (key: 'concurrency' | 'requestsPerMinute', value: string) => {
+        const parsed = parseInt(value, 10);
+        if (!Number.isFinite(parsed) || parsed < 1) return;
+        dispatch({ type: 'SET_QUEUE_SETTINGS', payload: { provider: aiProvider, settings: { [key]: parsed } } });
+    };
+
+    const statusLabels = { queued: 'Queued', generating: 'Generating...', done: 'Generated', error: 'Error', idle: 'Ready to Update' };
+
+    return (
+         <div className="step-container full-width">
+            {posts.length === 0 && !loading ? (
+                <div className="fetch-posts-prompt">
+                    <p>Ready to audit and supercharge your existing content?</p>
+                    <button className="btn" onClick={onFetchExistingPosts} disabled={loading}>
+                        {loading ? <div className="spinner" style={{width: '24px', height: '24px', borderWidth: '2px'}}></div> : 'Fetch All Content for Audit'}
+                    </button>
+                </div>
+            ) : (
+                <>
+                    <div className="table-toolbar">
+                        <input
+                           type="search"
+                           className="table-search-input"
+                           placeholder="Search posts by title..."
+                           value={searchTerm}
+                           onChange={e => dispatch({ type: 'SET_SEARCH_TERM', payload: e.target.value })}
+                        />
+                        <div className="selection-toolbar-actions">
+                            {staleCount > 0 && <button className="btn btn-secondary btn-small" onClick={handleSelectStale}>Select {staleCount} Stale Posts</button>}
+                            {selectedPostIds.size > 0 && (
+                                <>
+                                    <span>{selectedPostIds.size} post{selectedPostIds.size !== 1 ? 's' : ''} selected</span>
+                                    <button className="btn btn-secondary btn-small" onClick={() => dispatch({ type: 'DESELECT_ALL' })}>Deselect All</button>
+                                </>
+                            )}
+                            {failedIds.length > 0 && !bulkGenerationProgress.visible && (
+                                <button className="btn btn-secondary btn-small" onClick={() => onGenerateAll(failedIds)}>
+                                    Retry {failedIds.length} Failed
+                                </button>
+                            )}
+                            <button className="btn btn-small" onClick={() => onGenerateAll()} disabled={isGenerateAllDisabled || bulkPublishProgress.visible}>
+                                {bulkGenerationProgress.visible ? 'Generating...' : `Generate for ${generatableCount} Selected`}
+                            </button>
+                        </div>
+                    </div>
+
+                    {(filterOptions.types.length > 1 || filterOptions.categories.length > 0 || filterOptions.tags.length > 0 || filterOptions.authors.length > 1) && (
+                        <div className="inventory-filters">
+                            {filterOptions.types.length > 1 && (
+                                <select value={filters.type} onChange={e => setFilters({ ...filters, type: e.target.value })} aria-label="Filter by content type">
+                                    <option value="">All content types</option>
+                                    {filterOptions.types.map(type => <option key={type.slug} value={type.slug}>{type.name}</option>)}
+                                </select>
+                            )}
+                            {filterOptions.categories.length > 0 && (
+                                <select value={filters.category} onChange={e => setFilters({ ...filters, category: e.target.value })} aria-label="Filter by category">
+                                    <option value="">All categories</option>
+                                    {filterOptions.categories.map(term => <option key={term.id} value={term.id}>{term.name}</option>)}
+                                </select>
+                            )}
+                            {filterOptions.tags.length > 0 && (
+                                <select value={filters.tag} onChange={e => setFilters({ ...filters, tag: e.target.value })} aria-label="Filter by tag">
+                                    <option value="">All tags</option>
+                                    {filterOptions.tags.map(term => <option key={term.id} value={term.id}>{term.name}</option>)}
+                                </select>
+                            )}
+                            {filterOptions.authors.length > 1 && (
+                                <select value={filters.author} onChange={e => setFilters({ ...filters, author: e.target.value })} aria-label="Filter by author">
+                                    <option value="">All authors</option>
+                                    {filterOptions.authors.map(term => <option key={term.id} value={term.id}>{term.name}</option>)}
+                                </select>
+                            )}
+                            {hasActiveFilters && (
+                                <>
+                                    <span>{filteredPosts.length} of {posts.length} shown</span>
+                                    <button className="btn btn-secondary btn-small" onClick={() => setFilters({ type: '', category: '', tag: '', author: '' })}>Clear Filters</button>
+                                </>
+                            )}
+                        </div>
+                    )}
+
+                    {publishableCount > 0 && (
+                        <div className="bulk-publish-toolbar">
+                            <span>{publishableCount} generated post{publishableCount !== 1 ? 's' : ''} selected</span>
+                            <select value={bulkPublishMode} onChange={e => setBulkPublishMode(e.target.value as PublishStatus)} disabled={isBulkBusy} aria-label="Bulk publishing mode">
+                                {PUBLISH_MODES.map(mode => <option key={mode.value} value={mode.value}>{mode.label}</option>)}
+                            </select>
+                            <button className="btn btn-small" onClick={() => onBulkPublish(bulkPublishMode)} disabled={isBulkBusy || loading}>
+                                {bulkPublishProgress.visible ? 'Sending...' : `${PUBLISH_MODES.find(mode => mode.value === bulkPublishMode).action} (${publishableCount})`}
+                            </button>
+                            {bulkPublishMode === 'future' && (
+                                <small>{publishingCadence.postsPerWeek} per week from {new Date(`${publishingCadence.startDate}T00:00`).toLocaleDateString()} at {publishingCadence.time}, as set in the content calendar.</small>
+                            )}
+                        </div>
+                    )}
+
+                    {bulkPublishProgress.visible && (
+                        <div className="bulk-progress-bar">
+                            <div
+                                className="bulk-progress-bar-fill"
+                                style={{ width: `${(bulkPublishProgress.current / bulkPublishProgress.total) * 100}%` }}
+                            ></div>
+                            <span className="bulk-progress-bar-text">
+                                Sending {bulkPublishProgress.current} of {bulkPublishProgress.total} posts to WordPress...
+                            </span>
+                        </div>
+                    )}
+
+                    {bulkRunSummary && !bulkGenerationProgress.visible && (
+                        <div className="resume-banner">
+                            <span>{bulkRunSummary}</span>
+                            <button className="btn btn-secondary btn-small" onClick={() => dispatch({ type: 'SET_BULK_RUN_SUMMARY', payload: null })}>Dismiss</button>
+                        </div>
+                    )}
+
+                    {bulkPublishSummary && (
+                        <div className="resume-banner">
+                            <span>{bulkPublishSummary}</span>
+                            <button className="btn btn-secondary btn-small" onClick={() => dispatch({ type: 'DISMISS_BULK_PUBLISH_SUMMARY' })}>Dismiss</button>
+                        </div>
+                    )}
+
+                    <details className="queue-settings">
+                        <summary>Queue settings for {AI_PROVIDERS[aiProvider].label}</summary>
+                        <div className="queue-settings-fields">
+                            <label>
+                                Parallel jobs
+                                <input type="number" min={1} max={10} value={queue.concurrency} onChange={e => handleQueueSettingChange('concurrency', e.target.value)} disabled={bulkGenerationProgress.visible} />
+                            </label>
+                            <label>
+                                Requests per minute
+                                <input type="number" min={1} value={queue.requestsPerMinute} onChange={e => handleQueueSettingChange('requestsPerMinute', e.target.value)} disabled={bulkGenerationProgress.visible} />
+                            </label>
+                        </div>
+                    </details>
+                    
+                    {pendingBulkIds.length > 0 && !bulkGenerationProgress.visible && (
+                        <div className="resume-banner">
+                            <span>A bulk run was interrupted with {pendingBulkIds.length} post{pendingBulkIds.length !== 1 ? 's' : ''} still to generate.</span>
+                            <button className="btn btn-small" onClick={() => onGenerateAll(pendingBulkIds)}>Resume</button>
+                            <button className="btn btn-secondary btn-small" onClick={() => dispatch({ type: 'BULK_GENERATE_COMPLETE' })}>Discard</button>
+                        </div>
+                    )}
+
+                    {bulkGenerationProgress.visible && (
+                        <div className="bulk-progress-bar">
+                            <div 
+                                className="bulk-progress-bar-fill" 
+                                style={{ width: `${(bulkGenerationProgress.current / bulkGenerationProgress.total) * 100}%` }}
+                            ></div>
+                            <span className="bulk-progress-bar-text">
+                                Generating {bulkGenerationProgress.current} of {bulkGenerationProgress.total} posts{bulkGenerationProgress.paused ? ' (paused)' : '...'}
+                                {runUsage?.calls > 0 && ` · ${formatCost(runUsage.cost)} so far`}
+                            </span>
+                        </div>
+                    )}
+                    {bulkGenerationProgress.visible && (
+                        <div className="bulk-progress-controls">
+                            {bulkGenerationProgress.paused
+                                ? <button className="btn btn-secondary btn-small" onClick={onResumeBulk}>Resume</button>
+                                : <button className="btn btn-secondary btn-small" onClick={onPauseBulk}>Pause</button>}
+                            <button className="btn btn-secondary btn-small" onClick={onCancelBulk}>Cancel</button>
+                        </div>
+                    )}
+
+                    <div className="table-container">
+                        <table className="content-table mobile-cards">
+                            <thead>
+                                <tr>
+                                    <th className="checkbox-cell"><input type="checkbox" onChange={handleSelectAll} checked={allVisibleSelected} /></th>
+                                    <th className="sortable" onClick={() => handleSort('title')}>
+                                        Title
+                                        {sortConfig.key === 'title' && <span className={`sort-icon ${sortConfig.direction}`}></span>}
+                                    </th>
+                                    <th className="sortable" onClick={() => handleSort('modified')}>
+                                        Last Updated
+                                        {sortConfig.key === 'modified' && <span className={`sort-icon ${sortConfig.direction}`}></span>}
+                                    </th>
+                                    <th>Taxonomy</th>
+                                    <th>Status</th>
+                                    <th className="actions-cell">Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {loading && posts.length === 0 ? (
+                                    <tr><td colSpan={6} style={{textAlign: 'center', padding: '2rem'}}><div className="spinner" style={{width: '32px', height: '32px', margin: '0 auto'}}></div></td></tr>
+                                ) : sortedPosts.map(post => {
+                                    const status = generationStatus[String(post.id)] || 'idle';
+                                    const isSelected = selectedPostIds.has(post.id);
+                                    const attempts: AttemptLogEntry[] = jobLog[String(post.id)] || [];
+                                    const publishResult = publishingStatus[String(post.id)];
+                                    const postUsage = usageByPost.get(String(post.id));
+                                    return (
+                                        <tr key={post.id} className={`${isSelected ? 'selected' : ''} status-row-${status}`}>
+                                            <td className="checkbox-cell">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={isSelected}
+                                                    onChange={() => dispatch({ type: 'TOGGLE_POST_SELECTION', payload: post.id })}
+                                                />
+                                            </td>
+                                            <td data-label="Title"><a href={post.url} target="_blank" rel="noopener noreferrer">{post.title}</a></td>
+                                            <td data-label="Last Updated">
+                                                {post.modified ? new Date(post.modified).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }) : 'N/A'}
+                                                {post.isStale && <span className="stale-badge">Needs Refresh</span>}
+                                            </td>
+                                            <td data-label="Taxonomy" className="taxonomy-cell">
+                                                {post.type && <span className="type-badge">{inventory?.postTypes.find(type => type.slug === post.type)?.name || post.type}</span>}
+                                                {(post.categories || []).map(id => termNames.categories.get(id)).filter(Boolean).join(', ')}
+                                                {post.tags?.length > 0 && <small>{post.tags.map(id => termNames.tags.get(id)).filter(Boolean).map(name => `#${name}`).join(' ')}</small>}
+                                                {post.author && termNames.authors.has(post.author) && <small>by {termNames.authors.get(post.author)}</small>}
+                                            </td>
+                                            <td data-label="Status">
+                                                <div className={`status status-${status}`}>
+                                                    <span className="status-dot"></span>
+                                                    {statusLabels[status]}
+                                                </div>
+                                                {postUsage && (
+                                                    <small className="post-usage" title={`${postUsage.calls} AI call${postUsage.calls !== 1 ? 's' : ''}: ${formatTokens(postUsage.inputTokens)} input and ${formatTokens(postUsage.outputTokens)} output tokens`}>
+                                                        {formatCost(postUsage.cost)}{postUsage.unpriced > 0 && ' +?'}
+                                                    </small>
+                                                )}
+                                                {publishResult && (
+                                                    <div className={`publish-result ${publishResult.success ? 'success' : publishResult.skipped ? 'skipped' : 'error'}`} title={publishResult.message}>
+                                                        {publishResult.success ? 'Sent to WordPress' : publishResult.skipped ? 'Skipped' : 'Publish failed'}
+                                                        {publishResult.link && <>&nbsp;<a href={publishResult.link} target="_blank" rel="noopener noreferrer">View</a></>}
+                                                    </div>
+                                                )}
+                                                {attempts.length > 0 && (
+                                                    <details className="job-log">
+                                                        <summary>{attempts.length} attempt{attempts.length !== 1 ? 's' : ''}</summary>
+                                                        <ol>
+                                                            {attempts.map(entry => (
+                                                                <li key={entry.attempt} className={entry.ok ? 'ok' : 'failed'}>
+                                                                    {new Date(entry.at).toLocaleTimeString()} · {(entry.durationMs / 1000).toFixed(1)}s · {entry.ok ? 'OK' : entry.error}
+                                                                    {entry.retryInMs != null && ` (retrying in ${Math.round(entry.retryInMs / 1000)}s)`}
+                                                                </li>
+                                                            ))}
+                                                        </ol>
+                                                    </details>
+                                                )}
+                                            </td>
+                                            <td data-label="Actions" className="actions-cell">
+                                                {status !== 'done' && (
+                                                    <button className="btn btn-secondary btn-small" onClick={() => onGenerateContent(post)} disabled={status === 'generating' || bulkGenerationProgress.visible}>
+                                                        {status === 'generating' ? <div className="spinner" style={{width: '18px', height: '18px'}}></div> : 'Generate'}
+                                                    </button>
+                                                )}
+                                                {status === 'done' && (
+                                                    <button className="btn btn-small" onClick={() => dispatch({ type: 'OPEN_REVIEW_MODAL', payload: posts.findIndex(p => p.id === post.id) })}>
+                                                        Review
+                                                    </button>
+                                                )}
+                                                {getLatestSnapshot(snapshots, wpUrl, post.id) && (
+                                                    <button className="btn btn-secondary btn-small" onClick={() => onRollback(post.id)} disabled={loading} title={`Restore the version saved on ${new Date(getLatestSnapshot(snapshots, wpUrl, post.id).takenAt).toLocaleString()}`}>
+                                                        Rollback
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+         </div>
+    );
+};
+
+const OVERLAP_ACTION_LABELS: Record<OverlapAction, string> = { merge: 'Merge', differentiate: 'Differentiate', redirect: 'Redirect' };
+
+/**
+ * Groups of pages and planned articles that compete for the same keyword, compared locally
+ * by title, slug and any fetched content. The comparison only runs while the panel is open.
+ */
+const CannibalizationPanel = ({ state, onGenerate }) => {
+    const [open, setOpen] = useState(false);
+    const groups = useMemo(
+        () => (open ? findCannibalization(collectOverlapDocuments(state)) : []),
+        [open, state.sitemapUrls, state.sitemapEntries, state.posts, state.modeWorkspaces, state.clusterPlan]
+    );
+    const shown = groups.slice(0, 50);
+
+    return (
+        <details className="cannibalization-panel" onToggle={e => setOpen((e.currentTarget as HTMLDetailsElement).open)}>
+            <summary>Keyword cannibalization{open ? `: ${groups.length} overlapping group${groups.length !== 1 ? 's' : ''}` : ''}</summary>
+            <p className="help-text">
+                Compares the titles and slugs of every page in the sitemap, the content of fetched posts, and the new articles in the cluster plan.
+                Pages at least {Math.round(CANNIBALIZATION_THRESHOLD * 100)}% alike are grouped. A planned article at least {Math.round(DUPLICATE_TOPIC_THRESHOLD * 100)}% like an existing page is flagged, and writing it asks for confirmation first.
+            </p>
+            {open && !groups.length && <p className="help-text">No overlapping pages found.</p>}
+            {shown.map(group => (
+                <div key={group.members.map(doc => doc.key).join('|')} className="cannibalization-group">
+                    <div className="cannibalization-group-header">
+                        <span className={`cannibalization-action ${group.action}`}>{OVERLAP_ACTION_LABELS[group.action]}</span>
+                        <strong>{Math.round(group.score * 100)}% similar</strong>
+                    </div>
+                    <p>{group.advice}</p>
+                    <ul>
+                        {group.members.map(doc => (
+                            <li key={doc.key}>
+                                {doc.url ? <a href={doc.url} target="_blank" rel="noopener noreferrer">{doc.title}</a> : doc.title}
+                                {doc.kind === 'planned' && <span className="cluster-item-badge new">Planned</span>}
+                                {doc.kind === 'existing' && group.action !== 'redirect' && (
+                                    <button type="button" className="btn btn-secondary btn-small" onClick={() => onGenerate({ url: doc.url, title: doc.title })} disabled={state.loading}>Rewrite</button>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            ))}
+            {groups.length > shown.length && <p className="help-text">Showing the {shown.length} most similar of {groups.length} groups.</p>}
+        </details>
+    );
+};
+
+/**
+ * Token usage and estimated spend by month, the price table the estimates come from, and
+ * the spending caps that stop bulk runs.
+ */
+const UsagePanel = ({ state, dispatch }) => {
+    const { usageLog, modelPrices, budget, aiProvider, aiModels } = state;
+    const [newModel, setNewModel] = useState('');
+    const currentModel = aiModels[aiProvider]?.trim() || AI_PROVIDERS[aiProvider].defaultModel;
+    const months = useMemo(() => {
+        const byMonth = new Map<string, UsageRecord[]>();
+        (usageLog as UsageRecord[]).forEach(record => {
+            const month = usageMonth(record.at);
+            if (!byMonth.has(month)) byMonth.set(month, []);
+            byMonth.get(month).push(record);
+        });
+        return [...byMonth.entries()].sort(([a], [b]) => b.localeCompare(a)).slice(0, 6).map(([month, records]) => ({ month, totals: sumUsage(records, modelPrices) }));
+    }, [usageLog, modelPrices]);
+    const thisMonth = months.find(m => m.month === usageMonth(new Date().toISOString()))?.totals || sumUsage([], modelPrices);
+    const missingPrice = aiProvider !== 'local' && !findModelPrice(modelPrices, currentModel);
+    const monthLabel = (month: string) => new Date(`${month}-01T00:00`).toLocaleDateString(undefined, { year: 'numeric', month: 'long' });
+
+    const setPrice = (model: string, field: keyof ModelPrice, value: string) => {
+        const parsed = parseFloat(value);
+        dispatch({ type: 'SET_MODEL_PRICE', payload: { model, price: { ...modelPrices[model], [field]: Number.isFinite(parsed) && parsed >= 0 ? parsed : 0 } } });
+    };
+
+    const setBudget = (field: 'perRun' | 'perMonth', value: string) => {
+        const parsed = parseFloat(value);
+        dispatch({ type: 'SET_BUDGET', payload: { [field]: Number.isFinite(parsed) && parsed > 0 ? parsed : 0 } });
+    };
+
+    const handleAddModel = () => {
+        const model = newModel.trim();
+        if (!model || modelPrices[model]) return;
+        dispatch({ type: 'SET_MODEL_PRICE', payload: { model, price: { input: 0, output: 0 } } });
+        setNewModel('');
+    };
+
+    return (
+        <details className="usage-panel">
+            <summary>Usage and budget: {formatCost(thisMonth.cost)} this month{budget.perMonth > 0 ? ` of ${formatCost(budget.perMonth)}` : ''}</summary>
+            <div className="usage-panel-grid">
+                <fieldset className="config-fieldset">
+                    <legend>Spending</legend>
+                    <table className="content-table usage-table">
+                        <thead><tr><th>Month</th><th>Calls</th><th>Input tokens</th><th>Output tokens</th><th>Cost</th></tr></thead>
+                        <tbody>
+                            {months.length === 0 && <tr><td colSpan={5}>No AI calls recorded yet.</td></tr>}
+                            {months.map(({ month, totals }) => (
+                                <tr key={month}>
+                                    <td>{monthLabel(month)}</td>
+                                    <td>{totals.calls}{totals.estimated > 0 && <small title={`${totals.estimated} call${totals.estimated !== 1 ? 's were' : ' was'} cancelled or not reported by the provider, so the usage is estimated from the text length`}> ({totals.estimated} estimated)</small>}</td>
+                                    <td>{formatTokens(totals.inputTokens)}</td>
+                                    <td>{formatTokens(totals.outputTokens)}</td>
+                                    <td>{formatCost(totals.cost)}{totals.unpriced > 0 && <small title={`${totals.unpriced} call${totals.unpriced !== 1 ? 's' : ''} used a model without a price`}> +?</small>}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="form-group"><label htmlFor="budgetPerRun">Budget per bulk run ($)</label><input type="number" id="budgetPerRun" min={0} step={0.5} value={budget.perRun || ''} placeholder="No cap" onChange={e => setBudget('perRun', e.target.value)} /></div>
+                    <div className="form-group"><label htmlFor="budgetPerMonth">Monthly budget ($)</label><input type="number" id="budgetPerMonth" min={0} step={1} value={budget.perMonth || ''} placeholder="No cap" onChange={e => setBudget('perMonth', e.target.value)} /></div>
+                    <p className="help-text">A bulk run stops before the next post would take spending over either cap. Posts already being written still finish.</p>
+                </fieldset>
+
+                <fieldset className="config-fieldset">
+                    <legend>Prices (USD per million tokens)</legend>
+                    {missingPrice && <p className="help-text key-status-message invalid">No price is set for {currentModel}, so its calls are not costed and budgets cannot stop a run. Add it below.</p>}
+                    <table className="content-table price-table">
+                        <thead><tr><th>Model</th><th>Input</th><th>Output</th><th>Per image</th><th></th></tr></thead>
+                        <tbody>
+                            {Object.entries(modelPrices as Record<string, ModelPrice>).sort(([a], [b]) => a.localeCompare(b)).map(([model, price]) => (
+                                <tr key={model}>
+                                    <td><code>{model}</code></td>
+                                    <td><input type="number" min={0} step={0.01} value={price.input} onChange={e => setPrice(model, 'input', e.target.value)} aria-label={`${model} input price`} /></td>
+                                    <td><input type="number" min={0} step={0.01} value={price.output} onChange={e => setPrice(model, 'output', e.target.value)} aria-label={`${model} output price`} /></td>
+                                    <td><input type="number" min={0} step={0.01} value={price.image ?? ''} placeholder="-" onChange={e => setPrice(model, 'image', e.target.value)} aria-label={`${model} price per image`} /></td>
+                                    <td><button type="button" className="btn btn-secondary btn-small" onClick={() => dispatch({ type: 'SET_MODEL_PRICE', payload: { model, price: null } })} aria-label={`Remove ${model}`}>&times;</button></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="term-add">
+                        <input type="text" placeholder={currentModel} value={newModel} onChange={e => setNewModel(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleAddModel(); } }} aria-label="Model name" />
+                        <button type="button" className="btn btn-secondary btn-small" onClick={handleAddModel} disabled={!newModel.trim()}>Add Model</button>
+                    </div>
+                    <p className="help-text">A model without its own row uses the longest row its name starts with. Local models are free. Costs are estimates from these prices; your provider's bill is the final word.</p>
+                </fieldset>
+            </div>
+        </details>
+    );
+};
+
+const ContentStep = ({ state, dispatch, onGenerateContent, onFetchExistingPosts, onGenerateAll, onGeneratePillarTopics, onGenerateClusterTopics, onFetchScheduledPosts, onScanClusterLinks, onRollback, onClearWorkspace, onPauseBulk, onResumeBulk, onCancelBulk, onBulkPublish }) => {
+    const { contentMode, workspaceRestoredAt, bulkGenerationProgress, sitemapSummary, sitemapEntries } = state;
+    // Switching modes mid-run would route bulk results into another mode's post list.
+    const isModeLocked = bulkGenerationProgress.visible;
+    const sourceCounts = useMemo(() => Object.entries(
+        (sitemapEntries as SitemapEntry[]).reduce((acc, entry) => { acc[entry.sourceType] = (acc[entry.sourceType] || 0) + 1; return acc; }, {} as Record<string, number>)
+    ), [sitemapEntries]);
+
+    return (
+        <div className="step-container">
+            {workspaceRestoredAt && (
+                <div className="resume-banner">
+                    <span>Restored your saved workspace from {new Date(workspaceRestoredAt).toLocaleString()}.</span>
+                    <button className="btn btn-secondary btn-small" onClick={onClearWorkspace}>Start Fresh</button>
+                    <button className="btn btn-secondary btn-small" onClick={() => dispatch({ type: 'DISMISS_WORKSPACE_NOTICE' })}>Dismiss</button>
+                </div>
+            )}
+            {sitemapSummary && (
+                <p className="sitemap-summary">
+                    {sitemapEntries.length} URLs from {sitemapSummary.sitemaps} sitemap{sitemapSummary.sitemaps !== 1 ? 's' : ''}
+                    {sourceCounts.length > 0 && ` (${sourceCounts.map(([type, count]) => `${SITEMAP_SOURCE_LABELS[type]} ${count}`).join(', ')})`}
+                    {sitemapSummary.filtered > 0 && `, ${sitemapSummary.filtered} filtered out`}.
+                </p>
+            )}
+            <div className="content-mode-toggle">
+                <button className={contentMode === 'cluster' ? 'active' : ''} onClick={() => dispatch({ type: 'SET_CONTENT_MODE', payload: 'cluster' })} disabled={isModeLocked}>
+                    Content Cluster Strategist
+                </button>
+                 <button className={contentMode === 'single' ? 'active' : ''} onClick={() => dispatch({ type: 'SET_CONTENT_MODE', payload: 'single' })} disabled={isModeLocked}>
+                    Single Article
+                </button>
+                <button className={contentMode === 'update' ? 'active' : ''} onClick={() => dispatch({ type: 'SET_CONTENT_MODE', payload: 'update' })} disabled={isModeLocked}>
+                    Update Existing Content
+                </button>
+            </div>
+            
+            {contentMode === 'cluster' && (
+                <ContentClusterStrategist
+                    state={state}
+                    dispatch={dispatch}
+                    onGenerate={onGenerateContent}
+                    onGeneratePillars={onGeneratePillarTopics}
+                    onGenerateClusters={onGenerateClusterTopics}
+                    onFetchScheduledPosts={onFetchScheduledPosts}
+                    onScanLinks={onScanClusterLinks}
+                />
+            )}
+
+            {contentMode === 'single' && (
+                 <SingleArticleGenerator
+                    onGenerate={onGenerateContent}
+                    isGenerating={state.loading}
+                    targetLength={state.voiceProfiles[getSiteKey(state.wpUrl, state.sitemapUrl) || '']?.targetLength || DEFAULT_VOICE_PROFILE.targetLength}
+                 />
+            )}
+
+            {contentMode === 'update' && (
+                <ExistingContentTable
+                    state={state}
+                    dispatch={dispatch}
+                    onGenerateContent={onGenerateContent}
+                    onGenerateAll={onGenerateAll}
+                    onPauseBulk={onPauseBulk}
+                    onResumeBulk={onResumeBulk}
+                    onCancelBulk={onCancelBulk}
+                    onBulkPublish={onBulkPublish}
+                    onFetchExistingPosts={onFetchExistingPosts}
+                    onRollback={onRollback}
+                />
+            )}
+
+            <CannibalizationPanel state={state} onGenerate={onGenerateContent} />
+            <UsagePanel state={state} dispatch={dispatch} />
+        </div>
+    );
+};
+
+const WordDiff = ({ words }: { words: DiffOp<string>[] }) => (
+    <>
+        {words.map((op, index) => op.type === 'equal' ? <span key={index}>{op.value}</span>
+            : op.type === 'removed' ? <del key={index}>{op.value}</del>
+            : <ins key={index}>{op.value}</ins>)}
+    </>
+);
+
+const FieldDiff = ({ label, before, after }) => (
+    <div className="diff-field">
+        <h5>{label}</h5>
+        {(before || '') === (after || '')
+            ? <p className="diff-unchanged">{after || '(empty)'} <em>(unchanged)</em></p>
+            : <p><WordDiff words={diffWords(before || '', after || '')} /></p>}
+    </div>
+);
+
+const countWords = (text: string): number => (text.match(/\S+/g) || []).length;
+
+type ContentSectionKind = 'intro' | 'takeaways' | 'body' | 'faq' | 'references';
+
+/** A top-level part of an article's HTML and its exact position in the content. */
+interface ContentSection {
+    kind: ContentSectionKind;
+    label: string;
+    html: string;
+    start: number;
+    end: number;
+}
+
+/** A rewrite of a section, or of the meta title and description, that could not be applied because it changed meanwhile. Carries the rewrite so it is not lost. */
+type SectionConflictError = Error & { rewrittenHtml: string };
+
+const sectionConflictError = (message: string, rewrittenHtml: string): SectionConflictError => Object.assign(new Error(message), { rewrittenHtml });
+
+const SECTION_KIND_LABELS: Record<ContentSectionKind, string> = {
+    intro: 'Introduction',
+    takeaways: 'Key Takeaways',
+    body: 'Section',
+    faq: 'FAQ',
+    references: 'References',
+};
+
+/** What the rewrite prompt asks for, so a rewritten part keeps the shape the article needs. */
+const SECTION_REWRITE_RULES: Record<ContentSectionKind, string> = {
+    intro: 'This is the introduction. Open with a strong hook, keep it to a few short paragraphs, and do not add a heading.',
+    takeaways: 'Keep the `<div class="key-takeaways">` wrapper with its "Key Takeaways" `<h3>` and a bulleted list of 6-8 actionable points.',
+    body: 'Start with the section\'s `<h2>`. You may improve its wording but keep its topic. Use `<h3>` subheadings, lists and tables where they help.',
+    faq: 'Keep the `<h2>` titled "Frequently Asked Questions". Write each question as an `<h3>` followed by its answer in `<p>` elements, with 3-5 questions in total.',
+    references: 'Keep the same wrapper and heading. List only real, authoritative sources; never invent URLs.',
+};
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+
+/**
+ * Splits article HTML into its introduction, Key Takeaways box, H2 sections, FAQ and
+ * references. Sections start at top-level `<h2>` elements and at the takeaways and
+ * references boxes. Each section is an exact slice of the content, so replacing one
+ * leaves the rest of the HTML untouched.
+ */
+const splitContentSections = (html: string): ContentSection[] => {
+    const content = html || '';
+    const boundaries: number[] = [];
+    let depth = 0;
+    for (const match of content.matchAll(/<(\/?)([a-zA-Z][a-zA-Z0-9-]*)\b[^>]*?(\/?)>/g)) {
+        const [tag, closing, rawName, selfClosing] = match;
+        const name = rawName.toLowerCase();
+        if (VOID_ELEMENTS.has(name)) continue;
+        if (closing) {
+            depth = Math.max(0, depth - 1);
+            continue;
+        }
+        if (depth === 0 && (name === 'h2' || (name === 'div' && /class\s*=\s*["'][^"']*\b(key-takeaways|references-section)\b/i.test(tag)))) boundaries.push(match.index);
+        if (!selfClosing) depth++;
+    }
+    const starts = [...new Set([0, ...boundaries])];
+    return starts.map((start, i) => {
+        const end = i + 1 < starts.length ? starts[i + 1] : content.length;
+        const sectionHtml = content.slice(start, end);
+        return { ...describeContentSection(sectionHtml, !boundaries.includes(start)), html: sectionHtml, start, end };
+    }).filter(section => section.html.trim());
+};
+
+const describeContentSection = (html: string, isIntro: boolean): { kind: ContentSectionKind; label: string } => {
+    if (isIntro) return { kind: 'intro', label: SECTION_KIND_LABELS.intro };
+    if (/^\s*<div[^>]*key-takeaways/i.test(html)) return { kind: 'takeaways', label: SECTION_KIND_LABELS.takeaways };
+    if (/^\s*<div[^>]*references-section/i.test(html)) return { kind: 'references', label: SECTION_KIND_LABELS.references };
+    const heading = decodeHtmlEntities(html.match(/<h2\b[^>]*>([\s\S]*?)<\/h2>/i)?.[1] || '').trim();
+    if (/frequently asked questions|\bfaqs?\b/i.test(heading)) return { kind: 'faq', label: heading };
+    if (/^(references|sources)$/i.test(heading)) return { kind: 'references', label: heading };
+    return { kind: 'body', label: heading || SECTION_KIND_LABELS.body };
+};
+
+/**
+ * The rules the generation prompt asks for, used to score what actually came back. Length
+ * and reading ease follow the voice profile the article was written to.
+ */
+const qualityRules = (voice: VoiceProfile) => ({
+    minWords: voice.targetLength || DEFAULT_VOICE_PROFILE.targetLength,
+    internalLinks: { min: 6, max: 10 },
+    minExternalLinks: 1,
+    keywordDensity: { min: 0.5, max: 2.5 },
+    minFlesch: (READING_LEVELS[voice.readingLevel] || READING_LEVELS.general).minFlesch,
+});
+
+type QualityStatus = 'pass' | 'warn' | 'fail';
+
+interface QualityCheck {
+    id: string;
+    label: string;
+    status: QualityStatus;
+    detail: string;
+    weight: number;
+}
+
+interface QualityReport {
+    score: number;
+    checks: QualityCheck[];
+    stats: { words: number; flesch: number; keywordDensity: number | null; internalLinks: number; externalLinks: number };
+    outline: { level: number; text: string; issue?: string }[];
+}
+
+/** A rough English syllable count: vowel groups, minus a silent trailing "e". */
+const countSyllables = (word: string): number => {
+    const w = word.toLowerCase().replace(/[^a-z]/g, '');
+    if (!w) return 0;
+    if (w.length <= 3) return 1;
+    const groups = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+    return Math.max(1, groups ? groups.length : 1);
+};
+
+/**
+ * Flesch reading ease, from 0 (very hard) to 100 (very easy). 60-70 is plain English.
+ */
+const fleschReadingEase = (text: string): number => {
+    const words: string[] = text.match(/[A-Za-zÀ-ɏ'’]+/g) || [];
+    if (words.length === 0) return 0;
+    const sentences = Math.max(1, (text.match(/[.!?]+(\s|$)/g) || []).length);
+    const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+    const score = 206.835 - 1.015 * (words.length / sentences) - 84.6 * (syllables / words.length);
+    return Math.round(Math.min(100, Math.max(0, score)));
+};
+
+const countPhrase = (text: string, phrase: string): number => {
+    const escaped = phrase.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    return escaped ? (text.match(new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}(?=$|[^\\p{L}\\p{N}])`, 'giu')) || []).length : 0;
+};
+
+/**
+ * Scores a generated post against the structure the generation prompt requires.
+ * Each check contributes its weight when it passes and half of it on a warning.
+ * @param post The post under review, with `content`, `title`, `metaTitle`, `metaDescription` and `focusKeyword`.
+ * @param siteUrl The WordPress site, used to tell internal links from external ones.
+ * @param voice The site's voice profile, which sets the target length and reading level.
+ */
+const analyzeContentQuality = (post, siteUrl: string, voice: VoiceProfile): QualityReport => {
+    const rules = qualityRules(voice);
+    const doc = new DOMParser().parseFromString(post.content || '', 'text/html');
+    const text = doc.body.textContent.replace(/\s+/g, ' ').trim();
+    const words = countWords(text);
+    const checks: QualityCheck[] = [];
+    const add = (id: string, label: string, status: QualityStatus, detail: string, weight: number) => checks.push({ id, label, status, detail, weight });
+
+    add('words', 'Word count', words >= rules.minWords ? 'pass' : words >= rules.minWords * 0.8 ? 'warn' : 'fail',
+        `${words} words (minimum ${rules.minWords})`, 15);
+
+    // Heading hierarchy: H2s structure the article, H3s only appear under an H2, and levels are never skipped.
+    const headings = Array.from(doc.body.querySelectorAll('h1, h2, h3, h4, h5, h6'));
+    let previousLevel = 1;
+    const outline = headings.map(el => {
+        const level = Number(el.tagName[1]);
+        const entry: { level: number; text: string; issue?: string } = { level, text: el.textContent.trim() };
+        if (level === 1) entry.issue = 'The H1 comes from the post title and should not be in the content.';
+        else if (level > previousLevel + 1) entry.issue = `Skips from H${previousLevel} to H${level}.`;
+        previousLevel = level;
+        return entry;
+    });
+    const h2Count = outline.filter(h => h.level === 2).length;
+    const hierarchyIssues = outline.filter(h => h.issue).length;
+    add('headings', 'Heading hierarchy', h2Count === 0 ? 'fail' : hierarchyIssues > 0 ? 'warn' : 'pass',
+        h2Count === 0 ? 'No H2 subheadings' : `${h2Count} H2, ${outline.filter(h => h.level === 3).length} H3${hierarchyIssues ? `, ${hierarchyIssues} out of order` : ''}`, 10);
+
+    const flesch = fleschReadingEase(text);
+    add('readability', 'Flesch reading ease', flesch >= rules.minFlesch ? 'pass' : flesch >= rules.minFlesch - 20 ? 'warn' : 'fail',
+        `${flesch} (aim for ${rules.minFlesch}+)`, 10);
+
+    const keyword = String(post.focusKeyword || '').trim();
+    let keywordDensity: number | null = null;
+    if (!keyword) {
+        add('keyword-density', 'Focus keyword density', 'warn', 'No focus keyword set on the SEO tab', 10);
+        add('keyword-placement', 'Focus keyword placement', 'warn', 'No focus keyword set on the SEO tab', 10);
+    } else {
+        const occurrences = countPhrase(text, keyword);
+        keywordDensity = words ? Math.round((occurrences * countWords(keyword) / words) * 1000) / 10 : 0;
+        const { min, max } = rules.keywordDensity;
+        add('keyword-density', 'Focus keyword density', keywordDensity >= min && keywordDensity <= max ? 'pass' : occurrences > 0 ? 'warn' : 'fail',
+            `${keywordDensity}% (${occurrences} uses, aim for ${min}-${max}%)`, 10);
+        const firstParagraph = doc.body.querySelector('p')?.textContent || '';
+        const placements = [
+            ['title', post.title], ['meta title', post.metaTitle], ['meta description', post.metaDescription],
+            ['introduction', firstParagraph], ['an H2', outline.filter(h => h.level === 2).map(h => h.text).join(' | ')],
+        ] as const;
+        const missing = placements.filter(([, value]) => countPhrase(String(value || ''), keyword) === 0).map(([where]) => where);
+        add('keyword-placement', 'Focus keyword placement', missing.length === 0 ? 'pass' : missing.length <= 2 ? 'warn' : 'fail',
+            missing.length ? `Missing from ${missing.join(', ')}` : 'In title, meta title, meta description, introduction and an H2', 10);
+    }
+
+    let siteHost = '';
+    try { siteHost = new URL(siteUrl).hostname.replace(/^www\./, ''); } catch { /* no site configured */ }
+    const links = Array.from(doc.body.querySelectorAll('a[href]')).map(a => a.getAttribute('href')).filter(href => !href.startsWith('#'));
+    const internalLinks = links.filter(href => {
+        try { return new URL(href, siteUrl || undefined).hostname.replace(/^www\./, '') === siteHost; } catch { return false; }
+    }).length;
+    const externalLinks = links.length - internalLinks;
+    const { min: minInternal, max: maxInternal } = rules.internalLinks;
+    add('internal-links', 'Internal links', internalLinks >= minInternal && internalLinks <= maxInternal ? 'pass' : internalLinks > 0 ? 'warn' : 'fail',
+        `${internalLinks} (aim for ${minInternal}-${maxInternal})`, 10);
+    add('external-links', 'External links', externalLinks >= rules.minExternalLinks ? 'pass' : 'warn', `${externalLinks} to other sites`, 5);
+
+    const headingMatches = (pattern: RegExp) => outline.some(h => pattern.test(h.text));
+    const missingSections = [
+        !doc.body.querySelector('.key-takeaways') && 'Key Takeaways box',
+        !headingMatches(/frequently asked questions|\bfaqs?\b/i) && 'FAQ section',
+        !headingMatches(/references|sources|further reading/i) && 'References section',
+    ].filter(Boolean) as string[];
+    add('sections', 'Required sections', missingSections.length === 0 ? 'pass' : 'fail',
+        missingSections.length ? `Missing: ${missingSections.join(', ')}` : 'Key Takeaways, FAQ and References present', 20);
+
+    const totalWeight = checks.reduce((sum, c) => sum + c.weight, 0);
+    const earned = checks.reduce((sum, c) => sum + (c.status === 'pass' ? c.weight : c.status === 'warn' ? c.weight / 2 : 0), 0);
+    return {
+        score: Math.round((earned / totalWeight) * 100),
+        checks,
+        stats: { words, flesch, keywordDensity, internalLinks, externalLinks },
+        outline,
+    };
+};
+
+const QualityScorecard = ({ report, threshold, dispatch }) => (
+    <div className="quality-scorecard">
+        <div className="quality-header">
+            <div className={`quality-score ${report.score >= threshold.minScore ? 'pass' : threshold.mode === 'block' ? 'fail' : 'warn'}`}>
+                <span>{report.score}</span><small>/ 100</small>
+            </div>
+            <div className="quality-threshold">
+                <label htmlFor="qualityMinScore">Minimum score to publish</label>
+                <div className="quality-threshold-row">
+                    <input type="number" id="qualityMinScore" min={0} max={100} value={threshold.minScore} onChange={e => dispatch({ type: 'SET_QUALITY_THRESHOLD', payload: { minScore: Math.min(100, Math.max(0, parseInt(e.target.value, 10) || 0)) } })} />
+                    <select value={threshold.mode} onChange={e => dispatch({ type: 'SET_QUALITY_THRESHOLD', payload: { mode: e.target.value } })} aria-label="When a post scores below the minimum">
+                        <option value="warn">Warn before publishing</option>
+                        <option value="block">Block publishing</option>
+                    </select>
+                </div>
+            </div>
         </div>
+        <ul className="quality-checks">
+            {report.checks.map(check => (
+                <li key={check.id} className={`quality-check ${check.status}`}>
+                    <span className="quality-check-label">{check.label}</span>
+                    <span className="quality-check-detail">{check.detail}</span>
+                </li>
+            ))}
+        </ul>
+        {report.outline.length > 0 && (
+            <div className="quality-outline">
+                <h5>Outline</h5>
+                <ul>
+                    {report.outline.map((heading, index) => (
+                        <li key={index} className={heading.issue ? 'issue' : ''} style={{ paddingLeft: `${(heading.level - 2) * 1.25}rem` }} title={heading.issue}>
+                            <span className="diff-tag">h{heading.level}</span>{heading.text}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
     </div>
 );
 
-const PromotionalLinks = () => {
-    const linksToShow = useMemo(() => getRandomSubset(PROMOTIONAL_LINKS, 4), []);
+/**
+ * Properties each supported schema.org type must have. Missing `required` properties are
+ * errors; missing `recommended` ones are warnings.
+ */
+const SCHEMA_RULES: Record<string, { required: string[]; recommended: string[] }> = {
+    Article: { required: ['headline', 'author', 'datePublished', 'publisher'], recommended: ['image', 'dateModified', 'mainEntityOfPage'] },
+    FAQPage: { required: ['mainEntity'], recommended: [] },
+    HowTo: { required: ['name', 'step'], recommended: ['totalTime', 'image'] },
+    Review: { required: ['itemReviewed', 'author', 'reviewRating'], recommended: ['datePublished'] },
+};
+
+/** Article subtypes validated and enriched with the Article rules. */
+const ARTICLE_TYPES = ['Article', 'BlogPosting', 'NewsArticle', 'TechArticle'];
+
+interface SchemaIssue {
+    severity: 'error' | 'warning';
+    path: string;
+    message: string;
+}
+
+/** Values taken from WordPress to complete Article schema. */
+interface SchemaFacts {
+    url?: string;
+    datePublished?: string;
+    dateModified?: string;
+    authorName?: string;
+    authorUrl?: string;
+    publisherName?: string;
+    publisherUrl?: string;
+    publisherLogo?: string;
+    inLanguage?: string;
+    /** The featured image's URL. */
+    image?: string;
+}
+
+/** A JSON-LD object. Values are whatever the AI or the user wrote, so they are checked before use. */
+type JsonLdNode = Record<string, unknown>;
+
+const isJsonLdNode = (value: unknown): value is JsonLdNode => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const schemaTypesOf = (node): string[] => (Array.isArray(node?.['@type']) ? node['@type'] : [node?.['@type']]).filter(Boolean);
+
+const isMissing = (value) => value == null || value === '' || (Array.isArray(value) && value.length === 0);
+
+interface ParsedSchemaMarkup {
+    root: unknown;
+    nodes: { node: JsonLdNode; path: string }[];
+}
+
+/**
+ * Parses JSON-LD the way the app stores it. Older generations stored the AI's JSON string
+ * re-encoded as a string, so a string result is parsed a second time.
+ * @returns The top-level value and every typed node, with `@graph` entries flattened.
+ */
+const parseSchemaMarkup = (markup: string): ParsedSchemaMarkup => {
+    let root: unknown = JSON.parse(markup);
+    if (typeof root === 'string') root = JSON.parse(root);
+    const nodes: { node: JsonLdNode; path: string }[] = [];
+    const collect = (value: unknown, path: string) => {
+        if (Array.isArray(value)) value.forEach((item, i) => collect(item, `${path}[${i}]`));
+        else if (isJsonLdNode(value)) {
+            if (Array.isArray(value['@graph'])) collect(value['@graph'], path ? `${path}.@graph` : '@graph');
+            if (value['@type']) nodes.push({ node: value, path: path || '(root)' });
+        }
+    };
+    collect(root, '');
+    return { root, nodes };
+};
+
+const normalizeQuestion = (text: string) => String(text || '').toLowerCase().replace(/<[^>]+>/g, '').replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Finds the questions asked in the post's FAQ section: the H3/H4 headings (or `<dt>` and
+ * `<summary>` elements) between the FAQ H2 and the next H2.
+ * @returns The questions, or null when the post has no FAQ section.
+ */
+const extractFaqQuestions = (html: string): string[] | null => {
+    const doc = new DOMParser().parseFromString(html || '', 'text/html');
+    const faqHeading = Array.from(doc.body.querySelectorAll('h2')).find(h => /frequently asked questions|\bfaqs?\b/i.test(h.textContent));
+    if (!faqHeading) return null;
+    const questions: string[] = [];
+    for (let el = faqHeading.nextElementSibling; el && el.tagName !== 'H2'; el = el.nextElementSibling) {
+        const candidates = el.matches('h3, h4, dt, summary') ? [el] : Array.from(el.querySelectorAll('h3, h4, dt, summary'));
+        candidates.forEach(q => questions.push(q.textContent.trim()));
+    }
+    return questions;
+};
+
+/**
+ * Reads the questions and answers of the post's FAQ section. Questions are H3/H4 headings,
+ * `<details>` summaries or `<dt>` terms; answers are whatever follows them.
+ * @returns The entries, or null when the post has no FAQ section.
+ */
+const extractFaqEntries = (html: string): { question: string; answer: string }[] | null => {
+    const doc = new DOMParser().parseFromString(html || '', 'text/html');
+    const faqHeading = Array.from(doc.body.querySelectorAll('h2')).find(h => /frequently asked questions|\bfaqs?\b/i.test(h.textContent));
+    if (!faqHeading) return null;
+    const entries: { question: string; answer: string }[] = [];
+    const addAnswer = (text: string) => {
+        if (entries.length && text.trim()) entries[entries.length - 1].answer = `${entries[entries.length - 1].answer} ${text.trim()}`.trim();
+    };
+    for (let el = faqHeading.nextElementSibling; el && el.tagName !== 'H2'; el = el.nextElementSibling) {
+        if (el.matches('h3, h4')) entries.push({ question: el.textContent.trim(), answer: '' });
+        else if (el.matches('details')) {
+            const summary = el.querySelector('summary');
+            entries.push({ question: summary?.textContent.trim() || '', answer: '' });
+            Array.from(el.children).filter(child => child !== summary).forEach(child => addAnswer(child.textContent));
+        } else if (el.matches('dl')) {
+            Array.from(el.children).forEach(child => child.tagName === 'DT' ? entries.push({ question: child.textContent.trim(), answer: '' }) : addAnswer(child.textContent));
+        } else addAnswer(el.textContent);
+    }
+    return entries.filter(entry => entry.question);
+};
+
+/**
+ * Rewrites the FAQPage schema from the article's FAQ section, adding a FAQPage node when
+ * there is none. Markup that cannot be parsed is returned unchanged.
+ */
+const syncFaqSchema = (markup: string, content: string): string => {
+    const entries = extractFaqEntries(content);
+    if (!entries?.length) return markup;
+    const mainEntity = entries.map(entry => ({ '@type': 'Question', name: entry.question, acceptedAnswer: { '@type': 'Answer', text: entry.answer } }));
+    if (!String(markup || '').trim()) return JSON.stringify({ '@context': 'https://schema.org', '@type': 'FAQPage', mainEntity }, null, 2);
+    let parsed: ParsedSchemaMarkup;
+    try {
+        parsed = parseSchemaMarkup(markup);
+    } catch {
+        return markup;
+    }
+    const faqNodes = parsed.nodes.filter(({ node }) => schemaTypesOf(node).includes('FAQPage'));
+    let root = parsed.root;
+    if (faqNodes.length) faqNodes.forEach(({ node }) => { node.mainEntity = mainEntity; });
+    else if (Array.isArray(root)) root.push({ '@context': 'https://schema.org', '@type': 'FAQPage', mainEntity });
+    else if (isJsonLdNode(root) && Array.isArray(root['@graph'])) root['@graph'].push({ '@type': 'FAQPage', mainEntity });
+    else {
+        const { '@context': context, ...node } = isJsonLdNode(root) ? root : {};
+        root = { '@context': context || 'https://schema.org', '@graph': [node, { '@type': 'FAQPage', mainEntity }] };
+    }
+    return JSON.stringify(root, null, 2);
+};
+
+/**
+ * Checks JSON-LD against the required properties of the supported types, and checks that
+ * FAQPage questions match the FAQ section of the article.
+ */
+const validateSchemaMarkup = (markup: string, content: string): SchemaIssue[] => {
+    if (!String(markup || '').trim()) return [{ severity: 'warning', path: '(root)', message: 'No schema markup. The post will be published without structured data.' }];
+    let parsed: ParsedSchemaMarkup;
+    try {
+        parsed = parseSchemaMarkup(markup);
+    } catch (error) {
+        return [{ severity: 'error', path: '(root)', message: `Not valid JSON: ${(error instanceof Error) ? error.message : String(error)}` }];
+    }
+    const issues: SchemaIssue[] = [];
+    const contexts = [isJsonLdNode(parsed.root) ? parsed.root['@context'] : undefined, ...parsed.nodes.map(n => n.node['@context'])].filter(Boolean).map(String);
+    if (!contexts.some(c => /schema\.org/.test(c))) issues.push({ severity: 'error', path: '(root)', message: '"@context" must be "https://schema.org".' });
+    if (parsed.nodes.length === 0) issues.push({ severity: 'error', path: '(root)', message: 'No "@type" found.' });
+
+    parsed.nodes.forEach(({ node, path }) => {
+        schemaTypesOf(node).forEach(type => {
+            const rules = SCHEMA_RULES[ARTICLE_TYPES.includes(type) ? 'Article' : type];
+            if (!rules) return;
+            rules.required.filter(prop => isMissing(node[prop])).forEach(prop => issues.push({ severity: 'error', path, message: `${type} is missing required "${prop}".` }));
+            rules.recommended.filter(prop => isMissing(node[prop])).forEach(prop => issues.push({ severity: 'warning', path, message: `${type} should have "${prop}".` }));
+        });
+        const types = schemaTypesOf(node);
+        if (types.includes('FAQPage') && !isMissing(node.mainEntity)) {
+            const entries: JsonLdNode[] = (Array.isArray(node.mainEntity) ? node.mainEntity : [node.mainEntity]).map(q => (isJsonLdNode(q) ? q : {}));
+            entries.forEach((q, i) => {
+                if (isMissing(q.name)) issues.push({ severity: 'error', path: `${path}.mainEntity[${i}]`, message: 'Question is missing "name".' });
+                if (!isJsonLdNode(q.acceptedAnswer) || isMissing(q.acceptedAnswer.text)) issues.push({ severity: 'error', path: `${path}.mainEntity[${i}]`, message: 'Question is missing "acceptedAnswer.text".' });
+            });
+            const onPage = extractFaqQuestions(content);
+            if (!onPage) {
+                issues.push({ severity: 'error', path, message: 'FAQPage schema is present but the article has no FAQ section.' });
+            } else {
+                const pageSet = new Set(onPage.map(normalizeQuestion));
+                const schemaSet = new Set(entries.map(q => normalizeQuestion(String(q.name ?? ''))));
+                entries.forEach((q, i) => {
+                    if (q.name && !pageSet.has(normalizeQuestion(String(q.name)))) issues.push({ severity: 'error', path: `${path}.mainEntity[${i}]`, message: `"${q.name}" is not asked in the FAQ section.` });
+                });
+                onPage.filter(q => !schemaSet.has(normalizeQuestion(q))).forEach(q => issues.push({ severity: 'warning', path, message: `FAQ question "${q}" is missing from the schema.` }));
+            }
+        }
+        if (types.includes('HowTo') && Array.isArray(node.step)) {
+            node.step.forEach((step, i) => {
+                if (isMissing(step?.text) && isMissing(step?.itemListElement)) issues.push({ severity: 'error', path: `${path}.step[${i}]`, message: 'Step needs "text" or "itemListElement".' });
+            });
+        }
+        if (types.includes('Review') && isJsonLdNode(node.reviewRating) && isMissing(node.reviewRating.ratingValue)) {
+            issues.push({ severity: 'error', path: `${path}.reviewRating`, message: 'Rating is missing "ratingValue".' });
+        }
+        if (types.includes('Review') && isJsonLdNode(node.itemReviewed) && isMissing(node.itemReviewed.name)) {
+            issues.push({ severity: 'error', path: `${path}.itemReviewed`, message: 'Reviewed item is missing "name".' });
+        }
+    });
+
+    const hasFaqSchema = parsed.nodes.some(({ node }) => schemaTypesOf(node).includes('FAQPage'));
+    if (!hasFaqSchema && extractFaqQuestions(content)?.length) issues.push({ severity: 'warning', path: '(root)', message: 'The article has an FAQ section but no FAQPage schema.' });
+    return issues;
+};
+
+/**
+ * Fills the author, publisher, dates and `mainEntityOfPage` of Article nodes from
+ * WordPress. Values the schema already has are kept.
+ * @returns The enriched markup, pretty-printed, or the input unchanged when it is not valid JSON.
+ */
+const enrichSchemaMarkup = (markup: string, facts: SchemaFacts): string => {
+    let parsed: ParsedSchemaMarkup;
+    try {
+        parsed = parseSchemaMarkup(markup);
+    } catch {
+        return markup;
+    }
+    parsed.nodes.filter(({ node }) => schemaTypesOf(node).some(type => ARTICLE_TYPES.includes(type))).forEach(({ node }) => {
+        if (isMissing(node.author) && facts.authorName) {
+            node.author = { '@type': 'Person', name: facts.authorName, ...(facts.authorUrl ? { url: facts.authorUrl } : {}) };
+        }
+        if (isMissing(node.publisher) && facts.publisherName) {
+            node.publisher = {
+                '@type': 'Organization', name: facts.publisherName,
+                ...(facts.publisherUrl ? { url: facts.publisherUrl } : {}),
+                ...(facts.publisherLogo ? { logo: { '@type': 'ImageObject', url: facts.publisherLogo } } : {}),
+            };
+        }
+        if (isMissing(node.datePublished) && facts.datePublished) node.datePublished = facts.datePublished;
+        if (facts.dateModified) node.dateModified = facts.dateModified;
+        if (isMissing(node.mainEntityOfPage) && facts.url) node.mainEntityOfPage = { '@type': 'WebPage', '@id': facts.url };
+        if (isMissing(node.inLanguage) && facts.inLanguage) node.inLanguage = facts.inLanguage;
+        if (isMissing(node.image) && facts.image) node.image = facts.image;
+    });
+    return JSON.stringify(parsed.root, null, 2);
+};
+
+/** Sets `inLanguage` on every node that describes the page, replacing any earlier value. */
+const setSchemaLanguage = (markup: string, locale: string): string => {
+    let parsed: ParsedSchemaMarkup;
+    try {
+        parsed = parseSchemaMarkup(markup);
+    } catch {
+        return markup;
+    }
+    parsed.nodes.filter(({ node }) => schemaTypesOf(node).some(type => [...ARTICLE_TYPES, 'FAQPage', 'WebPage'].includes(type))).forEach(({ node }) => {
+        node.inLanguage = locale;
+    });
+    return JSON.stringify(parsed.root, null, 2);
+};
+
+const SchemaPanel = ({ post, issues, onChange, onEnrich }) => {
+    const [enriching, setEnriching] = useState<{ busy: boolean; error: string | null }>({ busy: false, error: null });
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const warnings = issues.filter(issue => issue.severity === 'warning');
+
+    const handleEnrich = () => {
+        setEnriching({ busy: true, error: null });
+        onEnrich(post)
+            .then(() => setEnriching({ busy: false, error: null }))
+            .catch(error => setEnriching({ busy: false, error: error.message }));
+    };
 
     return (
-        <div className="promo-links-section">
-            <h3>Explore Our Expertise</h3>
-            <p>Check out some of our top-performing content at affiliatemarketingforsuccess.com.</p>
-            <div className="promo-links-grid">
-                {linksToShow.map(url => (
-                    <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="promo-link-card">
-                        <h4>{slugToTitle(url)}</h4>
-                        <span>affiliatemarketingforsuccess.com</span>
-                    </a>
-                ))}
+        <div className="form-group">
+            <div className="label-wrapper">
+                <label htmlFor="schemaMarkup">JSON-LD Schema Markup</label>
+                <button className="btn btn-secondary btn-small" onClick={handleEnrich} disabled={enriching.busy}>
+                    {enriching.busy ? 'Filling...' : 'Fill from WordPress'}
+                </button>
             </div>
+            <textarea id="schemaMarkup" className={errors.length ? 'has-error' : ''} value={post.schemaMarkup || ''} onChange={e => onChange(e.target.value)}></textarea>
+            {enriching.error && <p className="key-status-message invalid">{enriching.error}</p>}
+            {issues.length > 0 ? (
+                <ul className="schema-issues">
+                    {[...errors, ...warnings].map((issue, index) => (
+                        <li key={index} className={issue.severity}><code>{issue.path}</code> {issue.message}</li>
+                    ))}
+                </ul>
+            ) : <p className="schema-valid">Schema is valid for all supported types.</p>}
+            <p className="help-text">Author, publisher, dates and the page URL are filled from WordPress when you publish. Posts with schema errors are not published.</p>
         </div>
     );
 };
 
-const LandingPageIntro = () => (
-    <div className="landing-intro">
-        <h2 className="usp-headline">The AI Strategist that builds your content empire, from keyword to #1 ranking.</h2>
-        <p className="usp-subheadline">
-            Go beyond generic AI writing. We analyze your entire site to build a data-driven content strategy, creating interconnected articles engineered to dominate search rankings.
-        </p>
-        <div className="features-grid">
-            <Feature
-                icon={<svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13V7m0 13a2 2 0 002-2V9a2 2 0 00-2-2m-2 4h.01M15 20l5.447-2.724A1 1 0 0021 16.382V5.618a1 1 0 00-1.447-.894L15 7m0 13V7m0 13a2 2 0 01-2-2V9a2 2 0 012-2m2 4h-.01" /></svg>}
-                title="Full-Stack Content Strategy"
-            >
-                Automatically identify core content pillars and generate entire "content clusters" to build topical authority and own your niche.
-            </Feature>
-            <Feature
-                icon={<svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" /></svg>}
-                title="Data-Driven Content Engine"
-            >
-                 Leverage live SERP analysis to find competitor gaps and generate 10x content with automated schema markup for higher rankings.
-            </Feature>
-            <Feature
-                icon={<svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>}
-                title="Automated Content Audits"
-            >
-                Automatically detect and flag "stale" content. Revitalize old posts with one click, turning content decay into a strategic advantage.
-            </Feature>
-        </div>
-        <PromotionalLinks />
-        <div className="risk-reversal">
-            <p><strong>Your Advantage:</strong> This is a powerful, free tool designed to give you a competitive edge. There are no trials or fees. Simply configure your details below and start optimizing.</p>
-        </div>
-    </div>
-);
+const LinksPanel = ({ report, externalLinks, linkChecks, onRemoveLinks, onReplaceLink, onCheckLinks }) => {
+    const { links, invented, anchors, diversity } = report as InternalLinkReport;
+    const checks: LinkCheckResult[] = externalLinks.map(url => linkChecks[url] || { url });
+    const broken = checks.filter(check => check.checkedAt && !check.ok);
 
+    const handleReplace = (url: string) => {
+        const replacement = window.prompt('Replace this link with:', url);
+        if (replacement && replacement.trim() && replacement.trim() !== url) onReplaceLink(url, replacement.trim());
+    };
+    const genericCount = anchors.filter(a => a.generic).reduce((sum, a) => sum + a.count, 0);
+    const repeated = anchors.filter(a => a.count > 1);
+    return (
+        <div className="links-panel">
+            <div className="diff-summary">
+                <span>{links.length} internal link{links.length !== 1 ? 's' : ''}</span>
+                <span className={invented.length ? 'diff-stat removed' : 'diff-stat added'}>{invented.length} not found on the site</span>
+                <span>Anchor diversity {Math.round(diversity * 100)}%</span>
+                {genericCount > 0 && <span className="diff-stat removed">{genericCount} generic anchor{genericCount !== 1 ? 's' : ''}</span>}
+            </div>
+            {invented.length > 0 && (
+                <div className="diff-field link-invented">
+                    <div className="label-wrapper">
+                        <h5>Links to pages that don't exist in the sitemap or post list</h5>
+                        <button className="btn btn-secondary btn-small" onClick={() => onRemoveLinks(invented)}>Remove All</button>
+                    </div>
+                    <ul>
+                        {invented.map(href => (
+                            <li key={href}>
+                                <code>{href}</code>
+                                <button className="btn btn-secondary btn-small" onClick={() => onRemoveLinks([href])}>Remove</button>
+                            </li>
+                        ))}
+                    </ul>
+                    <p className="help-text">Removing a link keeps its anchor text as plain text.</p>
+                </div>
+            )}
+            {anchors.length > 0 && (
+                <table className="anchor-table">
+                    <thead><tr><th>Anchor text</th><th>Uses</th><th>Targets</th></tr></thead>
+                    <tbody>
+                        {anchors.map(anchor => (
+                            <tr key={anchor.text} className={anchor.generic || anchor.count > 1 ? 'flagged' : ''}>
+                                <td>{anchor.text || <em>(empty)</em>}{anchor.generic && <span className="stale-badge">Generic</span>}</td>
+                                <td>{anchor.count}</td>
+                                <td>{anchor.targets}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            {repeated.length > 0 && <p className="help-text">Anchors used more than once are highlighted. Varying them helps each target page rank for its own terms.</p>}
 
-const ConfigStep = ({ state, dispatch, onFetchSitemap, onValidateKey }) => {
-    const { wpUrl, wpUser, wpPassword, sitemapUrl, urlLimit, loading, aiProvider, apiKeys, openRouterModels, keyStatus } = state;
-    const isSitemapConfigValid = useMemo(() => sitemapUrl && sitemapUrl.trim() !== '', [sitemapUrl]);
-    const isApiKeyValid = useMemo(() => apiKeys[aiProvider]?.trim() && keyStatus[aiProvider] !== 'invalid', [apiKeys, aiProvider, keyStatus]);
-    const [saveConfig, setSaveConfig] = useState(true);
+            <div className="label-wrapper external-links-header">
+                <h5>Outbound links ({externalLinks.length}{broken.length ? `, ${broken.length} failing` : ''})</h5>
+                <div className="button-group">
+                    {broken.length > 0 && <button className="btn btn-secondary btn-small" onClick={() => onRemoveLinks(broken.map(check => check.url))}>Remove Failing</button>}
+                    <button className="btn btn-secondary btn-small" onClick={onCheckLinks} disabled={externalLinks.length === 0}>Re-check</button>
+                </div>
+            </div>
+            {externalLinks.length > 0 ? (
+                <table className="anchor-table external-links">
+                    <thead><tr><th>URL</th><th>Status</th><th>Page</th><th></th></tr></thead>
+                    <tbody>
+                        {checks.map(check => (
+                            <tr key={check.url} className={check.checkedAt && !check.ok ? 'failed' : ''}>
+                                <td><a href={check.url} target="_blank" rel="noopener noreferrer">{check.url}</a></td>
+                                <td>{check.pending ? 'Checking...' : !check.checkedAt ? 'Not checked' : check.status ?? check.error}</td>
+                                <td>
+                                    {check.title}
+                                    {check.finalUrl && <div className="help-text">Redirects to {check.finalUrl}</div>}
+                                </td>
+                                <td className="actions-cell">
+                                    {check.checkedAt && !check.ok && (
+                                        <>
+                                            <button className="btn btn-secondary btn-small" onClick={() => onRemoveLinks([check.url])}>Remove</button>
+                                            <button className="btn btn-secondary btn-small" onClick={() => handleReplace(check.url)}>Replace</button>
+                                        </>
+                                    )}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : <p className="help-text">No outbound links in this article.</p>}
+        </div>
+    );
+};
 
-    const debouncedValidateKey = useCallback(debounce(onValidateKey, 500), [onValidateKey]);
+const ChangesPanel = ({ post }) => {
+    const { original } = post;
+    const [showUnchanged, setShowUnchanged] = useState(false);
+    const changes = useMemo(() => diffContentBlocks(original.content, post.content), [original.content, post.content]);
+    const removedLinks = useMemo(() => {
+        const remaining = new Set(extractLinkHrefs(post.content));
+        return extractLinkHrefs(original.content).filter(href => !remaining.has(href));
+    }, [original.content, post.content]);
 
-    const handleApiKeyChange = (e) => {
-        const { value } = e.target;
-        dispatch({ type: 'SET_API_KEY', payload: { provider: aiProvider, key: value } });
-        if (value.trim() !== '') debouncedValidateKey(aiProvider, value);
-    };
+    const summary = useMemo(() => changes.reduce((acc, change) => {
+        if (change.type === 'removed') { acc.removedBlocks++; acc.removedWords += countWords(change.block.text); }
+        if (change.type === 'added') { acc.addedBlocks++; acc.addedWords += countWords(change.block.text); }
+        if (change.type === 'modified') {
+            acc.modifiedBlocks++;
+            change.words.forEach(op => {
+                if (op.type === 'removed') acc.removedWords += countWords(op.value);
+                if (op.type === 'added') acc.addedWords += countWords(op.value);
+            });
+        }
+        return acc;
+    }, { removedBlocks: 0, addedBlocks: 0, modifiedBlocks: 0, removedWords: 0, addedWords: 0 }), [changes]);
 
-    const handleProviderChange = (e) => {
-        const newProvider = e.target.value;
-        dispatch({ type: 'SET_AI_PROVIDER', payload: newProvider });
-        const key = apiKeys[newProvider];
-        if (key?.trim() && keyStatus[newProvider] === 'unknown') onValidateKey(newProvider, key);
-    };
+    // Runs of unchanged blocks are collapsed so the reviewer's attention goes to what changed.
+    const rows: ({ kind: 'unchanged'; count: number; blocks: ContentBlock[] } | { kind: 'change'; change: BlockChange })[] = [];
+    changes.forEach(change => {
+        const last = rows[rows.length - 1];
+        if (change.type !== 'equal') rows.push({ kind: 'change', change });
+        else if (last?.kind === 'unchanged') { last.count++; last.blocks.push(change.block); }
+        else rows.push({ kind: 'unchanged', count: 1, blocks: [change.block] });
+    });
 
     return (
-        <div className="step-container">
-            <LandingPageIntro />
-            <div className="config-forms-wrapper">
-                <fieldset className="config-fieldset">
-                    <legend>WordPress Configuration</legend>
-                    <div className="form-group"><label htmlFor="wpUrl">WordPress URL</label><input type="url" id="wpUrl" value={wpUrl} onChange={(e) => dispatch({ type: 'SET_FIELD', payload: { field: 'wpUrl', value: e.target.value } })} placeholder="https://example.com" /></div>
-                    <div className="form-group"><label htmlFor="wpUser">WordPress Username</label><input type="text" id="wpUser" value={wpUser} onChange={(e) => dispatch({ type: 'SET_FIELD', payload: { field: 'wpUser', value: e.target.value } })} placeholder="admin" /></div>
-                    <div className="form-group"><label htmlFor="wpPassword">Application Password</label><input type="password" id="wpPassword" value={wpPassword} onChange={(e) => dispatch({ type: 'SET_FIELD', payload: { field: 'wpPassword', value: e.target.value } })} placeholder="••••••••••••••••" /><p className="help-text">This is not your main password. <a href="https://wordpress.org/documentation/article/application-passwords/" target="_blank" rel="noopener noreferrer">Learn how to create one</a>.</p></div>
-                    <div className="checkbox-group"><input type="checkbox" id="saveConfig" checked={saveConfig} onChange={(e) => setSaveConfig(e.target.checked)} /><label htmlFor="saveConfig">Save WordPress Configuration</label></div>
-                    <div style={{ marginTop: '1rem', padding: '1rem', borderRadius: '8px', backgroundColor: 'var(--warning-bg-color)', border: '1px solid var(--warning-color)', color: 'var(--warning-text-color)' }}><p style={{margin: 0, fontSize: '0.875rem', lineHeight: '1.5'}}><strong>Security Note:</strong> This app connects directly to your WordPress site. Connection issues (CORS) may require server configuration. Always use a dedicated Application Password with limited permissions.</p></div>
-                </fieldset>
+        <div className="changes-panel">
+            <div className="diff-summary">
+                <span className="diff-stat removed">−{summary.removedWords} words</span>
+                <span className="diff-stat added">+{summary.addedWords} words</span>
+                <span>{summary.removedBlocks} blocks removed, {summary.addedBlocks} added, {summary.modifiedBlocks} modified</span>
+            </div>
+            <FieldDiff label="Title" before={original.title} after={post.title} />
+            <FieldDiff label="Meta Title" before={original.metaTitle} after={post.metaTitle} />
+            <FieldDiff label="Meta Description" before={original.metaDescription} after={post.metaDescription} />
+            {removedLinks.length > 0 && (
+                <div className="diff-field diff-removed-links">
+                    <h5>Links no longer present ({removedLinks.length})</h5>
+                    <ul>{removedLinks.map(href => <li key={href}><a href={href} target="_blank" rel="noopener noreferrer">{href}</a></li>)}</ul>
+                </div>
+            )}
+            <div className="checkbox-group"><input type="checkbox" id="showUnchanged" checked={showUnchanged} onChange={e => setShowUnchanged(e.target.checked)} /><label htmlFor="showUnchanged">Show unchanged blocks</label></div>
+            <div className="diff-blocks">
+                {rows.map((row, index) => {
+                    if (row.kind === 'unchanged') {
+                        return showUnchanged
+                            ? row.blocks.map((block, i) => <div key={`${index}-${i}`} className="diff-block equal"><span className="diff-tag">{block.tag}</span>{block.text}</div>)
+                            : <div key={index} className="diff-block collapsed">{row.count} unchanged block{row.count !== 1 ? 's' : ''}</div>;
+                    }
+                    const { change } = row;
+                    if (change.type === 'modified') {
+                        return <div key={index} className="diff-block modified"><span className="diff-tag">{change.after.tag}</span><WordDiff words={change.words} /></div>;
+                    }
+                    if (change.type === 'equal') return null;
+                    return <div key={index} className={`diff-block ${change.type}`}><span className="diff-tag">{change.block.tag}</span>{change.block.text}</div>;
+                })}
+            </div>
+        </div>
+    );
+};
 
-                <fieldset className="config-fieldset">
-                    <legend>Content Source</legend>
-                    <div className="form-group"><label htmlFor="sitemapUrl">Sitemap URL (or Sitemap Index URL)</label><input type="url" id="sitemapUrl" value={sitemapUrl} onChange={(e) => dispatch({ type: 'SET_FIELD', payload: { field: 'sitemapUrl', value: e.target.value } })} placeholder="https://example.com/sitemap.xml" /></div>
-                </fieldset>
+/**
+ * Excerpt, author, categories and tags for a post. The model's category and tag suggestions
+ * are marked so they can be confirmed or dropped before publishing.
+ */
+const PostDetailsPanel = ({ post, inventory, onChange, onLoadInventory }) => {
+    const [tagInput, setTagInput] = useState('');
+    const [loadState, setLoadState] = useState<{ loading: boolean; error: string | null }>({ loading: false, error: null });
+    const restPath = post.restPath || 'wp/v2/posts';
+    const categoryIds: number[] = post.categories || [];
+    const tagIds: number[] = post.tags || [];
+    const suggestedCategories: number[] = post.suggestedCategories || [];
+    const suggestedTags: number[] = post.suggestedTags || [];
+    const tagsById = useMemo(() => new Map<number, WpTerm>((inventory?.tags || []).map(term => [term.id, term])), [inventory]);
 
-                <fieldset className="config-fieldset">
-                    <legend>AI Configuration</legend>
-                    <div className="form-group"><label htmlFor="aiProvider">AI Provider</label><select id="aiProvider" value={aiProvider} onChange={handleProviderChange}><option value="gemini">Google Gemini</option><option value="openai">OpenAI</option><option value="anthropic">Anthropic</option><option value="openrouter">OpenRouter (Experimental)</option></select></div>
-                    {aiProvider === 'openrouter' && (<div className="form-group"><label htmlFor="openRouterModel">Model</label><input type="text" id="openRouterModel" list="openrouter-models-list" value={state.openRouterModel} onChange={(e) => dispatch({ type: 'SET_FIELD', payload: { field: 'openRouterModel', value: e.target.value } })} placeholder="e.g., google/gemini-flash-1.5" /><datalist id="openrouter-models-list">{openRouterModels.map(model => <option key={model} value={model} />)}</datalist><p className="help-text">Enter any model name from <a href="https://openrouter.ai/models" target="_blank" rel="noopener noreferrer">OpenRouter</a>.</p></div>)}
-                    <div className="form-group api-key-group"><label htmlFor="apiKey">API Key</label><input type="password" id="apiKey" value={apiKeys[aiProvider] || ''} onChange={handleApiKeyChange} placeholder={`Enter your ${aiProvider.charAt(0).toUpperCase() + aiProvider.slice(1)} API Key`} /><ApiKeyValidator status={keyStatus[aiProvider]} /></div>
-                </fieldset>
-            </div>
+    const toggleCategory = (id: number) => onChange('categories', categoryIds.includes(id) ? categoryIds.filter(c => c !== id) : [...categoryIds, id]);
+    const addTag = (id: number) => { if (!tagIds.includes(id)) onChange('tags', [...tagIds, id]); };
+    const handleAddTag = () => {
+        const match = inventory?.tags.find(term => term.name.toLowerCase() === tagInput.trim().toLowerCase());
+        if (!match) return;
+        addTag(match.id);
+        setTagInput('');
+    };
+    const handleLoad = () => {
+        setLoadState({ loading: true, error: null });
+        onLoadInventory()
+            .then(result => setLoadState({ loading: false, error: result ? null : 'Could not load categories, tags and authors. Check your WordPress credentials.' }));
+    };
 
-            <button className="btn" onClick={() => onFetchSitemap(sitemapUrl, saveConfig)} disabled={loading || !isSitemapConfigValid || !isApiKeyValid}>{loading ? <div className="spinner" style={{width: '24px', height: '24px', borderWidth: '2px'}}></div> : 'Analyze Site & Continue'}</button>
+    return (
+        <div className="post-details">
+            {post.promptTemplate && <p className="help-text">Written with the "{post.promptTemplate.name}" template, version {post.promptTemplate.version}.</p>}
+            <div className="form-group">
+                <div className="label-wrapper"><label htmlFor="excerpt">Excerpt</label><span className="char-counter">{countWords(String(post.excerpt || ''))} words</span></div>
+                <textarea id="excerpt" className="meta-description-input" placeholder="Leave empty to let WordPress build one from the content" value={post.excerpt || ''} onChange={e => onChange('excerpt', e.target.value)} />
+            </div>
+            {!inventory ? (
+                <div className="post-details-empty">
+                    <p className="help-text">Categories, tags and authors load from WordPress the first time you generate an article or fetch posts.</p>
+                    <button className="btn btn-secondary btn-small" onClick={handleLoad} disabled={loadState.loading}>{loadState.loading ? 'Loading...' : 'Load from WordPress'}</button>
+                    {loadState.error && <div className="result error">{loadState.error}</div>}
+                </div>
+            ) : (
+                <>
+                    <div className="form-group">
+                        <label htmlFor="postAuthor">Author</label>
+                        <select id="postAuthor" value={post.author || ''} onChange={e => onChange('author', e.target.value ? Number(e.target.value) : null)}>
+                            <option value="">{typeof post.id === 'number' && post.id > 0 ? 'Keep the current author' : 'The connected WordPress user'}</option>
+                            {inventory.authors.map(author => <option key={author.id} value={author.id}>{author.name}</option>)}
+                        </select>
+                    </div>
+                    {postTypeSupports(inventory, restPath, 'category') && (
+                        <div className="form-group">
+                            <label>Categories</label>
+                            {inventory.categories.length === 0 ? <p className="help-text">This site has no categories yet.</p> : (
+                                <div className="term-list">
+                                    {inventory.categories.map(term => (
+                                        <label key={term.id} className="checkbox-group">
+                                            <input type="checkbox" checked={categoryIds.includes(term.id)} onChange={() => toggleCategory(term.id)} />
+                                            {term.name}
+                                            {suggestedCategories.includes(term.id) && <span className="suggested-badge">Suggested</span>}
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    {postTypeSupports(inventory, restPath, 'post_tag') && (
+                        <div className="form-group">
+                            <label htmlFor="tagInput">Tags</label>
+                            <div className="term-chips">
+                                {tagIds.map(id => (
+                                    <span key={id} className={`term-chip ${suggestedTags.includes(id) ? 'suggested' : ''}`}>
+                                        {tagsById.get(id)?.name || `#${id}`}
+                                        <button type="button" onClick={() => onChange('tags', tagIds.filter(t => t !== id))} aria-label={`Remove tag ${tagsById.get(id)?.name || id}`}>&times;</button>
+                                    </span>
+                                ))}
+                                {suggestedTags.filter(id => !tagIds.includes(id)).map(id => (
+                                    <button key={id} type="button" className="term-chip add" onClick={() => addTag(id)}>+ {tagsById.get(id)?.name || `#${id}`}</button>
+                                ))}
+                            </div>
+                            <div className="term-add">
+                                <input type="text" id="tagInput" list="site-tags" placeholder="Add an existing tag" value={tagInput} onChange={e => setTagInput(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleAddTag(); } }} />
+                                <datalist id="site-tags">{inventory.tags.map(term => <option key={term.id} value={term.name} />)}</datalist>
+                                <button type="button" className="btn btn-secondary btn-small" onClick={handleAddTag}>Add</button>
+                            </div>
+                        </div>
+                    )}
+                    <p className="help-text">Highlighted terms were suggested from your existing categories and tags. They are sent to WordPress only when you publish this post.</p>
+                </>
+            )}
         </div>
     );
 };
 
-const SingleArticleGenerator = ({ onGenerate, isGenerating }) => {
-    const [topic, setTopic] = useState('');
+/**
+ * The post's language, its translations with their hreflang codes, and the action that
+ * writes a localized version.
+ */
+const LanguagesPanel = ({ post, posts, defaultLocale, multilingualPlugin, onChangeLocale, onTranslate }) => {
+    const [targetLocale, setTargetLocale] = useState('');
+    const [translation, setTranslation] = useState<{ busy: boolean; error: string | null }>({ busy: false, error: null });
+    const locale = post.locale || defaultLocale;
+    const group = post.translationGroup ? posts.filter(p => p.translationGroup === post.translationGroup) : [post];
+    const target = canonicalLocale(targetLocale);
+    const alreadyTranslated = target && group.some(p => canonicalLocale(p.locale || defaultLocale) === target);
 
-    const handleSubmit = (e) => {
-        e.preventDefault();
-        if (topic.trim() && !isGenerating) {
-            onGenerate(topic);
-        }
+    const handleTranslate = () => {
+        setTranslation({ busy: true, error: null });
+        onTranslate(post, target)
+            .then(() => setTranslation({ busy: false, error: null }))
+            .catch(error => setTranslation({ busy: false, error: error.message }));
     };
 
     return (
-        <div className="single-article-hub">
-            <h2>Single Article Generator</h2>
-            <p>Enter your target keyword or a full blog post title below. The AI will generate a comprehensive, 1800+ word article designed to rank #1, complete with SEO metadata and schema.</p>
-            <form onSubmit={handleSubmit}>
-                <div className="form-group">
-                    <label htmlFor="newTopic">Topic or Keyword</label>
-                    <input
-                        type="text"
-                        id="newTopic"
-                        value={topic}
-                        onChange={(e) => setTopic(e.target.value)}
-                        placeholder="e.g., How to start affiliate marketing in 2025"
-                        disabled={isGenerating}
-                    />
+        <div className="languages-panel">
+            <div className="form-group">
+                <label htmlFor="postLocale">Language of this post</label>
+                <select id="postLocale" value={locale} onChange={e => onChangeLocale(e.target.value)}>
+                    {[...new Set([locale, ...COMMON_LOCALES])].map(code => <option key={code} value={code}>{localeLabel(code)} ({code})</option>)}
+                </select>
+            </div>
+            <h4>Translations</h4>
+            <table className="content-table translations-table">
+                <thead><tr><th>hreflang</th><th>Title</th><th>WordPress</th></tr></thead>
+                <tbody>
+                    {group.map(p => {
+                        const isPublished = typeof p.id === 'number' && p.id > 0;
+                        return (
+                            <tr key={p.id} className={p === post ? 'selected' : ''}>
+                                <td><code>{p.locale || defaultLocale}</code></td>
+                                <td>{p.title}{p === post && ' (this post)'}</td>
+                                <td>{isPublished ? (p.url ? <a href={p.url} target="_blank" rel="noopener noreferrer">Published</a> : 'Published') : 'Not sent yet'}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+            <p className="help-text">
+                {multilingualPlugin === 'none'
+                    ? 'No WPML or Polylang was found on this site. Translations are published as separate posts and no hreflang tags link them.'
+                    : multilingualPlugin && MULTILINGUAL_PLUGINS[multilingualPlugin].linksTranslations
+                        ? `${MULTILINGUAL_PLUGINS[multilingualPlugin].label} files each version under its language and links it to the translations already in WordPress, so hreflang tags point between them. Publish the source first for the quickest link.`
+                        : multilingualPlugin
+                            ? `${MULTILINGUAL_PLUGINS[multilingualPlugin].label} files each version under its language. Link the versions to each other in ${MULTILINGUAL_PLUGINS[multilingualPlugin].label} after publishing so hreflang tags point between them.`
+                            : 'WPML or Polylang is detected the first time you publish. Polylang links the translations and outputs hreflang tags for them; with WPML, link them in WPML after publishing.'}
+            </p>
+            <div className="form-group">
+                <label htmlFor="targetLocale">Translate into</label>
+                <div className="term-add">
+                    <input type="text" id="targetLocale" list="translation-locales" placeholder="e.g. es-ES" value={targetLocale} onChange={e => setTargetLocale(e.target.value)} />
+                    <datalist id="translation-locales">{COMMON_LOCALES.filter(code => code !== locale).map(code => <option key={code} value={code}>{localeLabel(code)}</option>)}</datalist>
+                    <button type="button" className="btn btn-small" onClick={handleTranslate} disabled={!target || translation.busy || !post.content}>{translation.busy ? 'Translating...' : 'Translate'}</button>
                 </div>
-                <button type="submit" className="btn" disabled={!topic.trim() || isGenerating}>
-                    {isGenerating ? <div className="spinner" style={{width: '24px', height: '24px', borderWidth: '2px'}}></div> : 'Generate Article'}
-                </button>
-            </form>
+                {target && <p className="help-text">{alreadyTranslated ? `There is already a ${localeLabel(target)} version; translating again adds another.` : `Writes a ${localeLabel(target)} version with localized meta and schema, then opens it for review.`}</p>}
+                {translation.error && <div className="result error">{translation.error}</div>}
+            </div>
         </div>
     );
 };
 
+/**
+ * Picks the post's featured image: generated with the provider's image model or chosen from
+ * the site's media library. Alt text and a caption are written for it by the text model.
+ */
+const MediaPanel = ({ post, canGenerate, providerLabel, onChange, onGenerateImage, onSearchMedia, onDescribeImage }) => {
+    const image: FeaturedImage | null = post.featuredImage || null;
+    const defaultPrompt = `Editorial featured image for a blog post titled "${post.title}". Photographic, natural light, a clean composition that still works when cropped to a wide banner. No text, letters, logos or watermarks.`;
+    const [prompt, setPrompt] = useState(defaultPrompt);
+    const [search, setSearch] = useState('');
+    const [library, setLibrary] = useState<{ items: WpMediaItem[] | null; loading: boolean }>({ items: null, loading: false });
+    const [busy, setBusy] = useState<'generating' | 'describing' | null>(null);
+    const [error, setError] = useState<string | null>(null);
 
-const ContentClusterStrategist = ({ onGenerate, onGeneratePillars, onGenerateClusters, dispatch, state }) => {
-    const { isGeneratingPillars, pillarTopics, selectedPillar, isGeneratingClusters, clusterPlan, loading } = state;
+    useEffect(() => setPrompt(defaultPrompt), [post.id]);
 
-    if (pillarTopics.length === 0) {
-        return (
-            <div className="strategist-hub">
-                <h2>AI Content Strategist</h2>
-                <p>Let our AI analyze your entire sitemap to identify core "Pillar Topics." This forms the foundation of a powerful, interconnected content strategy that builds topical authority and dominates search rankings.</p>
-                <button className="btn" onClick={onGeneratePillars} disabled={isGeneratingPillars}>
-                    {isGeneratingPillars ? <div className="spinner" style={{width: '24px', height: '24px', borderWidth: '2px'}}></div> : 'Analyze Website & Identify Pillar Topics'}
-                </button>
-            </div>
-        );
-    }
+    const describe = async (chosen: FeaturedImage) => {
+        setBusy('describing');
+        try {
+            const text = await onDescribeImage(post, chosen.description);
+            onChange({ ...chosen, ...text });
+        } catch (err) {
+            setError(`Could not write the alt text: ${err.message}`);
+        } finally {
+            setBusy(null);
+        }
+    };
 
-    const hasClusterPlan = clusterPlan.existingAssets.length > 0 || clusterPlan.newOpportunities.length > 0;
+    const handleGenerate = async () => {
+        setBusy('generating');
+        setError(null);
+        try {
+            const dataUrl = await onGenerateImage(post, prompt);
+            const generated: FeaturedImage = { source: 'generated', dataUrl, description: prompt, altText: '', caption: '', inline: image?.inline ?? false };
+            onChange(generated);
+            await describe(generated);
+        } catch (err) {
+            setError(err.message);
+            setBusy(null);
+        }
+    };
+
+    const handleSearch = () => {
+        setLibrary({ items: library.items, loading: true });
+        setError(null);
+        onSearchMedia(search)
+            .then(items => setLibrary({ items, loading: false }))
+            .catch(err => { setLibrary({ items: null, loading: false }); setError(err.message); });
+    };
+
+    const handlePick = (item: WpMediaItem) => {
+        setError(null);
+        const picked: FeaturedImage = {
+            source: 'library', mediaId: item.id, sourceUrl: item.sourceUrl, description: item.title || item.altText,
+            altText: item.altText, caption: item.caption, libraryAltText: item.altText, libraryCaption: item.caption, inline: image?.inline ?? false,
+        };
+        onChange(picked);
+        if (!item.altText) describe(picked);
+    };
 
     return (
-        <div className="strategist-hub" style={{textAlign: 'left'}}>
-            <h2 style={{textAlign: 'center'}}>Step 1: Select Your Pillar Topic</h2>
-            <p style={{textAlign: 'center'}}>These are the core content pillars AI has identified for your site. Choose one to build out a "content cluster" of supporting articles.</p>
-            <div className="pillar-grid">
-                {pillarTopics.map((pillar, index) => (
-                    <div 
-                        className={`pillar-card ${selectedPillar?.title === pillar.title ? 'selected' : ''}`} 
-                        key={index} 
-                        onClick={() => dispatch({ type: 'SET_SELECTED_PILLAR', payload: pillar })}
-                    >
-                        <h4>{pillar.title}</h4>
-                        <p>{pillar.description}</p>
+        <div className="media-panel">
+            {image ? (
+                <div className="featured-image">
+                    <img src={image.sourceUrl || image.dataUrl} alt={image.altText} />
+                    <div>
+                        <p className="help-text">{image.source === 'generated' && !image.mediaId ? 'Generated. It is uploaded to the media library when you publish.' : `Media library item #${image.mediaId}.`}</p>
+                        <div className="form-group"><div className="label-wrapper"><label htmlFor="imageAlt">Alt Text</label><span className="char-counter">{image.altText.length} / 125</span></div><input type="text" id="imageAlt" value={image.altText} onChange={e => onChange({ ...image, altText: e.target.value })} placeholder={busy === 'describing' ? 'Writing...' : ''} /></div>
+                        <div className="form-group"><label htmlFor="imageCaption">Caption</label><input type="text" id="imageCaption" value={image.caption} onChange={e => onChange({ ...image, caption: e.target.value })} /></div>
+                        <div className="checkbox-group"><input type="checkbox" id="imageInline" checked={image.inline} onChange={e => onChange({ ...image, inline: e.target.checked })} /><label htmlFor="imageInline">Also place it in the content under the introduction</label></div>
+                        <div className="button-group">
+                            <button type="button" className="btn btn-secondary btn-small" onClick={() => describe(image)} disabled={!!busy}>{busy === 'describing' ? 'Writing...' : 'Rewrite Alt Text & Caption'}</button>
+                            <button type="button" className="btn btn-secondary btn-small" onClick={() => onChange(null)} disabled={!!busy}>Remove</button>
+                        </div>
                     </div>
-                ))}
-            </div>
+                </div>
+            ) : <p className="help-text">No featured image yet. Generate one or pick one from your media library.</p>}
+            {error && <div className="result error">{error}</div>}
 
-            {selectedPillar && (
-                <div className="cluster-section">
-                    <h2 style={{textAlign: 'center'}}>Step 2: Generate Your Topical Cluster Plan</h2>
-                    <p style={{textAlign: 'center'}}>Analyze existing content and identify gaps to create a comprehensive cluster around <strong>{selectedPillar.title}</strong>. This prevents keyword cannibalization and ensures a cohesive strategy.</p>
-                    <div style={{display: 'flex', justifyContent: 'center'}}>
-                        <button className="btn" onClick={() => onGenerateClusters(selectedPillar.title)} disabled={isGeneratingClusters}>
-                            {isGeneratingClusters ? <div className="spinner" style={{width: '24px', height: '24px', borderWidth: '2px'}}></div> : 'Generate Cluster Plan'}
-                        </button>
-                    </div>
-                    
-                    {hasClusterPlan && (
-                        <div className="cluster-plan">
-                             <h3 style={{textAlign: 'center', marginTop: '2.5rem'}}>Step 3: Execute Your Content Plan</h3>
-                             
-                             {clusterPlan.existingAssets.length > 0 && (
-                                <div className="plan-section">
-                                    <h4 className="plan-section-title">Optimize Existing Content</h4>
-                                    {clusterPlan.existingAssets.map((asset, index) => (
-                                        <div className="cluster-item" key={`existing-${index}`}>
-                                             <div className="cluster-item-content">
-                                                <h5><span className="cluster-item-badge existing">Existing Asset</span>{slugToTitle(asset.url)}</h5>
-                                                <p><strong>Suggestion:</strong> {asset.suggestion}</p>
-                                            </div>
-                                            <button className="btn btn-secondary btn-small" onClick={() => onGenerate({ url: asset.url, title: slugToTitle(asset.url) })} disabled={loading}>
-                                                {loading ? 'Busy...' : 'Rewrite Article'}
-                                            </button>
-                                        </div>
-                                    ))}
-                                </div>
-                             )}
+            <h4>Generate</h4>
+            {canGenerate ? (
+                <div className="form-group">
+                    <textarea id="imagePrompt" className="meta-description-input" value={prompt} onChange={e => setPrompt(e.target.value)} />
+                    <button type="button" className="btn btn-small" onClick={handleGenerate} disabled={!!busy || !prompt.trim()}>{busy === 'generating' ? 'Generating...' : 'Generate Image'}</button>
+                </div>
+            ) : <p className="help-text">{providerLabel} cannot generate images. Switch to Google Gemini or OpenAI to generate one, or pick one from the media library.</p>}
 
-                            {clusterPlan.newOpportunities.length > 0 && (
-                                <div className="plan-section">
-                                    <h4 className="plan-section-title">Fill Content Gaps</h4>
-                                    {clusterPlan.newOpportunities.map((opportunity, index) => (
-                                       <div className="cluster-item" key={`new-${index}`}>
-                                            <div className="cluster-item-content">
-                                                <h5><span className="cluster-item-badge new">New Opportunity</span>{opportunity.title}</h5>
-                                                <p>{opportunity.description}</p>
-                                            </div>
-                                            <button className="btn btn-secondary btn-small" onClick={() => onGenerate(opportunity.title, selectedPillar.title)} disabled={loading}>
-                                                {loading ? 'Busy...' : 'Write Article'}
-                                            </button>
-                                        </div>
-                                    ))}
-                                </div>
-                            )}
-                        </div>
-                    )}
+            <h4>Media Library</h4>
+            <div className="term-add">
+                <input type="search" placeholder="Search your images" value={search} onChange={e => setSearch(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); handleSearch(); } }} />
+                <button type="button" className="btn btn-secondary btn-small" onClick={handleSearch} disabled={library.loading}>{library.loading ? 'Searching...' : 'Search'}</button>
+            </div>
+            {library.items && (library.items.length ? (
+                <div className="media-grid">
+                    {library.items.map(item => (
+                        <button key={item.id} type="button" className={`media-item ${image?.mediaId === item.id ? 'selected' : ''}`} onClick={() => handlePick(item)} title={item.title}>
+                            <img src={item.thumbnailUrl} alt={item.altText} loading="lazy" />
+                        </button>
+                    ))}
                 </div>
-            )}
+            ) : <p className="help-text">No images found.</p>)}
         </div>
     );
 };
 
+/**
+ * Shows a single article while it is written: the HTML received so far, progress toward
+ * the voice profile's target length, and a Cancel button that aborts the request.
+ */
+const LiveGenerationPanel = ({ generation, onCancel }) => {
+    const [now, setNow] = useState(Date.now());
+    const previewRef = useRef<HTMLDivElement>(null);
+    const html = useMemo(() => readPartialJsonString(generation.text, 'content'), [generation.text]);
+    const words = useMemo(() => html ? countWords(decodeHtmlEntities(html)) : 0, [html]);
+    // Never show 100% before the response is complete; articles often run past the target.
+    const percent = Math.min(99, Math.round((words / generation.targetWords) * 100));
+    const elapsed = Math.max(0, Math.round((now - generation.startedAt) / 1000));
 
-const ExistingContentTable = ({ state, dispatch, onGenerateContent, onGenerateAll, onFetchExistingPosts }) => {
-    const { posts, loading, generationStatus, selectedPostIds, searchTerm, sortConfig, bulkGenerationProgress } = state;
-    const now = useMemo(() => new Date().getTime(), []);
-    
-    const postsWithStale = useMemo(() => posts.map(p => ({
-        ...p,
-        isStale: p.modified ? (now - new Date(p.modified).getTime()) > 365 * 24 * 60 * 60 * 1000 : false
-    })), [posts, now]);
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
 
-    const filteredPosts = useMemo(() => {
-        if (!searchTerm) return postsWithStale;
-        return postsWithStale.filter(post => 
-            post.title.toLowerCase().includes(searchTerm.toLowerCase())
-        );
-    }, [postsWithStale, searchTerm]);
+    useEffect(() => {
+        if (previewRef.current) previewRef.current.scrollTop = previewRef.current.scrollHeight;
+    }, [html]);
 
-    const sortedPosts = useMemo(() => {
-        const sorted = [...filteredPosts];
-        if (sortConfig.key) {
-            sorted.sort((a, b) => {
-                const aVal = a[sortConfig.key];
-                const bVal = b[sortConfig.key];
-                
-                if (aVal == null) return 1;
-                if (bVal == null) return -1;
+    const status = !generation.streaming ? 'Writing... this provider sends the article once it is finished.'
+        : html === null ? (generation.text ? 'Writing the title and meta data...' : 'Researching and planning the article...')
+        : `About ${words.toLocaleString()} of ${generation.targetWords.toLocaleString()} words (${percent}%)`;
 
-                if (aVal < bVal) return sortConfig.direction === 'asc' ? -1 : 1;
-                if (aVal > bVal) return sortConfig.direction === 'asc' ? 1 : -1;
-                return 0;
-            });
-        }
-        return sorted;
-    }, [filteredPosts, sortConfig]);
-    
-    const handleSort = (key) => {
-        const direction = sortConfig.key === key && sortConfig.direction === 'asc' ? 'desc' : 'asc';
-        dispatch({ type: 'SET_SORT_CONFIG', payload: { key, direction } });
-    };
-    
-    const handleSelectAll = () => {
-        const allVisibleIds = sortedPosts.map(p => p.id);
-        dispatch({ type: 'SELECT_ALL_VISIBLE', payload: allVisibleIds });
-    };
-    
-    const handleSelectStale = () => {
-        const staleIds = sortedPosts.filter(p => p.isStale).map(p => p.id);
-        dispatch({ type: 'SELECT_STALE', payload: staleIds });
-    };
+    return (
+        <div className="modal-overlay">
+            <div className="modal-content live-generation">
+                <h3>Writing "{generation.title}"</h3>
+                <div className="bulk-progress-bar">
+                    <div className="bulk-progress-bar-fill" style={{ width: `${html === null ? 0 : percent}%` }}></div>
+                    <span className="bulk-progress-bar-text">{status} · {Math.floor(elapsed / 60)}:{String(elapsed % 60).padStart(2, '0')}</span>
+                </div>
+                <div className="live-preview live-generation-preview" ref={previewRef}>
+                    {html ? <div dangerouslySetInnerHTML={{ __html: html }} /> : <p className="help-text">The article appears here as it is written.</p>}
+                </div>
+                <div className="button-group">
+                    <button className="btn btn-secondary btn-small" onClick={onCancel}>Cancel</button>
+                </div>
+            </div>
+        </div>
+    );
+};
 
-    const allVisibleSelected = sortedPosts.length > 0 && sortedPosts.every(p => selectedPostIds.has(p.id));
-    const staleCount = useMemo(() => postsWithStale.filter(p => p.isStale).length, [postsWithStale]);
-    
-    const generatableCount = useMemo(() => {
-        return [...selectedPostIds].filter(id => {
-            const status = generationStatus[String(id)];
-            return status !== 'done' && status !== 'generating';
-        }).length;
-    }, [selectedPostIds, generationStatus]);
+/**
+ * A block-style visual editor for a post's HTML. Each top-level element is a block that
+ * is edited in place; changes are written back to the HTML when a block loses focus.
+ */
+const BlockEditor = ({ html, onChange }) => {
+    const blocks = useMemo(() => parseEditorBlocks(html), [html]);
+    const blockHtml = blocks.map(block => block.html);
+    const commit = (next: string[]) => onChange(next.filter(Boolean).join('\n'));
 
-    const isGenerateAllDisabled = bulkGenerationProgress.visible || generatableCount === 0;
+    const updateBlock = (index: number, value: string) => {
+        if (value !== blockHtml[index]) commit(blockHtml.map((block, i) => (i === index ? value.trim() : block)));
+    };
+    const moveBlock = (index: number, offset: number) => {
+        const next = [...blockHtml];
+        [next[index], next[index + offset]] = [next[index + offset], next[index]];
+        commit(next);
+    };
+    const insertParagraph = (index: number) => commit([...blockHtml.slice(0, index + 1), '<p></p>', ...blockHtml.slice(index + 1)]);
 
     return (
-         <div className="step-container full-width">
-            {posts.length === 0 && !loading ? (
-                <div className="fetch-posts-prompt">
-                    <p>Ready to audit and supercharge your existing content?</p>
-                    <button className="btn" onClick={onFetchExistingPosts} disabled={loading}>
-                        {loading ? <div className="spinner" style={{width: '24px', height: '24px', borderWidth: '2px'}}></div> : 'Fetch All Posts for Audit'}
-                    </button>
-                </div>
-            ) : (
-                <>
-                    <div className="table-toolbar">
-                        <input
-                           type="search"
-                           className="table-search-input"
-                           placeholder="Search posts by title..."
-                           value={searchTerm}
-                           onChange={e => dispatch({ type: 'SET_SEARCH_TERM', payload: e.target.value })}
-                        />
-                        <div className="selection-toolbar-actions">
-                            {staleCount > 0 && <button className="btn btn-secondary btn-small" onClick={handleSelectStale}>Select {staleCount} Stale Posts</button>}
-                            {selectedPostIds.size > 0 && (
-                                <>
-                                    <span>{selectedPostIds.size} post{selectedPostIds.size !== 1 ? 's' : ''} selected</span>
-                                    <button className="btn btn-secondary btn-small" onClick={() => dispatch({ type: 'DESELECT_ALL' })}>Deselect All</button>
-                                </>
-                            )}
-                            <button className="btn btn-small" onClick={onGenerateAll} disabled={isGenerateAllDisabled}>
-                                {bulkGenerationProgress.visible ? 'Generating...' : `Generate for ${generatableCount} Selected`}
-                            </button>
-                        </div>
-                    </div>
-                    
-                    {bulkGenerationProgress.visible && (
-                        <div className="bulk-progress-bar">
-                            <div 
-                                className="bulk-progress-bar-fill" 
-                                style={{ width: `${(bulkGenerationProgress.current / bulkGenerationProgress.total) * 100}%` }}
-                            ></div>
-                            <span className="bulk-progress-bar-text">
-                                Generating {bulkGenerationProgress.current} of {bulkGenerationProgress.total} posts...
-                            </span>
+        <div className="block-editor">
+            {blocks.map((block, index) => {
+                const tag = block.html.match(/^<(\w+)/)?.[1].toLowerCase();
+                return (
+                    <div key={`${index}-${blocks.length}`} className={`block-editor-block block-${block.type}`}>
+                        <div className="block-editor-toolbar">
+                            {EDITOR_TEXT_TAGS.includes(tag)
+                                ? (
+                                    <select value={tag} onChange={e => updateBlock(index, changeBlockTag(block.html, e.target.value))} aria-label="Block type">
+                                        <option value="p">Paragraph</option>
+                                        <option value="h2">Heading 2</option>
+                                        <option value="h3">Heading 3</option>
+                                        <option value="h4">Heading 4</option>
+                                    </select>
+                                )
+                                : <span className="block-editor-type">{EDITOR_BLOCK_LABELS[block.type]}</span>}
+                            <button type="button" className="btn btn-secondary btn-small" onClick={() => moveBlock(index, -1)} disabled={index === 0} title="Move up">↑</button>
+                            <button type="button" className="btn btn-secondary btn-small" onClick={() => moveBlock(index, 1)} disabled={index === blocks.length - 1} title="Move down">↓</button>
+                            <button type="button" className="btn btn-secondary btn-small" onClick={() => insertParagraph(index)} title="Add a paragraph below">+</button>
+                            <button type="button" className="btn btn-secondary btn-small" onClick={() => commit(blockHtml.filter((_, i) => i !== index))} title="Delete block">×</button>
                         </div>
-                    )}
-
-                    <div className="table-container">
-                        <table className="content-table mobile-cards">
-                            <thead>
-                                <tr>
-                                    <th className="checkbox-cell"><input type="checkbox" onChange={handleSelectAll} checked={allVisibleSelected} /></th>
-                                    <th className="sortable" onClick={() => handleSort('title')}>
-                                        Title
-                                        {sortConfig.key === 'title' && <span className={`sort-icon ${sortConfig.direction}`}></span>}
-                                    </th>
-                                    <th className="sortable" onClick={() => handleSort('modified')}>
-                                        Last Updated
-                                        {sortConfig.key === 'modified' && <span className={`sort-icon ${sortConfig.direction}`}></span>}
-                                    </th>
-                                    <th>Status</th>
-                                    <th className="actions-cell">Actions</th>
-                                </tr>
-                            </thead>
-                            <tbody>
-                                {loading && posts.length === 0 ? (
-                                    <tr><td colSpan={5} style={{textAlign: 'center', padding: '2rem'}}><div className="spinner" style={{width: '32px', height: '32px', margin: '0 auto'}}></div></td></tr>
-                                ) : sortedPosts.map(post => {
-                                    const status = generationStatus[String(post.id)] || 'idle';
-                                    const isSelected = selectedPostIds.has(post.id);
-                                    return (
-                                        <tr key={post.id} className={`${isSelected ? 'selected' : ''} status-row-${status}`}>
-                                            <td className="checkbox-cell">
-                                                <input
-                                                    type="checkbox"
-                                                    checked={isSelected}
-                                                    onChange={() => dispatch({ type: 'TOGGLE_POST_SELECTION', payload: post.id })}
-                                                />
-                                            </td>
-                                            <td data-label="Title"><a href={post.url} target="_blank" rel="noopener noreferrer">{post.title}</a></td>
-                                            <td data-label="Last Updated">
-                                                {post.modified ? new Date(post.modified).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }) : 'N/A'}
-                                                {post.isStale && <span className="stale-badge">Needs Refresh</span>}
-                                            </td>
-                                            <td data-label="Status">
-                                                <div className={`status status-${status}`}>
-                                                    <span className="status-dot"></span>
-                                                    {status === 'generating' ? 'Generating...' : status === 'done' ? 'Generated' : status === 'error' ? 'Error' : 'Ready to Update'}
-                                                </div>
-                                            </td>
-                                            <td data-label="Actions" className="actions-cell">
-                                                {status !== 'done' && (
-                                                    <button className="btn btn-secondary btn-small" onClick={() => onGenerateContent(post)} disabled={status === 'generating' || bulkGenerationProgress.visible}>
-                                                        {status === 'generating' ? <div className="spinner" style={{width: '18px', height: '18px'}}></div> : 'Generate'}
-                                                    </button>
-                                                )}
-                                                {status === 'done' && (
-                                                    <button className="btn btn-small" onClick={() => dispatch({ type: 'OPEN_REVIEW_MODAL', payload: posts.findIndex(p => p.id === post.id) })}>
-                                                        Review
-                                                    </button>
-                                                )}
-                                            </td>
-                                        </tr>
-                                    );
-                                })}
-                            </tbody>
-                        </table>
+                        <div
+                            className="block-editor-content live-preview"
+                            contentEditable
+                            suppressContentEditableWarning
+                            dangerouslySetInnerHTML={{ __html: block.html }}
+                            onBlur={e => updateBlock(index, e.currentTarget.innerHTML)}
+                        />
                     </div>
-                </>
-            )}
-         </div>
+                );
+            })}
+            {!blocks.length && <button type="button" className="btn btn-secondary btn-small" onClick={() => commit(['<p></p>'])}>Add a paragraph</button>}
+        </div>
     );
 };
 
-const ContentStep = ({ state, dispatch, onGenerateContent, onFetchExistingPosts, onGenerateAll, onGeneratePillarTopics, onGenerateClusterTopics }) => {
-    const { contentMode } = state;
+/**
+ * The article split into its sections. Each one, and the meta title and description, can
+ * be rewritten on its own with an optional instruction.
+ */
+const SectionsPanel = ({ post, onRegenerate }) => {
+    const sections = useMemo(() => splitContentSections(post.content), [post.content]);
+    const [instructions, setInstructions] = useState<Record<string, string>>({});
+    const [busy, setBusy] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    /** A rewrite that arrived after its section was edited, kept for the user to copy from. */
+    const [unapplied, setUnapplied] = useState<string | null>(null);
 
-    return (
-        <div className="step-container">
-            <div className="content-mode-toggle">
-                <button className={contentMode === 'cluster' ? 'active' : ''} onClick={() => dispatch({ type: 'SET_CONTENT_MODE', payload: 'cluster' })}>
-                    Content Cluster Strategist
-                </button>
-                 <button className={contentMode === 'single' ? 'active' : ''} onClick={() => dispatch({ type: 'SET_CONTENT_MODE', payload: 'single' })}>
-                    Single Article
-                </button>
-                <button className={contentMode === 'update' ? 'active' : ''} onClick={() => dispatch({ type: 'SET_CONTENT_MODE', payload: 'update' })}>
-                    Update Existing Content
-                </button>
-            </div>
-            
-            {contentMode === 'cluster' && (
-                <ContentClusterStrategist
-                    state={state}
-                    dispatch={dispatch}
-                    onGenerate={onGenerateContent}
-                    onGeneratePillars={onGeneratePillarTopics}
-                    onGenerateClusters={onGenerateClusterTopics}
-                />
-            )}
+    useEffect(() => { setInstructions({}); setError(null); setUnapplied(null); }, [post.id]);
 
-            {contentMode === 'single' && (
-                 <SingleArticleGenerator
-                    onGenerate={onGenerateContent}
-                    isGenerating={state.loading}
-                 />
-            )}
+    const handleRegenerate = async (key: string, section: ContentSection | null) => {
+        setBusy(key);
+        setError(null);
+        setUnapplied(null);
+        try {
+            await onRegenerate(post, section, instructions[key] || '');
+            setInstructions(current => ({ ...current, [key]: '' }));
+        } catch (err) {
+            setError(`${section ? section.label : 'Meta title and description'}: ${(err instanceof Error) ? err.message : String(err)}`);
+            if (err instanceof Error && 'rewrittenHtml' in err) setUnapplied(String(err.rewrittenHtml));
+        } finally {
+            setBusy(null);
+        }
+    };
 
-            {contentMode === 'update' && (
-                <ExistingContentTable
-                    state={state}
-                    dispatch={dispatch}
-                    onGenerateContent={onGenerateContent}
-                    onGenerateAll={onGenerateAll}
-                    onFetchExistingPosts={onFetchExistingPosts}
+    const renderRow = (key: string, label: string, detail: string, section: ContentSection | null) => (
+        <li key={key} className="section-row">
+            <div className="section-row-header"><strong>{label}</strong><small>{detail}</small></div>
+            <div className="term-add">
+                <input
+                    type="text"
+                    placeholder='Instruction (optional), e.g. "add a comparison table" or "less salesy"'
+                    value={instructions[key] || ''}
+                    onChange={e => setInstructions({ ...instructions, [key]: e.target.value })}
+                    onKeyDown={e => { if (e.key === 'Enter' && !busy) handleRegenerate(key, section); }}
                 />
+                <button type="button" className="btn btn-small" onClick={() => handleRegenerate(key, section)} disabled={!!busy}>{busy === key ? 'Rewriting...' : 'Regenerate'}</button>
+            </div>
+        </li>
+    );
+
+    return (
+        <div className="sections-panel">
+            <p className="help-text">Rewrite one part at a time. The rest of the article stays exactly as it is, and rewriting the FAQ updates the FAQPage schema to match.</p>
+            {error && <div className="result error">{error}</div>}
+            {unapplied && (
+                <div className="form-group">
+                    <label htmlFor="unappliedRewrite">The rewrite that was not applied</label>
+                    <textarea id="unappliedRewrite" className="prompt-template-body" value={unapplied} readOnly />
+                    <button type="button" className="btn btn-secondary btn-small" onClick={() => setUnapplied(null)}>Dismiss</button>
+                </div>
             )}
+            <ol className="section-list">
+                {renderRow('meta', 'Meta title and description', `${(post.metaTitle || '').length}/60 and ${(post.metaDescription || '').length}/160 characters`, null)}
+                {sections.map((section, index) => renderRow(
+                    `${index}-${section.kind}`,
+                    section.label,
+                    `${SECTION_KIND_LABELS[section.kind]} · ${countWords(decodeHtmlEntities(section.html))} words`,
+                    section
+                ))}
+            </ol>
+            {!sections.length && <p className="help-text">This post has no content yet.</p>}
         </div>
     );
 };
 
-const ReviewModal = ({ state, dispatch, onPublish, onClose }) => {
-    const { posts, loading, publishingStatus, currentReviewIndex } = state;
+const ReviewModal = ({ state, dispatch, onPublish, onRollback, onLoadOriginal, onEnrichSchema, onCheckLinks, onLoadInventory, onTranslate, onGenerateImage, onSearchMedia, onDescribeImage, onRegenerateSection, onClose }) => {
+    const { posts, loading, publishingStatus, currentReviewIndex, snapshots, wpUrl, qualityThreshold, sitemapUrls, linkChecks } = state;
+    const inventory = state.siteInventory?.siteUrl === normalizeSiteUrl(wpUrl) ? state.siteInventory : null;
+    const multilingualPlugin = state.multilingualPlugin?.siteUrl === normalizeSiteUrl(wpUrl) ? state.multilingualPlugin.id : null;
+    const voice: VoiceProfile = { ...DEFAULT_VOICE_PROFILE, ...state.voiceProfiles[getSiteKey(wpUrl, state.sitemapUrl) || ''] };
+    const defaultLocale = voice.locale;
+    const seoPlugin = state.seoPlugin?.siteUrl === normalizeSiteUrl(wpUrl) ? state.seoPlugin : null;
+    const seoPluginLabel = seoPlugin && seoPlugin.id !== 'none' ? SEO_PLUGINS[seoPlugin.id].label : null;
     const [activeTab, setActiveTab] = useState('editor');
+    const [editorMode, setEditorMode] = useState<'visual' | 'html'>('visual');
+    const [publishMode, setPublishMode] = useState<PublishStatus>('publish');
+    const [publishDate, setPublishDate] = useState('');
+    const [originalLoad, setOriginalLoad] = useState<{ loading: boolean; error: string | null }>({ loading: false, error: null });
     const currentPost = posts[currentReviewIndex];
+    const canCompare = !!currentPost?.url;
+    const htmlOnly = hasBlockMarkup(currentPost?.content);
+    const qualityReport = useMemo(
+        () => currentPost ? analyzeContentQuality(currentPost, wpUrl, voice) : null,
+        [currentPost?.content, currentPost?.title, currentPost?.metaTitle, currentPost?.metaDescription, currentPost?.focusKeyword, wpUrl, voice.targetLength, voice.readingLevel]
+    );
+    const schemaIssues = useMemo(
+        () => currentPost ? validateSchemaMarkup(currentPost.schemaMarkup, currentPost.content) : [],
+        [currentPost?.schemaMarkup, currentPost?.content]
+    );
+    const schemaErrorCount = schemaIssues.filter(issue => issue.severity === 'error').length;
+    const siteLinkIndex = useMemo(() => buildSiteLinkIndex(wpUrl, sitemapUrls, posts), [wpUrl, sitemapUrls, posts.length]);
+    const linkReport = useMemo(
+        () => currentPost ? analyzeInternalLinks(currentPost.content, siteLinkIndex.hosts, siteLinkIndex.known) : null,
+        [currentPost?.content, siteLinkIndex]
+    );
+    const externalLinks = useMemo(() => currentPost ? extractExternalLinks(currentPost.content, siteLinkIndex.hosts) : [], [currentPost?.content, siteLinkIndex]);
+    const brokenLinkCount = externalLinks.filter(url => linkChecks[url] && !linkChecks[url].pending && !linkChecks[url].ok).length;
+
+    useEffect(() => {
+        if (activeTab !== 'changes' || !canCompare || currentPost.original || originalLoad.loading) return;
+        setOriginalLoad({ loading: true, error: null });
+        onLoadOriginal(currentPost)
+            .then(() => setOriginalLoad({ loading: false, error: null }))
+            .catch(error => setOriginalLoad({ loading: false, error: error.message }));
+    }, [activeTab, currentPost?.id]);
     
     useEffect(() => {
         setActiveTab('editor');
+        setOriginalLoad({ loading: false, error: null });
+        // Articles written from the content calendar arrive with their planned date.
+        const plannedDate = currentPost?.scheduledDate ? new Date(currentPost.scheduledDate) : null;
+        const hasFutureDate = plannedDate && plannedDate.getTime() > Date.now();
+        setPublishMode(hasFutureDate ? 'future' : 'publish');
+        setPublishDate(toDateTimeInputValue(hasFutureDate ? plannedDate : new Date(Date.now() + 24 * 60 * 60 * 1000)));
     }, [currentReviewIndex]);
     
     if (!currentPost) return null;
@@ -782,6 +5357,15 @@ const ReviewModal = ({ state, dispatch, onPublish, onClose }) => {
     const updatePostField = (field, value) => {
         dispatch({ type: 'UPDATE_POST_FIELD', payload: { index: currentReviewIndex, field, value } });
     };
+    const isUpdate = typeof currentPost.id === 'number' && currentPost.id > 0;
+    const latestSnapshot = isUpdate ? getLatestSnapshot(snapshots, wpUrl, currentPost.id) : undefined;
+    const belowThreshold = qualityReport.score < qualityThreshold.minScore;
+    const publishBlocked = belowThreshold && qualityThreshold.mode === 'block';
+
+    const handlePublishClick = () => {
+        if (belowThreshold && !window.confirm(`This post scores ${qualityReport.score}, below your minimum of ${qualityThreshold.minScore}. Send it to WordPress anyway?`)) return;
+        onPublish(currentPost, { status: publishMode, date: publishMode === 'future' ? new Date(publishDate) : null });
+    };
 
     return (
         <div className="modal-overlay" onClick={onClose}>
@@ -798,42 +5382,133 @@ const ReviewModal = ({ state, dispatch, onPublish, onClose }) => {
                 
                 <div className="review-tabs">
                     <button className={`tab-btn ${activeTab === 'editor' ? 'active' : ''}`} onClick={() => setActiveTab('editor')}>Editor</button>
+                    <button className={`tab-btn ${activeTab === 'sections' ? 'active' : ''}`} onClick={() => setActiveTab('sections')}>Sections</button>
                     <button className={`tab-btn ${activeTab === 'seo' ? 'active' : ''}`} onClick={() => setActiveTab('seo')}>SEO</button>
-                    <button className={`tab-btn ${activeTab === 'schema' ? 'active' : ''}`} onClick={() => setActiveTab('schema')}>Schema</button>
+                    <button className={`tab-btn ${activeTab === 'details' ? 'active' : ''}`} onClick={() => setActiveTab('details')}>Details</button>
+                    <button className={`tab-btn ${activeTab === 'languages' ? 'active' : ''}`} onClick={() => setActiveTab('languages')}>Languages</button>
+                    <button className={`tab-btn ${activeTab === 'media' ? 'active' : ''}`} onClick={() => setActiveTab('media')}>Media</button>
+                    <button className={`tab-btn ${activeTab === 'schema' ? 'active' : ''}`} onClick={() => setActiveTab('schema')}>Schema{schemaErrorCount > 0 && <span className="tab-score low">{schemaErrorCount}</span>}</button>
+                    <button className={`tab-btn ${activeTab === 'links' ? 'active' : ''}`} onClick={() => setActiveTab('links')}>Links{linkReport.invented.length + brokenLinkCount > 0 && <span className="tab-score low">{linkReport.invented.length + brokenLinkCount}</span>}</button>
+                    <button className={`tab-btn ${activeTab === 'quality' ? 'active' : ''}`} onClick={() => setActiveTab('quality')}>Quality <span className={`tab-score ${belowThreshold ? 'low' : ''}`}>{qualityReport.score}</span></button>
                     <button className={`tab-btn ${activeTab === 'preview' ? 'active' : ''}`} onClick={() => setActiveTab('preview')}>Live Preview</button>
+                    {canCompare && <button className={`tab-btn ${activeTab === 'changes' ? 'active' : ''}`} onClick={() => setActiveTab('changes')}>Changes</button>}
                 </div>
 
                 <div className="tab-content">
                     {activeTab === 'editor' && (
                         <>
                             <div className="form-group"><label htmlFor="postTitle">Post Title (H1)</label><input type="text" id="postTitle" value={currentPost.title || ''} onChange={e => updatePostField('title', e.target.value)} /></div>
-                            <div className="form-group"><label htmlFor="content">HTML Content</label><textarea id="content" value={currentPost.content || ''} onChange={e => updatePostField('content', e.target.value)}></textarea></div>
+                            <div className="form-group">
+                                <div className="editor-mode-tabs">
+                                    <button type="button" className={`tab-btn ${editorMode === 'visual' && !htmlOnly ? 'active' : ''}`} onClick={() => setEditorMode('visual')} disabled={htmlOnly}>Visual</button>
+                                    <button type="button" className={`tab-btn ${editorMode === 'html' || htmlOnly ? 'active' : ''}`} onClick={() => setEditorMode('html')}>HTML</button>
+                                </div>
+                                {htmlOnly && <p className="help-text">This content already uses WordPress block markup, so it can only be edited as HTML; the visual editor would drop the block comments.</p>}
+                                {editorMode === 'visual' && !htmlOnly
+                                    ? <BlockEditor html={currentPost.content || ''} onChange={value => updatePostField('content', value)} />
+                                    : <textarea id="content" aria-label="HTML Content" value={currentPost.content || ''} onChange={e => updatePostField('content', e.target.value)}></textarea>}
+                                <p className="help-text">Published as WordPress blocks: paragraphs, headings, lists, tables, images, groups, and FAQ questions as Details blocks.</p>
+                            </div>
                         </>
                     )}
+                    {activeTab === 'sections' && <SectionsPanel post={currentPost} onRegenerate={onRegenerateSection} />}
                     {activeTab === 'seo' && (
                         <>
                             <div className="form-group"><div className="label-wrapper"><label htmlFor="metaTitle">Meta Title</label><span className="char-counter">{String(currentPost.metaTitle || '').length} / 60</span></div><input type="text" id="metaTitle" value={currentPost.metaTitle || ''} onChange={e => updatePostField('metaTitle', e.target.value)} /></div>
                             <div className="form-group"><div className="label-wrapper"><label htmlFor="metaDescription">Meta Description</label><span className="char-counter">{String(currentPost.metaDescription || '').length} / 160</span></div><textarea id="metaDescription" className="meta-description-input" value={currentPost.metaDescription || ''} onChange={e => updatePostField('metaDescription', e.target.value)} /></div>
+                            <div className="form-group"><label htmlFor="focusKeyword">Focus Keyword</label><input type="text" id="focusKeyword" value={currentPost.focusKeyword || ''} onChange={e => updatePostField('focusKeyword', e.target.value)} /></div>
+                            <div className="form-group"><label htmlFor="canonicalUrl">Canonical URL</label><input type="url" id="canonicalUrl" placeholder="Leave empty to use the post's own URL" value={currentPost.canonicalUrl || ''} onChange={e => updatePostField('canonicalUrl', e.target.value)} /></div>
+                            <p className="help-text">
+                                {seoPluginLabel
+                                    ? `These fields are written through ${seoPluginLabel} and read back after publishing to confirm they were saved.`
+                                    : seoPlugin?.id === 'none'
+                                        ? 'No supported SEO plugin (Yoast SEO, Rank Math, All in One SEO or SEOPress) was found on this site, so these fields are not sent.'
+                                        : 'The SEO plugin is detected from your site the first time you publish.'}
+                            </p>
                         </>
                     )}
-                    {activeTab === 'schema' && (
-                        <div className="form-group">
-                            <label htmlFor="schemaMarkup">JSON-LD Schema Markup</label>
-                            <textarea id="schemaMarkup" value={currentPost.schemaMarkup || ''} onChange={e => updatePostField('schemaMarkup', e.target.value)}></textarea>
-                            <p className="help-text">The AI generates this automatically. It will be wrapped in `&lt;script&gt;` tags and added to the top of your post.</p>
-                        </div>
+                    {activeTab === 'details' && <PostDetailsPanel post={currentPost} inventory={inventory} onChange={updatePostField} onLoadInventory={onLoadInventory} />}
+                    {activeTab === 'languages' && (
+                        <LanguagesPanel
+                            post={currentPost}
+                            posts={posts}
+                            defaultLocale={defaultLocale}
+                            multilingualPlugin={multilingualPlugin}
+                            onChangeLocale={locale => {
+                                updatePostField('locale', locale);
+                                if (currentPost.schemaMarkup) updatePostField('schemaMarkup', setSchemaLanguage(currentPost.schemaMarkup, locale));
+                            }}
+                            onTranslate={onTranslate}
+                        />
+                    )}
+                    {activeTab === 'media' && (
+                        <MediaPanel
+                            post={currentPost}
+                            canGenerate={AI_PROVIDERS[state.aiProvider].capabilities.imageGeneration}
+                            providerLabel={AI_PROVIDERS[state.aiProvider].label}
+                            onChange={image => updatePostField('featuredImage', image)}
+                            onGenerateImage={onGenerateImage}
+                            onSearchMedia={onSearchMedia}
+                            onDescribeImage={onDescribeImage}
+                        />
                     )}
+                    {activeTab === 'schema' && <SchemaPanel post={currentPost} issues={schemaIssues} onChange={value => updatePostField('schemaMarkup', value)} onEnrich={onEnrichSchema} />}
                     {activeTab === 'preview' && (
                         <div className="live-preview">
                             <h1>{currentPost.title}</h1>
-                            <div dangerouslySetInnerHTML={{ __html: currentPost.content }} />
+                            <div dangerouslySetInnerHTML={{ __html: currentPost.featuredImage?.inline
+                                ? insertAfterIntro(currentPost.content, buildImageFigure(currentPost.featuredImage, currentPost.featuredImage.sourceUrl || currentPost.featuredImage.dataUrl))
+                                : currentPost.content }} />
+                        </div>
+                    )}
+                    {activeTab === 'links' && (
+                        <LinksPanel
+                            report={linkReport}
+                            externalLinks={externalLinks}
+                            linkChecks={linkChecks}
+                            onRemoveLinks={hrefs => updatePostField('content', unwrapLinks(currentPost.content, hrefs))}
+                            onReplaceLink={(from, to) => {
+                                const content = replaceLinkHref(currentPost.content, from, to);
+                                updatePostField('content', content);
+                                onCheckLinks(content);
+                            }}
+                            onCheckLinks={() => onCheckLinks(currentPost.content, true)}
+                        />
+                    )}
+                    {activeTab === 'quality' && <QualityScorecard report={qualityReport} threshold={qualityThreshold} dispatch={dispatch} />}
+                    {activeTab === 'changes' && (
+                        currentPost.original ? <ChangesPanel post={currentPost} />
+                            : originalLoad.error ? <div className="result error">Could not load the original post: {originalLoad.error}</div>
+                            : <div style={{textAlign: 'center', padding: '2rem'}}><div className="spinner" style={{width: '32px', height: '32px', margin: '0 auto'}}></div></div>
+                    )}
+                </div>
+
+                <div className="publish-options">
+                    <div className="form-group">
+                        <label htmlFor="publishMode">Publish Mode</label>
+                        <select id="publishMode" value={publishMode} onChange={e => setPublishMode(e.target.value as PublishStatus)}>
+                            {PUBLISH_MODES.map(mode => <option key={mode.value} value={mode.value}>{mode.label}</option>)}
+                        </select>
+                    </div>
+                    {publishMode === 'future' && (
+                        <div className="form-group">
+                            <label htmlFor="publishDate">Publish Date</label>
+                            <input type="datetime-local" id="publishDate" value={publishDate} min={toDateTimeInputValue(new Date())} onChange={e => setPublishDate(e.target.value)} />
                         </div>
                     )}
                 </div>
+                {belowThreshold && (
+                    <p className={`help-text quality-warning ${publishBlocked ? 'blocked' : ''}`}>
+                        Quality score {qualityReport.score} is below your minimum of {qualityThreshold.minScore}.{' '}
+                        {publishBlocked ? 'Fix the issues on the Quality tab or lower the minimum to publish.' : 'You will be asked to confirm before publishing.'}
+                    </p>
+                )}
+                {isUpdate && (publishMode === 'draft' || publishMode === 'pending') && <p className="help-text">Note: changing an already-published post to "{publishMode}" takes it offline until it is published again.</p>}
 
                 <div className="button-group">
                     <button className="btn btn-secondary" onClick={onClose}>Back to List</button>
-                    <button className="btn" onClick={() => onPublish(currentPost)} disabled={loading}>{loading ? <div className="spinner" style={{width: '24px', height: '24px', borderWidth: '2px'}}></div> : `Publish to WordPress`}</button>
+                    {latestSnapshot && <button className="btn btn-secondary" onClick={() => onRollback(currentPost.id)} disabled={loading} title={`Restore the version saved on ${new Date(latestSnapshot.takenAt).toLocaleString()}`}>Rollback</button>}
+                    <button className="btn" onClick={handlePublishClick} disabled={loading || publishBlocked || (publishMode === 'future' && !publishDate)} title={publishBlocked ? `Publishing is blocked below a quality score of ${qualityThreshold.minScore}.` : undefined}>{loading ? <div className="spinner" style={{width: '24px', height: '24px', borderWidth: '2px'}}></div> : PUBLISH_MODES.find(mode => mode.value === publishMode).action}</button>
                 </div>
                  {publishingStatus[String(currentPost.id)] && (
                     <div className={`result ${publishingStatus[String(currentPost.id)].success ? 'success' : 'error'}`}>
@@ -858,16 +5533,34 @@ const initialState = {
     wpUrl: '', wpUser: '', wpPassword: '', sitemapUrl: '',
     posts: [],
     sitemapUrls: [] as string[],
+    sitemapEntries: [] as SitemapEntry[],
+    sitemapSummary: null as { sitemaps: number; total: number; filtered: number } | null,
+    sitemapFilters: { include: '', exclude: '', excludedTypes: ['tag', 'author', 'attachment'] } as SitemapFilters,
     loading: false, error: null,
-    aiProvider: 'gemini',
-    apiKeys: { gemini: '', openai: '', anthropic: '', openrouter: '' },
-    keyStatus: { gemini: 'unknown', openai: 'unknown', anthropic: 'unknown', openrouter: 'unknown' },
-    openRouterModel: 'google/gemini-flash-1.5',
-    openRouterModels: ['google/gemini-flash-1.5', 'openai/gpt-4o', 'anthropic/claude-3-haiku'],
+    aiProvider: 'gemini' as AiProviderId,
+    apiKeys: { gemini: '', openai: '', anthropic: '', openrouter: '', local: '' },
+    keyStatus: { gemini: 'unknown', openai: 'unknown', anthropic: 'unknown', openrouter: 'unknown', local: 'unknown' } as Record<AiProviderId, 'unknown' | 'validating' | 'valid' | 'invalid' | 'quota' | 'network'>,
+    keyStatusMessage: {} as { [provider: string]: string },
+    availableModels: {} as { [provider: string]: string[] },
+    aiModels: Object.fromEntries(Object.entries(AI_PROVIDERS).map(([id, p]) => [id, p.defaultModel])) as Record<AiProviderId, string>,
+    imageModels: Object.fromEntries(Object.entries(AI_PROVIDERS).map(([id, p]) => [id, p.defaultImageModel])) as Record<AiProviderId, string>,
+    localBaseUrl: 'http://localhost:11434/v1',
     contentMode: 'cluster',
-    publishingStatus: {} as { [key: string]: { success: boolean, message: string, link?: string } },
-    generationStatus: {} as { [key: string]: 'idle' | 'generating' | 'done' | 'error' },
-    bulkGenerationProgress: { current: 0, total: 0, visible: false },
+    publishingStatus: {} as { [key: string]: { success: boolean, message: string, link?: string, skipped?: boolean } },
+    generationStatus: {} as { [key: string]: GenerationStatus },
+    bulkGenerationProgress: { current: 0, total: 0, visible: false, paused: false, runId: null as string | null },
+    bulkRunSummary: null as string | null,
+    /** The single article being written right now, with the raw response text received so far. */
+    liveGeneration: null as { postId: number | string; title: string; targetWords: number; streaming: boolean; startedAt: number; text: string } | null,
+    bulkPublishProgress: { current: 0, total: 0, visible: false },
+    seoPlugin: null as { siteUrl: string; id: SeoPluginId } | null,
+    siteInventory: null as SiteInventory | null,
+    multilingualPlugin: null as { siteUrl: string; id: MultilingualPluginId } | null,
+    qualityThreshold: { minScore: 70, mode: 'warn' as 'warn' | 'block' },
+    linkCheckProxy: '',
+    affiliatePatterns: '',
+    linkChecks: {} as { [url: string]: LinkCheckResult },
+    bulkPublishSummary: null as string | null,
     currentReviewIndex: 0,
     isReviewModalOpen: false,
     selectedPostIds: new Set(),
@@ -877,7 +5570,188 @@ const initialState = {
     pillarTopics: [] as { title: string; description: string }[],
     selectedPillar: null as { title: string; description: string } | null,
     isGeneratingClusters: false,
-    clusterPlan: { existingAssets: [], newOpportunities: [] } as { existingAssets: { url: string; suggestion: string }[], newOpportunities: { title: string; description: string }[] },
+    clusterPlan: { existingAssets: [], newOpportunities: [] } as ClusterPlan,
+    /** Every pillar's cluster plan by pillar title, so switching pillars does not lose them. */
+    clusterPlans: {} as Record<string, ClusterPlan>,
+    /** Internal link targets found in scanned published pages, by normalized page URL. */
+    clusterLinks: {} as Record<string, string[]>,
+    publishingCadence: { postsPerWeek: 3, startDate: toDayKey(new Date(Date.now() + 24 * 60 * 60 * 1000)), time: '09:00' },
+    scheduledPosts: [] as { id: number; title: string; date: string; link: string }[],
+    isFetchingScheduledPosts: false,
+    scheduledPostsError: null as string | null,
+    snapshots: [] as PostSnapshot[],
+    snapshotsLoaded: false,
+    promptTemplates: [] as PromptTemplate[],
+    activeTemplates: {} as { [site: string]: Partial<Record<PromptKind, string>> },
+    voiceProfiles: {} as { [site: string]: VoiceProfile },
+    promptLibraryLoaded: false,
+    usageLog: [] as UsageRecord[],
+    usageLogLoaded: false,
+    modelPrices: DEFAULT_MODEL_PRICES,
+    /** Spending caps in dollars. Zero means no cap. */
+    budget: { perRun: 0, perMonth: 0 },
+    modeWorkspaces: {} as { [mode: string]: ModeWorkspace },
+    pendingBulkIds: [] as (number | string)[],
+    workspaceReady: false,
+    workspaceRestoredAt: null as string | null,
+    queueSettings: Object.fromEntries(Object.entries(AI_PROVIDERS).map(([id, p]) => [id, p.queueDefaults])) as Record<AiProviderId, { concurrency: number; requestsPerMinute: number }>,
+    jobLog: {} as { [postId: string]: AttemptLogEntry[] },
+    credentialStorage: 'session' as CredentialStorage,
+    vaultStatus: 'none' as 'none' | 'locked' | 'unlocked',
+    /** Plain-text credentials from an older version were moved to session storage and still need a permanent home. */
+    credentialsMigrated: false,
+};
+
+/**
+ * A post in the workspace: an existing WordPress post fetched for a refresh, or an article
+ * generated from a topic, which has a negative ID until it is published.
+ */
+interface WorkspacePost {
+    id: number | string;
+    title: string;
+    url?: string;
+    /** The topic a new article was generated from. */
+    topic?: string;
+    content?: string;
+    modified?: string;
+    type?: string;
+    restPath?: string;
+    author?: number | null;
+    categories?: number[];
+    tags?: number[];
+    suggestedCategories?: number[];
+    suggestedTags?: number[];
+    metaTitle?: string;
+    metaDescription?: string;
+    focusKeyword?: string;
+    canonicalUrl?: string;
+    excerpt?: string;
+    schemaMarkup?: string;
+    featuredImage?: FeaturedImage | null;
+    scheduledDate?: string;
+    locale?: string;
+    translationGroup?: string;
+    promptTemplate?: PromptTemplateRef;
+    /** The live post as it was before the refresh, for the review's comparison. */
+    original?: { title: string; content: string; metaTitle: string; metaDescription: string; fetchedAt: string };
+}
+
+type GenerationStatus = 'idle' | 'queued' | 'generating' | 'done' | 'error';
+
+/** Fields that belong to a single content mode and are swapped out when switching modes. */
+interface ModeWorkspace {
+    posts: WorkspacePost[];
+    generationStatus: { [key: string]: GenerationStatus };
+    selectedPostIds: Set<number | string>;
+    searchTerm: string;
+    currentReviewIndex: number;
+}
+
+const emptyModeWorkspace = (): ModeWorkspace => ({ posts: [], generationStatus: {}, selectedPostIds: new Set(), searchTerm: '', currentReviewIndex: 0 });
+
+const pickModeWorkspace = (state: ModeWorkspace): ModeWorkspace => ({
+    posts: state.posts,
+    generationStatus: state.generationStatus,
+    selectedPostIds: state.selectedPostIds,
+    searchTerm: state.searchTerm,
+    currentReviewIndex: state.currentReviewIndex,
+});
+
+/** Identifies a site by its WordPress URL, or by the sitemap's origin before one is entered. */
+const getSiteKey = (wpUrl: string, sitemapUrl: string): string | null => {
+    let site = normalizeSiteUrl(wpUrl);
+    if (!site && sitemapUrl) {
+        try { site = new URL(sitemapUrl).origin; } catch (e) { /* not a valid URL yet */ }
+    }
+    return site || null;
+};
+
+/**
+ * Returns the IndexedDB key of a site's saved workspace, or null when no site is known yet.
+ */
+const getWorkspaceKey = (wpUrl: string, sitemapUrl: string): string | null => {
+    const site = getSiteKey(wpUrl, sitemapUrl);
+    return site ? `workspace:${site}` : null;
+};
+
+/** A mode's workspace as saved in IndexedDB, with the selection as an array. */
+type SavedModeWorkspace = Omit<ModeWorkspace, 'selectedPostIds'> & { selectedPostIds: (number | string)[] };
+
+/** The workspace part of the app state as saved in IndexedDB. Older saves may lack fields. */
+interface SavedWorkspace {
+    version: number;
+    savedAt: string;
+    currentStep: number;
+    contentMode: string;
+    sitemapUrl: string;
+    sitemapUrls: string[];
+    pillarTopics: typeof initialState.pillarTopics;
+    selectedPillar: typeof initialState.selectedPillar;
+    clusterPlan: ClusterPlan;
+    clusterPlans?: Record<string, ClusterPlan>;
+    clusterLinks?: Record<string, string[]>;
+    publishingStatus: typeof initialState.publishingStatus;
+    pendingBulkIds?: (number | string)[];
+    siteInventory?: SiteInventory | null;
+    modes?: Record<string, SavedModeWorkspace>;
+}
+
+/**
+ * Converts the workspace part of the app state into a structured-clone friendly object.
+ * Credentials and transient UI flags are deliberately left out.
+ */
+const serializeWorkspace = (state): SavedWorkspace => {
+    const modes = { ...state.modeWorkspaces, [state.contentMode]: pickModeWorkspace(state) };
+    return {
+        version: 1,
+        savedAt: new Date().toISOString(),
+        currentStep: state.currentStep,
+        contentMode: state.contentMode,
+        sitemapUrl: state.sitemapUrl,
+        sitemapUrls: state.sitemapUrls,
+        pillarTopics: state.pillarTopics,
+        selectedPillar: state.selectedPillar,
+        clusterPlan: state.clusterPlan,
+        clusterPlans: state.clusterPlans,
+        clusterLinks: state.clusterLinks,
+        publishingStatus: state.publishingStatus,
+        pendingBulkIds: state.pendingBulkIds,
+        siteInventory: state.siteInventory,
+        modes: Object.fromEntries(Object.entries(modes).map(([mode, workspace]: [string, ModeWorkspace]) => [mode, { ...workspace, selectedPostIds: [...workspace.selectedPostIds] }])),
+    };
+};
+
+/**
+ * Turns a saved workspace back into app state. Posts that were queued or mid-generation when
+ * the tab closed are reset so they can be generated again.
+ */
+const deserializeWorkspace = (saved: SavedWorkspace) => {
+    const modeWorkspaces: { [mode: string]: ModeWorkspace } = Object.fromEntries(Object.entries(saved.modes || {}).map(([mode, workspace]) => [mode, {
+        ...emptyModeWorkspace(),
+        ...workspace,
+        selectedPostIds: new Set(workspace.selectedPostIds || []),
+        generationStatus: Object.fromEntries(Object.entries(workspace.generationStatus || {}).map(([id, status]) => [id, status === 'generating' || status === 'queued' ? 'idle' : status])),
+    }]));
+    const contentMode = saved.contentMode || 'cluster';
+    const { [contentMode]: activeWorkspace, ...inactiveWorkspaces } = modeWorkspaces;
+    return {
+        ...emptyModeWorkspace(),
+        ...(activeWorkspace || {}),
+        modeWorkspaces: inactiveWorkspaces,
+        currentStep: saved.currentStep || 1,
+        contentMode,
+        sitemapUrl: saved.sitemapUrl || '',
+        sitemapUrls: saved.sitemapUrls || [],
+        pillarTopics: saved.pillarTopics || [],
+        selectedPillar: saved.selectedPillar || null,
+        clusterPlan: saved.clusterPlan || { existingAssets: [], newOpportunities: [] },
+        clusterPlans: saved.clusterPlans || (saved.selectedPillar && saved.clusterPlan ? { [saved.selectedPillar.title]: saved.clusterPlan } : {}),
+        clusterLinks: saved.clusterLinks || {},
+        publishingStatus: saved.publishingStatus || {},
+        pendingBulkIds: saved.pendingBulkIds || [],
+        siteInventory: saved.siteInventory || null,
+        workspaceRestoredAt: saved.savedAt || null,
+    };
 };
 
 function reducer(state, action) {
@@ -886,9 +5760,12 @@ function reducer(state, action) {
         case 'SET_FIELD': return { ...state, [action.payload.field]: action.payload.value };
         case 'SET_API_KEY': return { ...state, apiKeys: { ...state.apiKeys, [action.payload.provider]: action.payload.key }, keyStatus: { ...state.keyStatus, [action.payload.provider]: 'validating' } };
         case 'SET_AI_PROVIDER': return { ...state, aiProvider: action.payload };
-        case 'SET_KEY_STATUS': return { ...state, keyStatus: { ...state.keyStatus, [action.payload.provider]: action.payload.status } };
+        case 'SET_AI_MODEL': return { ...state, aiModels: { ...state.aiModels, [action.payload.provider]: action.payload.model } };
+        case 'SET_IMAGE_MODEL': return { ...state, imageModels: { ...state.imageModels, [action.payload.provider]: action.payload.model } };
+        case 'SET_KEY_STATUS': return { ...state, keyStatus: { ...state.keyStatus, [action.payload.provider]: action.payload.status }, keyStatusMessage: { ...state.keyStatusMessage, [action.payload.provider]: action.payload.message || '' } };
+        case 'SET_AVAILABLE_MODELS': return { ...state, availableModels: { ...state.availableModels, [action.payload.provider]: action.payload.models } };
         case 'FETCH_START': return { ...state, loading: true, error: null };
-        case 'FETCH_SITEMAP_SUCCESS': return { ...state, loading: false, posts: [], sitemapUrls: action.payload.sitemapUrls, currentStep: 2, contentMode: 'cluster', generationStatus: {}, selectedPostIds: new Set(), pillarTopics: [], selectedPillar: null, clusterPlan: { existingAssets: [], newOpportunities: [] } };
+        case 'FETCH_SITEMAP_SUCCESS': return { ...state, loading: false, posts: [], sitemapUrls: action.payload.sitemapUrls, sitemapEntries: action.payload.sitemapEntries, sitemapSummary: action.payload.sitemapSummary, currentStep: 2, contentMode: 'cluster', generationStatus: {}, selectedPostIds: new Set(), pillarTopics: [], selectedPillar: null, clusterPlan: { existingAssets: [], newOpportunities: [] }, clusterPlans: {}, clusterLinks: {}, modeWorkspaces: {}, pendingBulkIds: [], workspaceRestoredAt: null };
         case 'FETCH_EXISTING_POSTS_SUCCESS': return { ...state, loading: false, posts: action.payload, generationStatus: {}, selectedPostIds: new Set(), searchTerm: '', sortConfig: { key: 'modified', direction: 'asc' } };
         case 'FETCH_ERROR': return { ...state, loading: false, error: action.payload };
         case 'SET_GENERATION_STATUS': return { ...state, generationStatus: { ...state.generationStatus, [String(action.payload.postId)]: action.payload.status } };
@@ -903,8 +5780,55 @@ function reducer(state, action) {
                 currentReviewIndex: newPosts.length - 1,
             };
         }
+        case 'LIVE_GENERATION_START': return { ...state, liveGeneration: { ...action.payload, text: '' } };
+        case 'LIVE_GENERATION_TEXT': return state.liveGeneration ? { ...state, liveGeneration: { ...state.liveGeneration, text: action.payload } } : state;
+        case 'LIVE_GENERATION_END': return { ...state, liveGeneration: null };
+        case 'GENERATION_CANCELLED': return { ...state, loading: false };
+        case 'SET_POST_ORIGINAL': return { ...state, posts: state.posts.map(p => String(p.id) === String(action.payload.postId) ? { ...p, original: action.payload.original } : p) };
         case 'UPDATE_POST_FIELD': return { ...state, posts: state.posts.map((post, index) => index === action.payload.index ? { ...post, [action.payload.field]: action.payload.value } : post) };
-        case 'SET_CONTENT_MODE': return { ...state, contentMode: action.payload, posts: [], error: null, generationStatus: {}, selectedPostIds: new Set(), searchTerm: '', pillarTopics: [], selectedPillar: null, clusterPlan: { existingAssets: [], newOpportunities: [] } };
+        case 'REPLACE_POST_SECTION': {
+            // The handler reports a section edited while it was being rewritten; this only guards the content.
+            const { postId, from, to, syncFaq } = action.payload;
+            return {
+                ...state,
+                posts: state.posts.map(post => {
+                    if (post.id !== postId || !post.content?.includes(from)) return post;
+                    const content = post.content.replace(from, () => to);
+                    return { ...post, content, ...(syncFaq ? { schemaMarkup: syncFaqSchema(post.schemaMarkup || '', content) } : {}) };
+                }),
+            };
+        }
+        case 'SET_CONTENT_MODE': {
+            if (action.payload === state.contentMode) return state;
+            const modeWorkspaces = { ...state.modeWorkspaces, [state.contentMode]: pickModeWorkspace(state) };
+            const { [action.payload]: nextWorkspace, ...inactiveWorkspaces } = modeWorkspaces;
+            return { ...state, ...emptyModeWorkspace(), ...(nextWorkspace || {}), modeWorkspaces: inactiveWorkspaces, contentMode: action.payload, error: null, isReviewModalOpen: false };
+        }
+        case 'SET_VAULT_STATUS': return { ...state, vaultStatus: action.payload };
+        case 'FORGET_SITE': return {
+            ...initialState,
+            snapshots: state.snapshots.filter(s => s.siteUrl !== action.payload),
+            snapshotsLoaded: state.snapshotsLoaded,
+            // Templates are shared between sites; only this site's choices and voice are forgotten.
+            promptTemplates: state.promptTemplates,
+            activeTemplates: Object.fromEntries(Object.entries(state.activeTemplates).filter(([site]) => site !== action.payload)),
+            voiceProfiles: Object.fromEntries(Object.entries(state.voiceProfiles).filter(([site]) => site !== action.payload)),
+            promptLibraryLoaded: state.promptLibraryLoaded,
+            // Spending is per account, not per site.
+            usageLog: state.usageLog,
+            modelPrices: state.modelPrices,
+            budget: state.budget,
+            usageLogLoaded: state.usageLogLoaded,
+            workspaceReady: true,
+        };
+        case 'RESTORE_WORKSPACE': return { ...state, ...action.payload };
+        case 'WORKSPACE_READY': return { ...state, workspaceReady: true };
+        case 'DISMISS_WORKSPACE_NOTICE': return { ...state, workspaceRestoredAt: null };
+        case 'CLEAR_WORKSPACE': return {
+            ...state, ...emptyModeWorkspace(), modeWorkspaces: {}, error: null, isReviewModalOpen: false, contentMode: 'cluster',
+            pillarTopics: [], selectedPillar: null, clusterPlan: { existingAssets: [], newOpportunities: [] }, clusterPlans: {}, clusterLinks: {},
+            publishingStatus: {}, pendingBulkIds: [], workspaceRestoredAt: null,
+        };
         case 'PUBLISH_START': return { ...state, loading: true };
         case 'PUBLISH_SUCCESS': {
             const { originalPostId, responseData, message, link } = action.payload;
@@ -919,15 +5843,22 @@ function reducer(state, action) {
                 }
                 return post;
             });
-            return { ...state, loading: false, posts: updatedPosts, publishingStatus: newPublishingStatus };
+            // Usage recorded under a temporary ID follows the post to its WordPress ID.
+            const usageLog = String(originalPostId) !== String(newPostId)
+                ? state.usageLog.map(record => record.postId === String(originalPostId) ? { ...record, postId: String(newPostId) } : record)
+                : state.usageLog;
+            const scheduledPosts = responseData.status === 'future'
+                ? [...state.scheduledPosts.filter(p => p.id !== newPostId), { id: newPostId, title: responseData.title.rendered, date: `${responseData.date_gmt}Z`, link: responseData.link }]
+                : state.scheduledPosts.filter(p => p.id !== newPostId);
+            return { ...state, loading: false, posts: updatedPosts, publishingStatus: newPublishingStatus, scheduledPosts, usageLog };
         }
         case 'PUBLISH_ERROR': {
-            const { postId, message } = action.payload;
+            const { postId, message, skipped } = action.payload;
             const newPublishingStatus = { ...state.publishingStatus };
-            newPublishingStatus[String(postId)] = { success: false, message };
+            newPublishingStatus[String(postId)] = { success: false, message, skipped };
             return { ...state, loading: false, publishingStatus: newPublishingStatus };
         }
-        case 'LOAD_CONFIG': return { ...state, ...action.payload };
+        case 'LOAD_CONFIG': return { ...state, ...action.payload, apiKeys: { ...state.apiKeys, ...action.payload.apiKeys }, aiModels: { ...state.aiModels, ...action.payload.aiModels }, imageModels: { ...state.imageModels, ...action.payload.imageModels }, queueSettings: { ...state.queueSettings, ...action.payload.queueSettings } };
         case 'SET_REVIEW_INDEX': return { ...state, currentReviewIndex: action.payload };
         case 'OPEN_REVIEW_MODAL': return { ...state, isReviewModalOpen: true, currentReviewIndex: action.payload };
         case 'CLOSE_REVIEW_MODAL': return { ...state, isReviewModalOpen: false };
@@ -953,16 +5884,94 @@ function reducer(state, action) {
         case 'DESELECT_ALL': return { ...state, selectedPostIds: new Set() };
         case 'SET_SEARCH_TERM': return { ...state, searchTerm: action.payload };
         case 'SET_SORT_CONFIG': return { ...state, sortConfig: action.payload };
-        case 'BULK_GENERATE_START': return { ...state, bulkGenerationProgress: { current: 0, total: action.payload, visible: true } };
-        case 'BULK_GENERATE_PROGRESS': return { ...state, bulkGenerationProgress: { ...state.bulkGenerationProgress, current: state.bulkGenerationProgress.current + 1 } };
-        case 'BULK_GENERATE_COMPLETE': return { ...state, bulkGenerationProgress: { current: 0, total: 0, visible: false } };
+        case 'BULK_GENERATE_START': {
+            const generationStatus = { ...state.generationStatus };
+            const jobLog = { ...state.jobLog };
+            const { postIds, runId } = action.payload;
+            postIds.forEach(id => {
+                generationStatus[String(id)] = 'queued';
+                jobLog[String(id)] = [];
+            });
+            return { ...state, generationStatus, jobLog, pendingBulkIds: postIds, bulkRunSummary: null, bulkGenerationProgress: { current: 0, total: postIds.length, visible: true, paused: false, runId } };
+        }
+        case 'LINK_CHECK_START': return { ...state, linkChecks: { ...state.linkChecks, ...Object.fromEntries(action.payload.map(url => [url, { url, pending: true }])) } };
+        case 'LINK_CHECK_RESULT': return { ...state, linkChecks: { ...state.linkChecks, [action.payload.url]: action.payload } };
+        case 'SET_SITEMAP_FILTERS': return { ...state, sitemapFilters: { ...state.sitemapFilters, ...action.payload } };
+        case 'SET_QUALITY_THRESHOLD': return { ...state, qualityThreshold: { ...state.qualityThreshold, ...action.payload } };
+        case 'SET_SEO_PLUGIN': return { ...state, seoPlugin: action.payload };
+        case 'SET_SITE_INVENTORY': return { ...state, siteInventory: action.payload };
+        case 'SET_MULTILINGUAL_PLUGIN': return { ...state, multilingualPlugin: action.payload };
+        case 'BULK_PUBLISH_START': return { ...state, bulkPublishSummary: null, bulkPublishProgress: { current: 0, total: action.payload, visible: true } };
+        case 'BULK_PUBLISH_PROGRESS': return { ...state, bulkPublishProgress: { ...state.bulkPublishProgress, current: state.bulkPublishProgress.current + 1 } };
+        case 'BULK_PUBLISH_COMPLETE': {
+            const { published, total } = action.payload;
+            const summary = `Sent ${published} of ${total} post${total !== 1 ? 's' : ''} to WordPress.${published < total ? ' Check the Status column for skipped and failed posts.' : ''}`;
+            return { ...state, bulkPublishSummary: summary, bulkPublishProgress: { current: 0, total: 0, visible: false } };
+        }
+        case 'DISMISS_BULK_PUBLISH_SUMMARY': return { ...state, bulkPublishSummary: null };
+        case 'BULK_GENERATE_PAUSED': return { ...state, bulkGenerationProgress: { ...state.bulkGenerationProgress, paused: action.payload } };
+        case 'JOB_ATTEMPT': {
+            const key = String(action.payload.postId);
+            return { ...state, jobLog: { ...state.jobLog, [key]: [...(state.jobLog[key] || []), action.payload.entry] } };
+        }
+        case 'SET_QUEUE_SETTINGS': return { ...state, queueSettings: { ...state.queueSettings, [action.payload.provider]: { ...state.queueSettings[action.payload.provider], ...action.payload.settings } } };
+        case 'BULK_GENERATE_PROGRESS': return { ...state, pendingBulkIds: state.pendingBulkIds.filter(id => String(id) !== String(action.payload)), bulkGenerationProgress: { ...state.bulkGenerationProgress, current: state.bulkGenerationProgress.current + 1 } };
+        case 'BULK_GENERATE_COMPLETE': return { ...state, pendingBulkIds: [], bulkGenerationProgress: { current: 0, total: 0, visible: false, paused: false, runId: null } };
+        case 'SET_BULK_RUN_SUMMARY': return { ...state, bulkRunSummary: action.payload };
+        case 'LOAD_USAGE': return {
+            ...state,
+            usageLog: action.payload.log || [],
+            modelPrices: action.payload.prices || state.modelPrices,
+            budget: { ...state.budget, ...action.payload.budget },
+            usageLogLoaded: true,
+        };
+        case 'RECORD_USAGE': {
+            const cutoff = new Date();
+            cutoff.setMonth(cutoff.getMonth() - USAGE_RETENTION_MONTHS);
+            return { ...state, usageLog: [...state.usageLog.filter(record => new Date(record.at) >= cutoff), action.payload] };
+        }
+        case 'SET_MODEL_PRICE': {
+            const { model, price } = action.payload;
+            const { [model]: _removed, ...others } = state.modelPrices;
+            return { ...state, modelPrices: price ? { ...others, [model]: price } : others };
+        }
+        case 'SET_BUDGET': return { ...state, budget: { ...state.budget, ...action.payload } };
         case 'GENERATE_PILLARS_START': return { ...state, isGeneratingPillars: true, error: null, pillarTopics: [] };
         case 'GENERATE_PILLARS_SUCCESS': return { ...state, isGeneratingPillars: false, pillarTopics: action.payload };
         case 'GENERATE_PILLARS_ERROR': return { ...state, isGeneratingPillars: false, error: action.payload };
-        case 'SET_SELECTED_PILLAR': return { ...state, selectedPillar: action.payload, clusterPlan: { existingAssets: [], newOpportunities: [] } };
+        case 'SET_SELECTED_PILLAR': return { ...state, selectedPillar: action.payload, clusterPlan: state.clusterPlans[action.payload.title] || { existingAssets: [], newOpportunities: [] } };
         case 'GENERATE_CLUSTERS_START': return { ...state, isGeneratingClusters: true, error: null, clusterPlan: { existingAssets: [], newOpportunities: [] } };
-        case 'GENERATE_CLUSTERS_SUCCESS': return { ...state, isGeneratingClusters: false, clusterPlan: action.payload };
+        case 'GENERATE_CLUSTERS_SUCCESS': {
+            // The plan belongs to the pillar it was asked for, even if another pillar was selected meanwhile.
+            const { pillarTopic, plan } = action.payload;
+            const isSelected = state.selectedPillar?.title === pillarTopic;
+            return { ...state, isGeneratingClusters: false, clusterPlan: isSelected ? plan : state.clusterPlan, clusterPlans: { ...state.clusterPlans, [pillarTopic]: plan } };
+        }
+        case 'SET_CLUSTER_LINKS': return { ...state, clusterLinks: { ...state.clusterLinks, ...action.payload } };
         case 'GENERATE_CLUSTERS_ERROR': return { ...state, isGeneratingClusters: false, error: action.payload };
+        case 'LOAD_PROMPT_LIBRARY': {
+            const library: StoredPromptLibrary = action.payload;
+            const voiceProfiles = Object.fromEntries(Object.entries(library.voiceProfiles || {}).map(([site, profile]) => [site, migrateVoiceProfile(profile)]));
+            return { ...state, promptTemplates: library.templates || [], activeTemplates: library.activeTemplates || {}, voiceProfiles, promptLibraryLoaded: true };
+        }
+        case 'SAVE_PROMPT_TEMPLATE': {
+            const exists = state.promptTemplates.some(t => t.id === action.payload.id);
+            return { ...state, promptTemplates: exists ? state.promptTemplates.map(t => t.id === action.payload.id ? action.payload : t) : [...state.promptTemplates, action.payload] };
+        }
+        case 'DELETE_PROMPT_TEMPLATE': return { ...state, promptTemplates: state.promptTemplates.filter(t => t.id !== action.payload) };
+        case 'SET_ACTIVE_TEMPLATE': return { ...state, activeTemplates: { ...state.activeTemplates, [action.payload.site]: { ...state.activeTemplates[action.payload.site], [action.payload.kind]: action.payload.id } } };
+        case 'SET_VOICE_PROFILE': return { ...state, voiceProfiles: { ...state.voiceProfiles, [action.payload.site]: { ...DEFAULT_VOICE_PROFILE, ...state.voiceProfiles[action.payload.site], ...action.payload.profile } } };
+        case 'LOAD_SNAPSHOTS': return { ...state, snapshots: action.payload, snapshotsLoaded: true };
+        case 'ADD_SNAPSHOT': {
+            const snapshot: PostSnapshot = action.payload;
+            const isSamePost = (s: PostSnapshot) => s.siteUrl === snapshot.siteUrl && s.postId === snapshot.postId;
+            const keptForPost = state.snapshots.filter(isSamePost).slice(0, MAX_SNAPSHOTS_PER_POST - 1);
+            return { ...state, snapshots: [snapshot, ...keptForPost, ...state.snapshots.filter(s => !isSamePost(s))] };
+        }
+        case 'SET_PUBLISHING_CADENCE': return { ...state, publishingCadence: { ...state.publishingCadence, ...action.payload } };
+        case 'FETCH_SCHEDULED_POSTS_START': return { ...state, isFetchingScheduledPosts: true, scheduledPostsError: null };
+        case 'FETCH_SCHEDULED_POSTS_SUCCESS': return { ...state, isFetchingScheduledPosts: false, scheduledPosts: action.payload };
+        case 'FETCH_SCHEDULED_POSTS_ERROR': return { ...state, isFetchingScheduledPosts: false, scheduledPostsError: action.payload };
         default: throw new Error(`Unhandled action type: ${action.type}`);
     }
 }
@@ -974,35 +5983,222 @@ const PROMOTIONAL_LINKS = [
 
 const App = () => {
     const [state, dispatch] = useReducer(reducer, initialState);
+    const jobQueueRef = useRef<{ pause: () => void; resume: () => void; cancel: () => void } | null>(null);
+    const liveGenerationRef = useRef<AbortController | null>(null);
+    const siteInventoryRequestRef = useRef<{ siteUrl: string; request: Promise<SiteInventory | null> } | null>(null);
 
     useEffect(() => {
-        const savedConfig = localStorage.getItem('wpContentOptimizerConfig');
-        if (savedConfig) dispatch({ type: 'LOAD_CONFIG', payload: JSON.parse(savedConfig) });
+        const savedConfig = localStorage.getItem(CONFIG_STORAGE_KEY);
+        const config = savedConfig ? JSON.parse(savedConfig) : null;
+        sessionStorage.removeItem(LEGACY_VAULT_SESSION_KEY);
+        if (config) {
+            // Older versions saved credentials in plain text here: move them to session storage and scrub them.
+            // Session storage is gone when the tab closes, so the vault is preselected and the user is asked to set it up.
+            const hadPlaintextSecrets = !!(config.wpPassword || config.apiKeys);
+            if (hadPlaintextSecrets) {
+                sessionStorage.setItem(SESSION_SECRETS_KEY, JSON.stringify({ wpPassword: config.wpPassword || '', apiKeys: config.apiKeys || {} }));
+                localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify({ ...withoutSecrets(config), credentialStorage: 'session' }));
+                config.credentialStorage = 'session';
+            }
+            dispatch({ type: 'LOAD_CONFIG', payload: { ...withoutSecrets(config), ...(hadPlaintextSecrets ? { credentialStorage: 'vault', credentialsMigrated: true } : {}) } });
+            loadStoredSecrets(config.credentialStorage)
+                .then(secrets => {
+                    if (secrets) applySecrets(secrets, config.aiProvider, config.localBaseUrl);
+                })
+                .catch(error => console.error('Could not load stored credentials.', error));
+        }
+        const workspaceKey = config ? getWorkspaceKey(config.wpUrl, config.sitemapUrl) : null;
+        (workspaceKey ? kvGet<SavedWorkspace>(workspaceKey) : Promise.resolve(undefined))
+            .then(saved => {
+                if (saved) dispatch({ type: 'RESTORE_WORKSPACE', payload: deserializeWorkspace(saved) });
+            })
+            .catch(error => console.error('Could not restore the saved workspace.', error))
+            .finally(() => dispatch({ type: 'WORKSPACE_READY' }));
+        kvGet<PostSnapshot[]>('snapshots')
+            .then(snapshots => dispatch({ type: 'LOAD_SNAPSHOTS', payload: snapshots || [] }))
+            .catch(error => {
+                console.error('Could not load post snapshots.', error);
+                dispatch({ type: 'LOAD_SNAPSHOTS', payload: [] });
+            });
+        kvGet<StoredUsage>('usage')
+            .then(usage => dispatch({ type: 'LOAD_USAGE', payload: usage || {} }))
+            .catch(error => {
+                console.error('Could not load the usage log.', error);
+                dispatch({ type: 'LOAD_USAGE', payload: {} });
+            });
+        kvGet<StoredPromptLibrary>('promptLibrary')
+            .then(library => dispatch({ type: 'LOAD_PROMPT_LIBRARY', payload: library || {} }))
+            .catch(error => {
+                console.error('Could not load the prompt library.', error);
+                dispatch({ type: 'LOAD_PROMPT_LIBRARY', payload: {} });
+            });
     }, []);
 
-    const handleValidateKey = useCallback(async (provider, key) => {
+    useEffect(() => {
+        if (!state.promptLibraryLoaded) return;
+        kvSet('promptLibrary', { templates: state.promptTemplates, activeTemplates: state.activeTemplates, voiceProfiles: state.voiceProfiles })
+            .catch(error => console.error('Could not save the prompt library.', error));
+    }, [state.promptTemplates, state.activeTemplates, state.voiceProfiles, state.promptLibraryLoaded]);
+
+    useEffect(() => {
+        // Prices and caps are kept with the log rather than the saved configuration, so edits stick without saving it.
+        if (!state.usageLogLoaded) return;
+        kvSet('usage', { log: state.usageLog, prices: state.modelPrices, budget: state.budget })
+            .catch(error => console.error('Could not save the usage log.', error));
+    }, [state.usageLog, state.modelPrices, state.budget, state.usageLogLoaded]);
+
+    useEffect(() => {
+        // Only persist once the stored snapshots were loaded, so they are never overwritten with an empty list.
+        if (!state.snapshotsLoaded) return;
+        kvSet('snapshots', state.snapshots).catch(error => console.error('Could not save post snapshots.', error));
+    }, [state.snapshots, state.snapshotsLoaded]);
+
+    useEffect(() => {
+        // Wait for the restore attempt, then save at most once a second while the workspace changes.
+        if (!state.workspaceReady || state.currentStep !== 2) return;
+        const workspaceKey = getWorkspaceKey(state.wpUrl, state.sitemapUrl);
+        if (!workspaceKey) return;
+        const timer = setTimeout(() => {
+            kvSet(workspaceKey, serializeWorkspace(state)).catch(error => console.error('Could not save the workspace.', error));
+        }, 1000);
+        return () => clearTimeout(timer);
+    }, [state.workspaceReady, state.currentStep, state.posts, state.generationStatus, state.selectedPostIds, state.publishingStatus, state.pillarTopics, state.selectedPillar, state.clusterPlan, state.clusterPlans, state.clusterLinks, state.contentMode, state.modeWorkspaces, state.sitemapUrls, state.pendingBulkIds]);
+
+    /**
+     * Reads the credentials saved with the given storage option. A vault that has not been
+     * unlocked in this browser session yet resolves to null and is reported as locked.
+     */
+    const loadStoredSecrets = async (storage: CredentialStorage): Promise<StoredSecrets | null> => {
+        if (storage === 'session') {
+            const raw = sessionStorage.getItem(SESSION_SECRETS_KEY);
+            return raw ? JSON.parse(raw) : null;
+        }
+        if (storage !== 'vault') return null;
+        const vault = readStoredVault();
+        if (!vault) return null;
+        const key = readSessionVaultKey();
+        if (!key) {
+            dispatch({ type: 'SET_VAULT_STATUS', payload: 'locked' });
+            return null;
+        }
+        const secrets = await decryptVault(vault, key);
+        dispatch({ type: 'SET_VAULT_STATUS', payload: 'unlocked' });
+        return secrets;
+    };
+
+    const applySecrets = (secrets: StoredSecrets, provider: AiProviderId, baseUrl: string) => {
+        dispatch({ type: 'LOAD_CONFIG', payload: { wpPassword: secrets.wpPassword || '', apiKeys: secrets.apiKeys || {} } });
+        const key = secrets.apiKeys?.[provider];
+        if (provider && AI_PROVIDERS[provider] && (key || !AI_PROVIDERS[provider].requiresKey)) handleValidateKey(provider, key, baseUrl);
+    };
+
+    const handleUnlockVault = async (passphrase: string) => {
+        const vault = readStoredVault();
+        if (!vault) throw new Error('No encrypted vault is stored in this browser.');
+        const key = await deriveVaultKey(passphrase, base64ToBytes(vault.salt));
+        let secrets: StoredSecrets;
+        try {
+            secrets = await decryptVault(vault, key);
+        } catch (error) {
+            // AES-GCM authentication fails on a wrong key, which is the only way to tell.
+            throw new Error('Incorrect passphrase.');
+        }
+        rememberSessionVaultKey(key);
+        dispatch({ type: 'SET_VAULT_STATUS', payload: 'unlocked' });
+        applySecrets(secrets, state.aiProvider, state.localBaseUrl);
+    };
+
+    /**
+     * Saves the configuration without credentials, then stores the credentials according
+     * to the chosen storage option. Every other stored copy is removed first.
+     */
+    const persistConfig = async (sitemapUrl: string, vaultPassphrase: string) => {
+        const { credentialStorage } = state;
+        const secrets: StoredSecrets = { wpPassword: state.wpPassword, apiKeys: state.apiKeys };
+        const existingVault = readStoredVault();
+        const sessionKey = existingVault ? readSessionVaultKey() : null;
+        localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify({ wpUrl: state.wpUrl, wpUser: state.wpUser, aiProvider: state.aiProvider, aiModels: state.aiModels, imageModels: state.imageModels, localBaseUrl: state.localBaseUrl, queueSettings: state.queueSettings, qualityThreshold: state.qualityThreshold, linkCheckProxy: state.linkCheckProxy, affiliatePatterns: state.affiliatePatterns, sitemapFilters: state.sitemapFilters, sitemapUrl, credentialStorage }));
+        clearStoredSecrets();
+        if (credentialStorage === 'session') {
+            sessionStorage.setItem(SESSION_SECRETS_KEY, JSON.stringify(secrets));
+        } else if (credentialStorage === 'vault') {
+            const salt = vaultPassphrase || !existingVault ? crypto.getRandomValues(new Uint8Array(16)) : base64ToBytes(existingVault.salt);
+            const key = vaultPassphrase ? await deriveVaultKey(vaultPassphrase, salt) : sessionKey;
+            if (!key) throw new Error('Enter a passphrase to encrypt your credentials.');
+            localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(await encryptVault(secrets, key, salt)));
+            rememberSessionVaultKey(key);
+            dispatch({ type: 'SET_VAULT_STATUS', payload: 'unlocked' });
+        }
+        if (state.credentialsMigrated) dispatch({ type: 'SET_FIELD', payload: { field: 'credentialsMigrated', value: false } });
+    };
+
+    const handleForgetSite = async () => {
+        if (!window.confirm('Remove the saved credentials, settings, workspace and rollback snapshots for this site from this browser?')) return;
+        const workspaceKey = getWorkspaceKey(state.wpUrl, state.sitemapUrl);
+        localStorage.removeItem(CONFIG_STORAGE_KEY);
+        clearStoredSecrets();
+        if (workspaceKey) await kvDelete(workspaceKey).catch(error => console.error('Could not delete the saved workspace.', error));
+        dispatch({ type: 'FORGET_SITE', payload: normalizeSiteUrl(state.wpUrl) });
+    };
+
+    // The latest check per provider. An answer for an older check, or for a key that has since
+    // been edited, arrives too late to describe the current key and is ignored.
+    const keyCheckRef = useRef<Partial<Record<AiProviderId, number>>>({});
+    const apiKeysRef = useRef(state.apiKeys);
+    apiKeysRef.current = state.apiKeys;
+    // The posts as they are now, for handlers that must see edits made while they awaited.
+    const postsRef = useRef(state.posts);
+    postsRef.current = state.posts;
+    const handleValidateKey = useCallback(async (provider: AiProviderId, key: string, baseUrl?: string) => {
+        const check = (keyCheckRef.current[provider] || 0) + 1;
+        keyCheckRef.current[provider] = check;
+        const isCurrent = () => keyCheckRef.current[provider] === check && (apiKeysRef.current[provider] || '') === (key || '');
         dispatch({ type: 'SET_KEY_STATUS', payload: { provider, status: 'validating' } });
+        const { label } = AI_PROVIDERS[provider];
         try {
-            if (!key || key.length < 10) throw new Error('Invalid key format');
-            await new Promise(res => setTimeout(res, 500)); // Basic validation
-            dispatch({ type: 'SET_KEY_STATUS', payload: { provider, status: 'valid' } });
+            const models = await createAiProvider(provider, { apiKey: key, baseUrl }).listModels();
+            if (!isCurrent()) return;
+            dispatch({ type: 'SET_AVAILABLE_MODELS', payload: { provider, models } });
+            dispatch({ type: 'SET_KEY_STATUS', payload: { provider, status: 'valid', message: `Connected to ${label}. ${models.length} model${models.length !== 1 ? 's' : ''} found.` } });
         } catch (error) {
-            dispatch({ type: 'SET_KEY_STATUS', payload: { provider, status: 'invalid' } });
+            if (!isCurrent()) return;
+            const status = classifyKeyError(error);
+            const reason = (error instanceof Error) ? error.message : String(error);
+            const message = status === 'invalid' ? `${label} rejected this API key.`
+                : status === 'quota' ? `The key works, but its quota or credit balance is exhausted: ${reason}`
+                : `Could not reach ${label} to verify the key: ${reason}`;
+            dispatch({ type: 'SET_KEY_STATUS', payload: { provider, status, message } });
         }
     }, []);
     
-    const handleFetchSitemap = async (sitemapUrl, saveConfig) => {
+    const handleFetchSitemap = async (sitemapUrl, saveConfig, vaultPassphrase = '') => {
         dispatch({ type: 'FETCH_START' });
-        if (saveConfig) {
-            localStorage.setItem('wpContentOptimizerConfig', JSON.stringify({ wpUrl: state.wpUrl, wpUser: state.wpUser, wpPassword: state.wpPassword, aiProvider: state.aiProvider, apiKeys: state.apiKeys }));
+        try {
+            if (saveConfig) await persistConfig(sitemapUrl, vaultPassphrase);
+        } catch (error) {
+            const message = (error instanceof Error) ? error.message : String(error);
+            dispatch({ type: 'FETCH_ERROR', payload: `Error saving configuration: ${message}` });
+            return;
         }
         
         try {
-            const allUrls = await parseSitemap(sitemapUrl);
-            if (allUrls.length === 0) throw new Error("No URLs found in the sitemap, or the sitemap could not be parsed.");
-            
-            const uniqueUrls = [...new Set(allUrls)];
-            dispatch({ type: 'FETCH_SITEMAP_SUCCESS', payload: { sitemapUrls: uniqueUrls } });
+            const sitemaps = await discoverSitemaps(sitemapUrl);
+            const visited = new Set<string>();
+            const limit = createTaskLimiter(SITEMAP_FETCH_CONCURRENCY, SITEMAP_REQUESTS_PER_MINUTE);
+            const allEntries: SitemapEntry[] = [];
+            for (const sitemap of sitemaps) allEntries.push(...await parseSitemap(sitemap, visited, limit));
+            if (allEntries.length === 0) throw new Error("No URLs found in the sitemap, or the sitemap could not be parsed.");
+
+            const entries = [...new Map(allEntries.map(entry => [entry.url, entry])).values()];
+            const kept = filterSitemapEntries(entries, state.sitemapFilters);
+            if (kept.length === 0) throw new Error(`All ${entries.length} URLs were removed by your sitemap filters`);
+            const uniqueUrls = kept.map(entry => entry.url);
+            dispatch({ type: 'FETCH_SITEMAP_SUCCESS', payload: { sitemapUrls: uniqueUrls, sitemapEntries: kept, sitemapSummary: { sitemaps: visited.size, total: entries.length, filtered: entries.length - kept.length } } });
+
+            // Pick up where this site was left off, keeping the freshly fetched URL list.
+            const workspaceKey = getWorkspaceKey(state.wpUrl, sitemapUrl);
+            const saved = workspaceKey ? await kvGet<SavedWorkspace>(workspaceKey).catch(() => undefined) : undefined;
+            if (saved) dispatch({ type: 'RESTORE_WORKSPACE', payload: { ...deserializeWorkspace(saved), sitemapUrl, sitemapUrls: uniqueUrls, currentStep: 2 } });
 
         } catch (error) {
             const message = (error instanceof Error) ? error.message : String(error);
@@ -1010,43 +6206,42 @@ const App = () => {
         }
     };
 
+    const handleClearWorkspace = async () => {
+        if (!window.confirm('Discard all pillars, cluster plans and generated articles saved for this site?')) return;
+        const workspaceKey = getWorkspaceKey(state.wpUrl, state.sitemapUrl);
+        dispatch({ type: 'CLEAR_WORKSPACE' });
+        if (workspaceKey) await kvDelete(workspaceKey).catch(error => console.error('Could not delete the saved workspace.', error));
+    };
+
+    /**
+     * Fetches every post, page and public custom post type for the audit table, along with
+     * the site's categories, tags and authors used to filter it.
+     */
     const handleFetchExistingPosts = async () => {
         dispatch({ type: 'FETCH_START' });
-        const { wpUrl, wpUser, wpPassword } = state;
         try {
-            const allPosts = [];
-            let totalPages = 1;
-            const baseUrl = `${wpUrl.replace(/\/$/, "")}/wp-json/wp/v2/posts?_fields=id,title,link,modified&per_page=100&orderby=modified&order=asc`;
-            const headers = new Headers({ 'Authorization': 'Basic ' + btoa(`${wpUser}:${wpPassword}`) });
-
-            const initialResponse = await directFetch(`${baseUrl}&page=1`, { headers });
-            if (!initialResponse.ok) {
-                const errorData = await initialResponse.json().catch(() => ({}));
-                throw new Error(errorData.message || `HTTP error! Status: ${initialResponse.status}`);
-            }
-
-            const initialPosts = await initialResponse.json();
-            allPosts.push(...initialPosts);
-            
-            totalPages = parseInt(initialResponse.headers.get('X-WP-TotalPages') || '1', 10);
-            
-            if (totalPages > 1) {
-                const pagePromises = [];
-                for (let page = 2; page <= totalPages; page++) {
-                    pagePromises.push(directFetch(`${baseUrl}&page=${page}`, { headers }));
-                }
-                const responses = await Promise.all(pagePromises);
-                for (const response of responses) {
-                    if (response.ok) {
-                        const postsData = await response.json();
-                        allPosts.push(...postsData);
-                    } else {
-                        console.warn(`Failed to fetch a page of posts. Status: ${response.status}`);
-                    }
-                }
-            }
-
-            const formattedPosts = allPosts.map(p => ({ id: p.id, title: p.title.rendered, url: p.link, modified: p.modified, content: '' }));
+            const ctx = getWpContext();
+            const inventory = await fetchSiteInventory(ctx);
+            dispatch({ type: 'SET_SITE_INVENTORY', payload: inventory });
+            const results = await Promise.allSettled(inventory.postTypes.map(async type => {
+                const items = await fetchWpCollection<WpRestPost>(ctx, `${type.restPath}?_fields=id,title,link,modified,author,categories,tags&orderby=modified&order=asc`);
+                return items.map(p => ({
+                    id: p.id,
+                    title: p.title?.rendered || p.link,
+                    url: p.link,
+                    modified: p.modified,
+                    content: '',
+                    type: type.slug,
+                    restPath: type.restPath,
+                    author: p.author,
+                    categories: p.categories,
+                    tags: p.tags,
+                }));
+            }));
+            const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+            if (failed.length === results.length && failed.length > 0) throw failed[0].reason;
+            failed.forEach(result => console.warn('Failed to fetch a post type:', result.reason));
+            const formattedPosts = results.flatMap(result => result.status === 'fulfilled' ? result.value : []);
             dispatch({ type: 'FETCH_EXISTING_POSTS_SUCCESS', payload: formattedPosts });
         } catch (error) {
             const message = (error instanceof Error) ? error.message : String(error);
@@ -1054,27 +6249,99 @@ const App = () => {
         }
     };
     
-    const getAiClient = () => {
-        const apiKey = state.apiKeys[state.aiProvider];
-        switch (state.aiProvider) {
-            case 'gemini': return new GoogleGenAI({ apiKey });
-            case 'openai': return new OpenAI({ apiKey, dangerouslyAllowBrowser: true });
-            case 'anthropic': return new Anthropic({ apiKey, dangerouslyAllowBrowser: true });
-            case 'openrouter': return new OpenAI({ baseURL: "https://openrouter.ai/api/v1", apiKey, defaultHeaders: { "HTTP-Referer": "http://localhost:3000", "X-Title": "AI Content Engine" }, dangerouslyAllowBrowser: true });
-            default: throw new Error('Unsupported AI provider');
+    const handleFetchScheduledPosts = async () => {
+        const { wpUrl, wpUser, wpPassword } = state;
+        if (!wpUrl || !wpUser || !wpPassword) {
+            dispatch({ type: 'FETCH_SCHEDULED_POSTS_ERROR', payload: 'Add your WordPress credentials to see posts that are already scheduled.' });
+            return;
+        }
+        dispatch({ type: 'FETCH_SCHEDULED_POSTS_START' });
+        try {
+            const endpoint = `${wpUrl.replace(/\/$/, "")}/wp-json/wp/v2/posts?status=future&_fields=id,title,date_gmt,link&per_page=100&orderby=date&order=asc`;
+            const headers = new Headers({ 'Authorization': 'Basic ' + btoa(`${wpUser}:${wpPassword}`) });
+            const response = await directFetch(endpoint, { headers });
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}));
+                throw new Error(errorData.message || `HTTP error! Status: ${response.status}`);
+            }
+            const data = await response.json();
+            // `date_gmt` comes without a timezone designator, so it is marked as UTC explicitly.
+            const scheduledPosts = data.map(p => ({ id: p.id, title: p.title.rendered, date: `${p.date_gmt}Z`, link: p.link }));
+            dispatch({ type: 'FETCH_SCHEDULED_POSTS_SUCCESS', payload: scheduledPosts });
+        } catch (error) {
+            const message = (error instanceof Error) ? error.message : String(error);
+            dispatch({ type: 'FETCH_SCHEDULED_POSTS_ERROR', payload: `Error fetching scheduled posts: ${message}` });
         }
     };
 
+    /**
+     * Loads the currently published version of a post so the review can show what a rewrite changes.
+     * Posts that only came from the sitemap are looked up by their slug, among posts and then pages.
+     */
+    const handleFetchOriginalPost = async (post) => {
+        const ctx = getWpContext();
+        const fields = '_fields=id,link,title,content,meta,yoast_head_json';
+        const restPath = post.restPath || 'wp/v2/posts';
+        const isWordPressId = typeof post.id === 'number' && post.id > 0;
+        const slug = !isWordPressId && post.url ? decodeURIComponent(new URL(post.url).pathname.split('/').filter(Boolean).pop() || '') : null;
+        if (!isWordPressId && !slug) throw new Error('This article has no published original to compare against.');
+        let wpPost: WpRestPost | null = null;
+        if (isWordPressId) {
+            wpPost = await fetchWpJson(ctx, `${restPath}/${post.id}?${fields}`);
+        } else {
+            // A rewrite from a URL does not know its post type, so pages are tried after posts.
+            for (const path of new Set([restPath, 'wp/v2/pages'])) {
+                const matches: WpRestPost[] = await fetchWpJson(ctx, `${path}?slug=${encodeURIComponent(slug)}&${fields}`);
+                wpPost = Array.isArray(matches) ? matches.find(m => normalizeLinkUrl(m.link) === normalizeLinkUrl(post.url)) || matches[0] || null : null;
+                if (wpPost) break;
+            }
+        }
+        if (!wpPost) throw new Error(`No post or page with the slug "${slug}" was found.`);
+        const original = {
+            title: new DOMParser().parseFromString(wpPost.title?.rendered || '', 'text/html').body.textContent,
+            content: wpPost.content?.rendered || '',
+            metaTitle: String(wpPost.yoast_head_json?.title || wpPost.meta?._yoast_wpseo_title || ''),
+            metaDescription: String(wpPost.yoast_head_json?.description || wpPost.meta?._yoast_wpseo_metadesc || ''),
+            fetchedAt: new Date().toISOString(),
+        };
+        dispatch({ type: 'SET_POST_ORIGINAL', payload: { postId: post.id, original } });
+    };
+
+    /**
+     * The configured provider, with every call it makes recorded in the usage log.
+     * @param scope The post and bulk run the calls are made for. `onUsage` also receives each record.
+     */
+    const getAiClient = ({ postId, runId, onUsage }: { postId?: number | string; runId?: string; onUsage?: (record: UsageRecord) => void } = {}): AiProvider => withUsageTracking(
+        createAiProvider(state.aiProvider, {
+            apiKey: state.apiKeys[state.aiProvider],
+            model: state.aiModels[state.aiProvider],
+            baseUrl: state.localBaseUrl,
+            imageModel: state.imageModels[state.aiProvider],
+        }),
+        (usage, model) => {
+            const record: UsageRecord = { ...usage, at: new Date().toISOString(), provider: state.aiProvider, model, ...(postId != null ? { postId: String(postId) } : {}), ...(runId ? { runId } : {}) };
+            dispatch({ type: 'RECORD_USAGE', payload: record });
+            onUsage?.(record);
+        },
+    );
+
+    /**
+     * Fills the site's chosen template for a kind of prompt with its voice profile and the
+     * given variables.
+     */
+    const renderSitePrompt = (kind: PromptKind, variables: Record<string, string>): { prompt: string; template: PromptTemplate; voice: VoiceProfile } => {
+        const voice = getVoiceProfile();
+        const template = resolvePromptTemplate(state.promptTemplates, state.activeTemplates[getSiteKey(state.wpUrl, state.sitemapUrl) || ''], kind);
+        return { prompt: renderPromptTemplate(template.body, { ...voiceProfileVariables(voice), ...variables }), template, voice };
+    };
+
+    const getVoiceProfile = (): VoiceProfile => ({ ...DEFAULT_VOICE_PROFILE, ...state.voiceProfiles[getSiteKey(state.wpUrl, state.sitemapUrl) || ''] });
+
     const handleGeneratePillarTopics = async () => {
         dispatch({ type: 'GENERATE_PILLARS_START' });
+        const { prompt: instructions } = renderSitePrompt('pillar', { sitemapUrls: getRandomSubset(state.sitemapUrls, 100).join('\n') });
         const prompt = `
-You are a world-class SEO content strategist. Your task is to analyze a website's sitemap to identify its main areas of expertise and propose high-level "pillar topics". A pillar topic is a broad subject area that can be broken down into many smaller, more specific articles (cluster content).
-
-Based on this list of URLs from the website:
-${getRandomSubset(state.sitemapUrls, 100).join('\n')}
-
-**Your Task:**
-Identify 3-5 core pillar topics for this website. For each pillar, provide a compelling title and a short description explaining why it's a crucial pillar for establishing topical authority in the affiliate marketing niche.
+${instructions}
 
 **Output Format:**
 Return a single, valid JSON object with a single key "pillars". "pillars" must be an array of objects, where each object has "title" and "description" keys.
@@ -1085,38 +6352,16 @@ Return a single, valid JSON object with a single key "pillars". "pillars" must b
 `;
         try {
             const ai = getAiClient();
-            let generatedText: string;
-
-            if (state.aiProvider === 'gemini') {
-                const response = await makeResilientAiCall(() =>
-                    (ai as GoogleGenAI).models.generateContent({
-                        model: 'gemini-2.5-flash', contents: prompt,
-                        config: {
-                            responseMimeType: "application/json", responseSchema: {
-                                type: Type.OBJECT, properties: { pillars: { type: Type.ARRAY, items: {
-                                    type: Type.OBJECT, properties: { title: { type: Type.STRING }, description: { type: Type.STRING } }, required: ["title", "description"]
-                                } } }, required: ["pillars"]
-                            }
-                        }
-                    })
-                );
-                generatedText = response.text;
-            } else if (state.aiProvider === 'anthropic') {
-                const anthropicResponse = await makeResilientAiCall(() =>
-                    (ai as Anthropic).messages.create({ model: 'claude-3-haiku-20240307', max_tokens: 4096, messages: [{ role: 'user', content: prompt }] })
-                );
-                generatedText = anthropicResponse.content[0].type === 'text' ? anthropicResponse.content[0].text : '';
-            } else { // OpenAI and OpenRouter
-                const model = state.aiProvider === 'openai' ? 'gpt-4o' : state.openRouterModel;
-                const openAiResponse = await makeResilientAiCall(() =>
-                    (ai as OpenAI).chat.completions.create({
-                        model,
-                        messages: [{ role: 'user', content: prompt }],
-                        response_format: { type: "json_object" }
-                    })
-                );
-                generatedText = openAiResponse.choices[0].message.content;
-            }
+            const response = await makeResilientAiCall(() =>
+                ai.generate({
+                    prompt, json: true, responseSchema: {
+                        type: Type.OBJECT, properties: { pillars: { type: Type.ARRAY, items: {
+                            type: Type.OBJECT, properties: { title: { type: Type.STRING }, description: { type: Type.STRING } }, required: ["title", "description"]
+                        } } }, required: ["pillars"]
+                    }
+                })
+            );
+            const generatedText = response.text;
 
             if (!generatedText) throw new Error("AI returned an empty response.");
             const data = JSON.parse(extractJson(generatedText));
@@ -1128,21 +6373,14 @@ Return a single, valid JSON object with a single key "pillars". "pillars" must b
         }
     };
 
-    const handleGenerateClusterTopics = async (pillarTopic) => {
+    const handleGenerateClusterTopics = async (pillarTopic: string) => {
         dispatch({ type: 'GENERATE_CLUSTERS_START' });
+        const lastModified = new Map(state.sitemapEntries.map(entry => [entry.url, entry.lastmod]));
+        // Last-modified dates let the strategist recommend refreshing stale assets instead of writing new ones.
+        const existingUrlList = state.sitemapUrls.map(url => lastModified.get(url) ? `${url} (last updated ${String(lastModified.get(url)).slice(0, 10)})` : url).join('\n');
+        const { prompt: instructions } = renderSitePrompt('cluster', { pillar: pillarTopic, existingUrls: existingUrlList });
         const prompt = `
-You are an expert SEO content strategist specializing in building topical authority. Your mission is to create a complete "Topical Cluster Plan" around a central pillar topic, ensuring zero keyword cannibalization by analyzing the site's existing content.
-
-**Pillar Topic:** ${pillarTopic}
-
-**Full list of existing URLs on the website:**
-${state.sitemapUrls.join('\n')}
-
-**Your Task (3 Steps):**
-
-1.  **Map Existing Assets:** Analyze the full list of URLs provided. Identify every existing article that is relevant to the pillar topic "${pillarTopic}". These are your 'Existing Cluster Assets'.
-2.  **Identify Content Gaps:** Based on your expert knowledge of "${pillarTopic}", determine which crucial subtopics, user questions, and long-tail keywords are MISSING from the existing assets. Your goal is to find the gaps that prevent the website from being the definitive authority on this subject.
-3.  **Propose New Content:** Generate a list of 10-15 highly specific, long-tail blog post ideas that precisely fill the content gaps you identified. These are your 'New Cluster Opportunities'. Each title should be compelling and target a clear user intent.
+${instructions}
 
 **Output Format:**
 Return a single, valid JSON object. This object MUST have two keys: "existingAssets" and "newOpportunities".
@@ -1156,57 +6394,76 @@ Return a single, valid JSON object. This object MUST have two keys: "existingAss
 `;
         try {
             const ai = getAiClient();
-            let generatedText: string;
-
-            if (state.aiProvider === 'gemini') {
-                const response = await makeResilientAiCall(() =>
-                    (ai as GoogleGenAI).models.generateContent({
-                        model: 'gemini-2.5-flash', contents: prompt,
-                        config: {
-                            responseMimeType: "application/json", responseSchema: {
-                                type: Type.OBJECT, properties: {
-                                    existingAssets: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { url: { type: Type.STRING }, suggestion: { type: Type.STRING } }, required: ["url", "suggestion"] } },
-                                    newOpportunities: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, description: { type: Type.STRING } }, required: ["title", "description"] } }
-                                }, required: ["existingAssets", "newOpportunities"]
-                            }
-                        }
-                    })
-                );
-                generatedText = response.text;
-            } else if (state.aiProvider === 'anthropic') {
-                const anthropicResponse = await makeResilientAiCall(() =>
-                    (ai as Anthropic).messages.create({ model: 'claude-3-haiku-20240307', max_tokens: 4096, messages: [{ role: 'user', content: prompt }] })
-                );
-                generatedText = anthropicResponse.content[0].type === 'text' ? anthropicResponse.content[0].text : '';
-            } else { // OpenAI and OpenRouter
-                const model = state.aiProvider === 'openai' ? 'gpt-4o' : state.openRouterModel;
-                const openAiResponse = await makeResilientAiCall(() =>
-                    (ai as OpenAI).chat.completions.create({
-                        model,
-                        messages: [{ role: 'user', content: prompt }],
-                        response_format: { type: "json_object" }
-                    })
-                );
-                generatedText = openAiResponse.choices[0].message.content;
-            }
+            const response = await makeResilientAiCall(() =>
+                ai.generate({
+                    prompt, json: true, responseSchema: {
+                        type: Type.OBJECT, properties: {
+                            existingAssets: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { url: { type: Type.STRING }, suggestion: { type: Type.STRING } }, required: ["url", "suggestion"] } },
+                            newOpportunities: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { title: { type: Type.STRING }, description: { type: Type.STRING } }, required: ["title", "description"] } }
+                        }, required: ["existingAssets", "newOpportunities"]
+                    }
+                })
+            );
+            const generatedText = response.text;
 
             if (!generatedText) throw new Error("AI returned an empty response.");
             const data = JSON.parse(extractJson(generatedText));
             if (!data.existingAssets && !data.newOpportunities) throw new Error("AI did not return a valid cluster plan.");
-            dispatch({ type: 'GENERATE_CLUSTERS_SUCCESS', payload: data });
+            dispatch({ type: 'GENERATE_CLUSTERS_SUCCESS', payload: { pillarTopic, plan: data } });
         } catch (error) {
             const message = (error instanceof Error) ? error.message : String(error);
             dispatch({ type: 'GENERATE_CLUSTERS_ERROR', payload: `Error generating cluster plan: ${message}` });
         }
     };
 
-    const handleGenerateContent = async (postOrTopic, pillarTopic = null) => {
+    /**
+     * Reads the published content of cluster pages and records the internal links in each, for
+     * the topical map. Each URL is looked up by its slug among posts, then pages.
+     * @returns The URLs that could not be read.
+     */
+    const handleScanClusterLinks = async (urls: string[]): Promise<string[]> => {
+        const ctx = getWpContext();
+        const siteHosts = buildSiteLinkIndex(state.wpUrl, state.sitemapUrls, state.posts).hosts;
+        const scanned: Record<string, string[]> = {};
+        const failed: string[] = [];
+        for (const url of urls) {
+            try {
+                const slug = decodeURIComponent(new URL(url).pathname.split('/').filter(Boolean).pop() || '');
+                if (!slug) throw new Error(`${url} has no slug.`);
+                let content: string | null = null;
+                for (const restPath of ['wp/v2/posts', 'wp/v2/pages']) {
+                    const matches = await fetchWpJson(ctx, `${restPath}?slug=${encodeURIComponent(slug)}&_fields=link,content`);
+                    const match = Array.isArray(matches) ? matches.find(m => normalizeLinkUrl(m.link) === normalizeLinkUrl(url)) || matches[0] : null;
+                    if (match) {
+                        content = match.content?.rendered || '';
+                        break;
+                    }
+                }
+                if (content === null) throw new Error(`No post or page with the slug "${slug}" was found.`);
+                scanned[normalizeLinkUrl(url)] = internalLinkTargets(content, siteHosts);
+            } catch {
+                failed.push(url);
+            }
+        }
+        dispatch({ type: 'SET_CLUSTER_LINKS', payload: scanned });
+        return failed;
+    };
+
+    const handleGenerateContent = async (
+        postOrTopic, pillarTopic = null, scheduledDate: Date | null = null,
+        { signal, onAttempt, runId, onUsage }: { signal?: AbortSignal; onAttempt?: (entry: AttemptLogEntry) => void; runId?: string; onUsage?: (record: UsageRecord) => void } = {}
+    ) => {
         const isNewContent = typeof postOrTopic === 'string';
         const isRewriteFromUrl = typeof postOrTopic === 'object' && postOrTopic.url && !postOrTopic.id;
+        // A topic that duplicates an existing page would compete with it for the same keyword.
+        if (isNewContent && !signal) {
+            const duplicate = findDuplicateTopic(postOrTopic, collectOverlapDocuments(state));
+            if (duplicate && !window.confirm(`"${postOrTopic}" is ${Math.round(duplicate.score * 100)}% like ${duplicate.doc.url}, so the two are likely to compete for the same keyword. Rewriting that page is usually better.\n\nWrite a new article anyway?`)) return;
+        }
         
         let postToProcess;
         if (isNewContent) {
-            postToProcess = { id: -Date.now(), title: postOrTopic };
+            postToProcess = { id: -Date.now(), title: postOrTopic, topic: postOrTopic };
         } else if (isRewriteFromUrl) {
             postToProcess = { id: postOrTopic.url, title: postOrTopic.title, url: postOrTopic.url }; // Use URL as a temporary ID
         } else {
@@ -1216,86 +6473,97 @@ Return a single, valid JSON object. This object MUST have two keys: "existingAss
         if (isNewContent) dispatch({ type: 'FETCH_START' });
         else dispatch({ type: 'SET_GENERATION_STATUS', payload: { postId: postToProcess.id, status: 'generating' } });
 
-        const internalLinkCandidates = isNewContent ? state.sitemapUrls : state.posts.map(p => p.url).filter(Boolean);
-        const relevantInternalLinks = getRandomSubset(internalLinkCandidates, 75);
-        const internalLinksList = relevantInternalLinks.map(url => `- [${slugToTitle(url)}](${url})`).join('\n');
+        // Fetched posts come first so their real titles win over titles guessed from sitemap slugs.
+        const internalLinkCandidates = [
+            ...state.posts.filter(p => p.url && String(p.id) !== String(postToProcess.id)).map(p => ({ url: p.url, title: p.title })),
+            ...state.sitemapUrls.map(url => ({ url })),
+        ];
+        const relevantInternalLinks = rankInternalLinks([postToProcess.title, pillarTopic].filter(Boolean).join(' '), internalLinkCandidates, 75, postToProcess.url);
+        const internalLinksList = relevantInternalLinks.map(link => `- [${link.title}](${link.url})`).join('\n');
         
-        let internalLinksInstruction = `**Intelligent Internal Linking:** Your primary goal is to semantically link this article to other relevant content on the site. You MUST include 6-10 highly relevant internal links within the article body. Choose the most contextually relevant pages from the following list. Use varied, descriptive anchor text. Do NOT use placeholder links.\n\n**Available Internal Links:**\n${internalLinksList}`;
+        let internalLinksInstruction = `**Intelligent Internal Linking:** Your primary goal is to semantically link this article to other relevant content on the site. You MUST include 6-10 highly relevant internal links within the article body. Choose the most contextually relevant pages from the following list, which is ordered from most to least related to this topic. Use ONLY URLs from this list, exactly as written. Use varied, descriptive anchor text. Do NOT use placeholder links.\n\n**Available Internal Links:**\n${internalLinksList}`;
         if (pillarTopic) {
             internalLinksInstruction += `\n**Strategic Priority:** This article supports the main pillar topic: "${pillarTopic}". Prioritize finding and linking to the most relevant URL for this pillar.`;
         }
 
-        const referencesInstruction = state.aiProvider === 'gemini' 
+        // The model picks from the site's own terms so articles stop landing in "Uncategorized".
+        const inventory = await resolveSiteInventory();
+        const restPath = postToProcess.restPath || 'wp/v2/posts';
+        const categoryChoices = postTypeSupports(inventory, restPath, 'category') ? (inventory?.categories || []).filter(term => term.slug !== 'uncategorized') : [];
+        const tagChoices = postTypeSupports(inventory, restPath, 'post_tag') ? (inventory?.tags || []).slice(0, MAX_PROMPT_TAGS) : [];
+        const taxonomyKeys = [
+            categoryChoices.length ? `"categories" (an array of 1-2 names chosen from the site's existing categories: ${categoryChoices.map(term => term.name).join(', ')})` : '',
+            tagChoices.length ? `"tags" (an array of 3-6 names chosen from the site's existing tags: ${tagChoices.map(term => term.name).join(', ')})` : '',
+        ].filter(Boolean);
+        const taxonomyInstruction = taxonomyKeys.length ? `\n    *   Also include ${taxonomyKeys.join(' and ')}. Use the names exactly as written and never invent new ones.` : '';
+
+        const supportsSearch = AI_PROVIDERS[state.aiProvider].capabilities.searchGrounding;
+        const referencesInstruction = supportsSearch 
             ? `**CRITICAL: Use Google Search:** You MUST use Google Search for up-to-date, authoritative info. A "References" section will be auto-generated from real search results to ensure all links are valid, functional, 200 OK pages.`
             : `**CRITICAL: Add 100% REAL, VERIFIABLE References:** After the conclusion, you MUST add an H2 section titled "References". Provide a bulleted list (\`<ul>\`) of 6-12 links to REAL, CURRENT, and ACCESSIBLE authoritative external sources. Every single link MUST be a fully functional, live URL. Do not invent or hallucinate URLs.`;
 
         const topicOrUrl = postToProcess.url || postToProcess.title;
         let task = isNewContent
             ? "Write the ultimate, SEO-optimized blog post on the topic."
-            : (state.aiProvider === 'gemini'
+            : (supportsSearch
                 ? "Completely rewrite and supercharge the blog post from the URL into a definitive resource. Use your search capabilities to find the latest information and the content at the URL."
                 : `An existing blog post is at the URL below. Your task is to write a completely new, definitive, and supercharged article on the same topic, making it 10x better than the competition. Do NOT try to access the URL; instead, use your general knowledge to create a superior piece of content on the subject matter implied by the URL.`);
 
-        const basePrompt = `You are a world-class SEO and content strategist, operating as a definitive expert in the given topic. Your writing style is direct, high-conviction, and packed with actionable value, reminiscent of Alex Hormozi. Your mission is to produce a comprehensive, 1800+ word pillar blog post that is strategically designed to rank #1 on Google.
+        const { prompt: instructions, template, voice } = renderSitePrompt('article', {
+            topic: topicOrUrl,
+            task,
+            pillar: pillarTopic || '',
+            internalLinks: internalLinksInstruction,
+            references: referencesInstruction,
+        });
+        // The output contract stays outside the editable template because the response is parsed from it.
+        // Templates that place {{topic}} themselves do not get it repeated at the end.
+        const topicLine = /\{\{\s*topic\s*\}\}/.test(template.body) ? '' : `\n\n**${isNewContent ? 'Topic' : 'URL'}:** ${topicOrUrl}`;
+        const basePrompt = `${instructions}
 
-**Core Task:** ${task}
+**Output Requirements:**
 
-**Pillar Post Generation Protocol:**
-
-1.  **Data-Driven SERP & Gap Analysis:**
-    *   **Use Google Search:** Actively use your search capabilities to analyze the current top 5-10 search results for the primary keyword.
-    *   **Identify Content Gaps:** Your primary objective is to create "10x content" that addresses the gaps they've missed. What questions are unanswered? What topics are only superficially covered? Your article MUST provide significantly more value, depth, and unique insights than the current top rankers.
-
-2.  **Content & Tone:**
-    *   **Expert Persona:** Write with extreme authority. Inject critical thinking and strong, defensible opinions. Avoid generic, fluffy language.
-    *   **Readability is Key:** Use short, punchy paragraphs (2-3 sentences max). Utilize bolding, bullet points (\`<ul>\`), and numbered lists (\`<ol>\`) to make the extensive content scannable.
-
-3.  **Required Article Structure (in this exact order):**
-    *   **"Wow" Introduction:** Start with a compelling hook: a surprising statistic, a bold contrarian claim, or a relatable pain point.
-    *   **Key Takeaways Box:** Immediately after the intro, add an H3 titled "Key Takeaways" inside a \`<div class="key-takeaways">\`. Provide a bulleted list of 6-8 crucial, actionable points.
-    *   **Comprehensive Body:** A deep-dive exploration of the topic using clear H2 and H3 subheadings. The final article MUST be at least 1800 words. Cover all aspects of the main keyword and the insights from your gap analysis.
-    *   **Intelligent Internal Linking:** ${internalLinksInstruction}
-    *   **FAQ Section:** Include an H2 titled "Frequently Asked Questions" and answer 3-5 relevant questions (inspired by "People Also Ask" from your search analysis).
-    *   **Conclusion:** A strong, actionable conclusion that summarizes the key points and gives the reader a clear next step.
-    *   **References:** ${referencesInstruction}
-
-4.  **Automated Schema Markup (JSON-LD):**
+1.  **Automated Schema Markup (JSON-LD):**
     *   Based on the content, generate the appropriate JSON-LD schema.
     *   If you include an FAQ section, you MUST generate \`FAQPage\` schema for it.
     *   In all cases, generate \`Article\` schema. You can combine these using the \`@graph\` keyword if necessary.
     *   The schema should be a complete, valid JSON object, ready to be embedded.
 
-5.  **Final JSON Output:**
+2.  **Final JSON Output:**
     *   You MUST return a single, valid JSON object.
-    *   The object must have these exact keys: "title" (a compelling, SEO-friendly H1 title), "metaTitle" (50-60 characters), "metaDescription" (150-160 characters), "content" (the full HTML body), and "schemaMarkup" (a string containing the complete JSON-LD object).
-    *   The "content" string MUST NOT include the main <h1> title.
-
-**${isNewContent ? 'Topic' : 'URL'}:** ${topicOrUrl}`;
+    *   The object must have these exact keys: "title" (a compelling, SEO-friendly H1 title), "metaTitle" (50-60 characters), "metaDescription" (150-160 characters), "focusKeyword" (the single primary keyword the article targets), "content" (the full HTML body), "schemaMarkup" (a string containing the complete JSON-LD object), and "excerpt" (a plain-text summary of the article in 1-2 sentences, under 55 words).${taxonomyInstruction}
+    *   The "content" string MUST NOT include the main <h1> title.${topicLine}`;
         
+        // Single generations stream into the live preview and are cancelled from it; bulk jobs are cancelled through the queue.
+        const liveController = signal ? null : new AbortController();
+        const requestSignal = signal || liveController.signal;
+        const streaming = AI_PROVIDERS[state.aiProvider].capabilities.streaming;
+        if (liveController) {
+            liveGenerationRef.current = liveController;
+            dispatch({ type: 'LIVE_GENERATION_START', payload: { postId: postToProcess.id, title: postToProcess.title, targetWords: voice.targetLength || DEFAULT_VOICE_PROFILE.targetLength, streaming, startedAt: Date.now() } });
+        }
+        let lastPreviewAt = 0;
+        const showPreview = (textSoFar: string) => {
+            if (Date.now() - lastPreviewAt < 150) return;
+            lastPreviewAt = Date.now();
+            dispatch({ type: 'LIVE_GENERATION_TEXT', payload: textSoFar });
+        };
+
         try {
-            const ai = getAiClient();
-            const { parsedContent, geminiResponse } = await makeResilientAiCall(async () => {
-                let generatedText: string;
-                let response: GenerateContentResponse | null = null;
-                if (state.aiProvider === 'gemini') {
-                    response = await (ai as GoogleGenAI).models.generateContent({ model: 'gemini-2.5-flash', contents: basePrompt, config: { tools: [{ googleSearch: {} }] } });
-                    generatedText = response.text;
-                } else if (state.aiProvider === 'anthropic') {
-                    const anthropicResponse = await (ai as Anthropic).messages.create({ model: 'claude-3-haiku-20240307', max_tokens: 4096, messages: [{ role: 'user', content: basePrompt }] });
-                    generatedText = anthropicResponse.content[0].type === 'text' ? anthropicResponse.content[0].text : '';
-                } else {
-                    const openAiResponse = await (ai as OpenAI).chat.completions.create({ model: state.aiProvider === 'openai' ? 'gpt-4o' : state.openRouterModel, messages: [{ role: 'user', content: basePrompt }], response_format: { type: "json_object" } });
-                    generatedText = openAiResponse.choices[0].message.content;
-                }
+            const ai = getAiClient({ postId: postToProcess.id, runId, onUsage });
+            const { parsedContent, groundingChunks } = await makeResilientAiCall(async () => {
+                const request = { prompt: basePrompt, json: true, useSearch: supportsSearch, signal: requestSignal };
+                if (liveController) dispatch({ type: 'LIVE_GENERATION_TEXT', payload: '' });
+                const response = liveController && streaming ? await ai.stream(request, showPreview) : await ai.generate(request);
+                const generatedText = response.text;
                 if (!generatedText) throw new Error("AI returned an empty response.");
                 const data = JSON.parse(extractJson(generatedText));
                 if (!data || !data.content) throw new Error("AI response is missing required 'content' field.");
-                return { parsedContent: data, geminiResponse: response };
-            });
+                return { parsedContent: data, groundingChunks: response.groundingChunks };
+            }, 3, 2000, { signal: requestSignal, onAttempt });
 
             let finalContent = parsedContent.content || '';
-            const groundingChunks = geminiResponse?.candidates?.[0]?.groundingMetadata?.groundingChunks;
-            if (state.aiProvider === 'gemini' && groundingChunks?.length > 0) {
+            if (supportsSearch && groundingChunks?.length > 0) {
                 const uniqueReferences = groundingChunks.reduce((map, chunk) => {
                     if (chunk.web?.uri) map.set(chunk.web.uri, chunk.web.title || chunk.web.uri);
                     return map;
@@ -1309,7 +6577,24 @@ Return a single, valid JSON object. This object MUST have two keys: "existingAss
                 }
             }
             
-            const finalPost = { ...postToProcess, title: parsedContent.title || postToProcess.title, metaTitle: parsedContent.metaTitle || '', metaDescription: parsedContent.metaDescription || '', content: finalContent, schemaMarkup: parsedContent.schemaMarkup ? JSON.stringify(parsedContent.schemaMarkup, null, 2) : '' };
+            const siteLinks = buildSiteLinkIndex(state.wpUrl, state.sitemapUrls, state.posts);
+            finalContent = applyOutboundRel(finalContent, siteLinks.hosts, parsePatternList(state.affiliatePatterns));
+            // Runs in the background; results appear on the review's Links tab as they arrive.
+            handleCheckExternalLinks(finalContent);
+
+            // Suggestions fill in missing terms and are confirmed on the review's Details tab; terms the post already has are kept.
+            const suggestedCategories = matchTermNames(parsedContent.categories, categoryChoices);
+            const suggestedTags = matchTermNames(parsedContent.tags, tagChoices);
+            const taxonomy = {
+                suggestedCategories,
+                suggestedTags,
+                categories: isUncategorized(postToProcess.categories, inventory?.categories || []) && suggestedCategories.length ? suggestedCategories : postToProcess.categories,
+                tags: postToProcess.tags?.length ? postToProcess.tags : suggestedTags,
+            };
+
+            const promptTemplate: PromptTemplateRef = { id: template.id, name: template.name, version: template.version };
+            const locale = postToProcess.locale || voice.locale;
+            const finalPost = { ...postToProcess, promptTemplate, locale, title: parsedContent.title || postToProcess.title, metaTitle: parsedContent.metaTitle || '', metaDescription: parsedContent.metaDescription || '', focusKeyword: parsedContent.focusKeyword || postToProcess.focusKeyword || '', excerpt: parsedContent.excerpt || postToProcess.excerpt || '', ...taxonomy, content: finalContent, schemaMarkup: parsedContent.schemaMarkup ? setSchemaLanguage(JSON.stringify(parsedContent.schemaMarkup, null, 2), locale) : '', ...(scheduledDate ? { scheduledDate: scheduledDate.toISOString() } : {}) };
             
             if (isNewContent || isRewriteFromUrl) dispatch({ type: 'ADD_GENERATED_POST_AND_REVIEW', payload: finalPost });
             else {
@@ -1317,52 +6602,656 @@ Return a single, valid JSON object. This object MUST have two keys: "existingAss
                 dispatch({ type: 'SET_GENERATION_STATUS', payload: { postId: postToProcess.id, status: 'done' } });
             }
         } catch (error) {
+            if (requestSignal.aborted) {
+                // A cancelled job is not a failure: put the post back the way it was and let the queue know.
+                if (!isNewContent) dispatch({ type: 'SET_GENERATION_STATUS', payload: { postId: postToProcess.id, status: 'idle' } });
+                else dispatch({ type: 'GENERATION_CANCELLED' });
+                if (liveController) return;
+                throw error;
+            }
             const errorMessage = `Error generating content: ${(error instanceof Error) ? error.message : String(error)}`;
             if(isNewContent) dispatch({ type: 'FETCH_ERROR', payload: errorMessage });
             else {
                  dispatch({ type: 'GENERATE_SINGLE_POST_SUCCESS', payload: { ...postToProcess, content: `<p>Error: ${errorMessage}</p>` } });
                  dispatch({ type: 'SET_GENERATION_STATUS', payload: { postId: postToProcess.id, status: 'error' } });
             }
+            // A bulk run's queue passes a signal and needs to know the job failed.
+            if (signal) throw error;
+        } finally {
+            if (liveController) {
+                if (liveGenerationRef.current === liveController) liveGenerationRef.current = null;
+                dispatch({ type: 'LIVE_GENERATION_END' });
+            }
         }
     };
 
-    const handleGenerateAll = async () => {
-        const postsToProcess = state.posts.filter(p => state.selectedPostIds.has(p.id) && !['done', 'generating'].includes(state.generationStatus[String(p.id)]));
-        if (postsToProcess.length === 0) return;
-        dispatch({ type: 'BULK_GENERATE_START', payload: postsToProcess.length });
-        await processPromiseQueue(postsToProcess, handleGenerateContent, () => dispatch({ type: 'BULK_GENERATE_PROGRESS' }), 2000);
+    const handleCancelGeneration = () => liveGenerationRef.current?.abort();
+
+    const handlePauseBulk = () => {
+        jobQueueRef.current?.pause();
+        dispatch({ type: 'BULK_GENERATE_PAUSED', payload: true });
+    };
+
+    const handleResumeBulk = () => {
+        jobQueueRef.current?.resume();
+        dispatch({ type: 'BULK_GENERATE_PAUSED', payload: false });
+    };
+
+    const handleCancelBulk = () => jobQueueRef.current?.cancel();
+
+    /**
+     * Generates content for the selected posts, or for an explicit list of post IDs when
+     * resuming an interrupted run or retrying failed posts. Jobs go through a queue sized
+     * by the current provider's concurrency and requests-per-minute settings.
+     */
+    const handleGenerateAll = async (postIds: (number | string)[] | null = null) => {
+        const isQueued = (p) => postIds ? postIds.some(id => String(id) === String(p.id)) : state.selectedPostIds.has(p.id);
+        const postsToProcess = state.posts.filter(p => isQueued(p) && !['done', 'generating'].includes(state.generationStatus[String(p.id)]));
+        if (postsToProcess.length === 0) {
+            if (postIds) dispatch({ type: 'BULK_GENERATE_COMPLETE' });
+            return;
+        }
+        const { concurrency, requestsPerMinute } = state.queueSettings[state.aiProvider] || AI_PROVIDERS[state.aiProvider].queueDefaults;
+        const model = state.aiModels[state.aiProvider]?.trim() || AI_PROVIDERS[state.aiProvider].defaultModel;
+        const estimate = estimateArticleUsage(state.usageLog, model, getVoiceProfile().targetLength);
+        const estimatedPostCost = usageCost({ ...estimate, at: '', provider: state.aiProvider, model }, state.modelPrices);
+        const monthSpent = sumUsage(state.usageLog.filter(record => usageMonth(record.at) === usageMonth(new Date().toISOString())), state.modelPrices).cost;
+        if (!window.confirm(describeRunEstimate(postsToProcess.length, model, estimate, estimatedPostCost, state.budget, monthSpent))) return;
+
+        const runId = `run-${Date.now()}`;
+        const run = { cost: 0, inputTokens: 0, outputTokens: 0, succeeded: 0, failed: 0, inFlight: 0, stoppedBy: null as string | null };
+        // Posts already being written will be paid for, so they count against the caps before they finish.
+        const budgetExceededBy = (): string | null => {
+            const settled = run.succeeded + run.failed;
+            const perPost = settled > 0 ? run.cost / settled : (estimatedPostCost || 0);
+            const projected = run.cost + (run.inFlight + 1) * perPost;
+            if (state.budget.perRun > 0 && projected > state.budget.perRun) return `the ${formatCost(state.budget.perRun)} per-run budget`;
+            if (state.budget.perMonth > 0 && monthSpent + projected > state.budget.perMonth) return `the ${formatCost(state.budget.perMonth)} monthly budget`;
+            return null;
+        };
+        dispatch({ type: 'BULK_GENERATE_START', payload: { postIds: postsToProcess.map(p => p.id), runId } });
+        const queue = createJobQueue<WorkspacePost, void>({
+            concurrency,
+            requestsPerMinute,
+            worker: async (post, signal) => {
+                run.stoppedBy = run.stoppedBy || budgetExceededBy();
+                if (run.stoppedBy) {
+                    queue.drain();
+                    throw createAbortError();
+                }
+                run.inFlight++;
+                try {
+                    await handleGenerateContent(post, null, null, {
+                        signal,
+                        runId,
+                        onAttempt: entry => dispatch({ type: 'JOB_ATTEMPT', payload: { postId: post.id, entry } }),
+                        onUsage: record => {
+                            run.cost += usageCost(record, state.modelPrices) || 0;
+                            run.inputTokens += record.inputTokens;
+                            run.outputTokens += record.outputTokens;
+                        },
+                    });
+                } finally {
+                    run.inFlight--;
+                }
+            },
+            onJobSettled: (post, outcome) => {
+                if (outcome.ok === false && outcome.cancelled) dispatch({ type: 'SET_GENERATION_STATUS', payload: { postId: post.id, status: 'idle' } });
+                else {
+                    if (outcome.ok === true) run.succeeded++;
+                    else run.failed++;
+                    dispatch({ type: 'BULK_GENERATE_PROGRESS', payload: post.id });
+                }
+            },
+        });
+        jobQueueRef.current = queue;
+        await queue.run(postsToProcess);
+        jobQueueRef.current = null;
         dispatch({ type: 'BULK_GENERATE_COMPLETE' });
+        const remaining = postsToProcess.length - run.succeeded - run.failed;
+        dispatch({
+            type: 'SET_BULK_RUN_SUMMARY',
+            payload: `Generated ${run.succeeded} post${run.succeeded !== 1 ? 's' : ''} for about ${formatCost(run.cost)} (${formatTokens(run.inputTokens)} input and ${formatTokens(run.outputTokens)} output tokens).`
+                + (run.failed ? ` ${run.failed} failed and can be generated again.` : '')
+                + (run.stoppedBy ? ` Stopped before going over ${run.stoppedBy}; the other ${remaining} ${remaining !== 1 ? 'are' : 'is'} still selected.` : ''),
+        });
+    };
+
+    /**
+     * Fetches the current, unrendered version of a post so it can be restored later.
+     * @param postId The WordPress post ID.
+     * @param restPath The post type's collection route.
+     * @returns A snapshot of the post's title, content, excerpt, status, author, terms and registered meta.
+     */
+    const takePostSnapshot = async (postId: number, restPath = 'wp/v2/posts'): Promise<PostSnapshot> => {
+        const { wpUrl, wpUser, wpPassword } = state;
+        const endpoint = `${normalizeSiteUrl(wpUrl)}/wp-json/${restPath}/${postId}?context=edit&_fields=id,title,content,excerpt,status,meta,link,modified,author,categories,tags,featured_media`;
+        const headers = new Headers({ 'Authorization': 'Basic ' + btoa(`${wpUser}:${wpPassword}`) });
+        const response = await directFetch(endpoint, { headers });
+        if (!response.ok) {
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(errorData.message || `HTTP error! Status: ${response.status}`);
+        }
+        const data = await response.json();
+        // Yoast's fields are part of `meta`, so only the other plugins need their own read.
+        const seoPlugin = await resolveSeoPlugin();
+        let seo: PostSnapshot['seo'];
+        if (seoPlugin !== 'none' && seoPlugin !== 'yoast') {
+            try {
+                seo = { plugin: seoPlugin, fields: await SEO_PLUGINS[seoPlugin].read(getWpContext(), postId, data.link, restPath) };
+            } catch (error) {
+                console.warn('Could not read the SEO fields for the snapshot:', error);
+            }
+        }
+        return {
+            id: `${postId}-${Date.now()}`,
+            siteUrl: normalizeSiteUrl(wpUrl),
+            postId,
+            takenAt: new Date().toISOString(),
+            title: data.title?.raw ?? data.title?.rendered ?? '',
+            content: data.content?.raw ?? data.content?.rendered ?? '',
+            excerpt: data.excerpt?.raw ?? data.excerpt?.rendered ?? '',
+            status: data.status,
+            // WordPress returns an empty array instead of an object when no meta is registered.
+            meta: Array.isArray(data.meta) ? {} : (data.meta || {}),
+            ...(seo ? { seo } : {}),
+            link: data.link,
+            modified: data.modified,
+            restPath,
+            author: data.author,
+            categories: data.categories,
+            tags: data.tags,
+            featuredMedia: data.featured_media,
+        };
+    };
+
+    const handleRollback = async (postId: number) => {
+        const snapshot = getLatestSnapshot(state.snapshots, state.wpUrl, postId);
+        if (!snapshot) return;
+        if (!window.confirm(`Restore "${snapshot.title}" to the version saved on ${new Date(snapshot.takenAt).toLocaleString()}? The current content on WordPress will be replaced.`)) return;
+        dispatch({ type: 'PUBLISH_START' });
+        const { wpUser, wpPassword } = state;
+        try {
+            const endpoint = `${snapshot.siteUrl}/wp-json/${snapshot.restPath || 'wp/v2/posts'}/${postId}`;
+            const headers = new Headers({ 'Authorization': 'Basic ' + btoa(`${wpUser}:${wpPassword}`), 'Content-Type': 'application/json' });
+            // JSON.stringify drops the author, terms and featured image of snapshots that did not record them.
+            const body = JSON.stringify({ title: snapshot.title, content: snapshot.content, excerpt: snapshot.excerpt, status: snapshot.status, meta: snapshot.meta, author: snapshot.author, categories: snapshot.categories, tags: snapshot.tags, featured_media: snapshot.featuredMedia });
+            const response = await directFetch(endpoint, { method: 'POST', headers, body });
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}));
+                throw new Error(errorData.message || `HTTP error! Status: ${response.status}`);
+            }
+            const responseData = await response.json();
+            let seoNote = '';
+            if (snapshot.seo) {
+                const fields = Object.fromEntries(Object.entries(snapshot.seo.fields).filter(([, value]) => value !== undefined)) as Partial<SeoFields>;
+                try {
+                    await SEO_PLUGINS[snapshot.seo.plugin].write(getWpContext(), postId, fields, snapshot.restPath || 'wp/v2/posts');
+                } catch (error) {
+                    seoNote = ` The ${SEO_PLUGINS[snapshot.seo.plugin].label} fields could not be restored: ${(error instanceof Error) ? error.message : String(error)}`;
+                }
+            }
+            dispatch({ type: 'PUBLISH_SUCCESS', payload: { originalPostId: postId, responseData, message: `Rolled back "${responseData.title.rendered}" to the version from ${new Date(snapshot.takenAt).toLocaleString()}.${seoNote}`, link: responseData.link } });
+        } catch (error) {
+            const message = (error instanceof Error) ? error.message : String(error);
+            dispatch({ type: 'PUBLISH_ERROR', payload: { postId, message: `Error rolling back post: ${message}` } });
+        }
+    };
+
+    const getWpContext = (): WpContext => ({
+        siteUrl: normalizeSiteUrl(state.wpUrl),
+        headers: new Headers({ 'Authorization': 'Basic ' + btoa(`${state.wpUser}:${state.wpPassword}`) }),
+    });
+
+    /**
+     * Returns the site's SEO plugin, detecting it on first use. A failed detection is not
+     * cached, so the next publish tries again.
+     */
+    const resolveSeoPlugin = async (): Promise<SeoPluginId> => {
+        const siteUrl = normalizeSiteUrl(state.wpUrl);
+        if (state.seoPlugin?.siteUrl === siteUrl) return state.seoPlugin.id;
+        try {
+            const id = await detectSeoPlugin(getWpContext());
+            dispatch({ type: 'SET_SEO_PLUGIN', payload: { siteUrl, id } });
+            return id;
+        } catch (error) {
+            console.warn('Could not detect the SEO plugin:', error);
+            return 'none';
+        }
+    };
+
+    /**
+     * Returns the site's multilingual plugin, detecting it on first use. Like the SEO plugin,
+     * a failed detection is not cached.
+     */
+    const resolveMultilingualPlugin = async (): Promise<MultilingualPluginId> => {
+        const siteUrl = normalizeSiteUrl(state.wpUrl);
+        if (state.multilingualPlugin?.siteUrl === siteUrl) return state.multilingualPlugin.id;
+        try {
+            const id = await detectMultilingualPlugin(getWpContext());
+            dispatch({ type: 'SET_MULTILINGUAL_PLUGIN', payload: { siteUrl, id } });
+            return id;
+        } catch (error) {
+            console.warn('Could not detect a multilingual plugin:', error);
+            return 'none';
+        }
+    };
+
+    /**
+     * Returns the site's inventory, fetching it once per site. Callers go ahead without
+     * categories, tags and authors when it cannot be loaded.
+     */
+    const resolveSiteInventory = (): Promise<SiteInventory | null> => {
+        const siteUrl = normalizeSiteUrl(state.wpUrl);
+        if (!siteUrl || !state.wpUser || !state.wpPassword) return Promise.resolve(null);
+        if (state.siteInventory?.siteUrl === siteUrl) return Promise.resolve(state.siteInventory);
+        // Parallel bulk jobs share one request instead of each fetching the inventory.
+        if (siteInventoryRequestRef.current?.siteUrl === siteUrl) return siteInventoryRequestRef.current.request;
+        const request = fetchSiteInventory(getWpContext())
+            .then(inventory => {
+                dispatch({ type: 'SET_SITE_INVENTORY', payload: inventory });
+                return inventory;
+            })
+            .catch(error => {
+                console.warn('Could not load the site inventory:', error);
+                siteInventoryRequestRef.current = null;
+                return null;
+            });
+        siteInventoryRequestRef.current = { siteUrl, request };
+        return request;
+    };
+
+    /**
+     * Checks the outbound links in some HTML through the link-check proxy. Links that were
+     * already checked are skipped unless `force` is set.
+     */
+    const handleCheckExternalLinks = async (html: string, force = false) => {
+        const { hosts } = buildSiteLinkIndex(state.wpUrl, state.sitemapUrls, state.posts);
+        const urls = extractExternalLinks(html, hosts).filter(url => force || !state.linkChecks[url]);
+        if (urls.length === 0) return;
+        dispatch({ type: 'LINK_CHECK_START', payload: urls });
+        const queue = createJobQueue<string, LinkCheckResult>({
+            concurrency: 4,
+            requestsPerMinute: 120,
+            worker: url => checkExternalLink(url, state.linkCheckProxy.trim()),
+            onJobSettled: (url, outcome) => dispatch({
+                type: 'LINK_CHECK_RESULT',
+                payload: outcome.ok === true ? outcome.value : { url, ok: false, status: null, error: 'The check did not run.', checkedAt: new Date().toISOString() },
+            }),
+        });
+        await queue.run(urls);
+    };
+
+    /**
+     * Collects the WordPress values used to complete Article schema: the site's name and logo,
+     * and the post's author, dates and URL. Posts with no author picked in the review are
+     * credited to their WordPress author, or to the connected user when they are new.
+     */
+    const fetchSchemaFacts = async (post, publishDate: Date | null = null): Promise<SchemaFacts> => {
+        const ctx = getWpContext();
+        const site = await fetchWpJson(ctx, '?_fields=name,url,home,site_logo,site_icon_url');
+        let publisherLogo = site.site_icon_url || undefined;
+        if (site.site_logo) {
+            const logo = await fetchWpJson(ctx, `wp/v2/media/${site.site_logo}?_fields=source_url`).catch(() => null);
+            if (logo?.source_url) publisherLogo = logo.source_url;
+        }
+        const isExisting = typeof post.id === 'number' && post.id > 0;
+        const wpPost = isExisting ? await fetchWpJson(ctx, `${post.restPath || 'wp/v2/posts'}/${post.id}?_fields=author,date_gmt,link`) : null;
+        const authorId = post.author || wpPost?.author;
+        const author = await fetchWpJson(ctx, authorId ? `wp/v2/users/${authorId}?_fields=name,link` : 'wp/v2/users/me?_fields=name,link').catch(() => null);
+        return {
+            url: wpPost?.link || post.url || undefined,
+            datePublished: wpPost?.date_gmt ? new Date(`${wpPost.date_gmt}Z`).toISOString() : (publishDate || new Date()).toISOString(),
+            dateModified: new Date().toISOString(),
+            authorName: author?.name,
+            authorUrl: author?.link,
+            publisherName: site.name,
+            publisherUrl: site.home || site.url,
+            publisherLogo,
+            inLanguage: post.locale,
+            image: post.featuredImage?.sourceUrl,
+        };
+    };
+
+    const handleEnrichSchema = async (post) => {
+        const facts = await fetchSchemaFacts(post, post.scheduledDate ? new Date(post.scheduledDate) : null);
+        const index = state.posts.findIndex(p => p.id === post.id);
+        dispatch({ type: 'UPDATE_POST_FIELD', payload: { index, field: 'schemaMarkup', value: enrichSchemaMarkup(post.schemaMarkup || '', facts) } });
+    };
+
+    /**
+     * Writes a localized version of a generated post and opens it for review. The source and
+     * its translations share a translation group, which links them when they are published.
+     */
+    const handleTranslatePost = async (post, locale: string) => {
+        const sourceLocale = post.locale || getVoiceProfile().locale;
+        if (canonicalLocale(locale) === canonicalLocale(sourceLocale)) throw new Error(`This post is already in ${localeLabel(sourceLocale)}.`);
+        const prompt = `You are a professional translator and SEO localization expert. Localize the article below from ${localeLabel(sourceLocale)} (${sourceLocale}) into ${localeLabel(locale)} (${locale}) for readers in that market.
+
+**Rules:**
+*   Translate naturally and adapt idioms, units, currencies and examples to the market. Do not translate word for word.
+*   Keep every HTML tag, attribute and link URL exactly as it is. Only translate visible text, including anchor text and image alt text.
+*   "focusKeyword" must be the phrase people in that market actually search for, not a literal translation.
+*   Keep "metaTitle" at 50-60 characters and "metaDescription" at 150-160 characters.
+*   In "schemaMarkup", translate the visible text (headlines, descriptions, questions and answers) and set "inLanguage" to "${locale}". Keep URLs, dates and "@type" values unchanged.
+
+**Output:** Return a single, valid JSON object with exactly these keys: "title", "metaTitle", "metaDescription", "focusKeyword", "excerpt", "content" and "schemaMarkup" (a string containing the complete JSON-LD object).
+
+**Article:**
+${JSON.stringify({ title: post.title, metaTitle: post.metaTitle, metaDescription: post.metaDescription, focusKeyword: post.focusKeyword, excerpt: post.excerpt, content: post.content, schemaMarkup: post.schemaMarkup })}`;
+        const translationId = -Date.now();
+        const ai = getAiClient({ postId: translationId });
+        const translated = await makeResilientAiCall(async () => {
+            const response = await ai.generate({ prompt, json: true });
+            if (!response.text) throw new Error("AI returned an empty response.");
+            const data = JSON.parse(extractJson(response.text));
+            if (!data || !data.content) throw new Error("AI response is missing required 'content' field.");
+            return data;
+        }, 3, 2000);
+        const translationGroup = post.translationGroup || `translation-${Date.now()}`;
+        if (!post.translationGroup) {
+            dispatch({ type: 'UPDATE_POST_FIELD', payload: { index: state.posts.findIndex(p => p.id === post.id), field: 'translationGroup', value: translationGroup } });
+        }
+        const schemaMarkup = translated.schemaMarkup || post.schemaMarkup;
+        // Categories and tags are left to the review: multilingual sites keep separate terms per language.
+        const translation = {
+            id: translationId,
+            title: translated.title || post.title,
+            metaTitle: translated.metaTitle || '',
+            metaDescription: translated.metaDescription || '',
+            focusKeyword: translated.focusKeyword || '',
+            excerpt: translated.excerpt || '',
+            content: translated.content,
+            schemaMarkup: schemaMarkup ? setSchemaLanguage(typeof schemaMarkup === 'string' ? schemaMarkup : JSON.stringify(schemaMarkup, null, 2), locale) : '',
+            author: post.author,
+            restPath: post.restPath,
+            promptTemplate: post.promptTemplate,
+            locale,
+            translationGroup,
+            translatedFrom: { title: post.title, locale: sourceLocale },
+        };
+        dispatch({ type: 'ADD_GENERATED_POST_AND_REVIEW', payload: translation });
+        dispatch({ type: 'SET_GENERATION_STATUS', payload: { postId: translation.id, status: 'done' } });
+    };
+
+    const handleGenerateImage = async (post, prompt: string): Promise<string> => {
+        const ai = getAiClient({ postId: post.id });
+        const image = await makeResilientAiCall(() => ai.generateImage({ prompt }), 2, 2000);
+        return `data:${image.mimeType};base64,${image.base64}`;
+    };
+
+    /** Writes alt text and a caption for a post's featured image from what the image shows. */
+    const handleDescribeImage = async (post, description: string): Promise<{ altText: string; caption: string }> => {
+        const locale = post.locale || getVoiceProfile().locale;
+        const prompt = `Write the alt text and caption for the featured image of a blog post, in ${localeLabel(locale)}.
+
+**Post title:** ${post.title}
+**Focus keyword:** ${post.focusKeyword || 'none'}
+**What the image shows:** ${description || post.title}
+
+**Rules:**
+*   "altText" describes what the image shows for someone who cannot see it, in under 125 characters. Do not start with "Image of" or "Picture of". Use the focus keyword only if it fits naturally.
+*   "caption" is one short sentence that ties the image to the post.
+
+**Output:** Return a single, valid JSON object with exactly the keys "altText" and "caption".`;
+        const ai = getAiClient({ postId: post.id });
+        return makeResilientAiCall(async () => {
+            const response = await ai.generate({ prompt, json: true });
+            if (!response.text) throw new Error("AI returned an empty response.");
+            const data = JSON.parse(extractJson(response.text));
+            if (!data || !data.altText) throw new Error("AI response is missing required 'altText' field.");
+            return { altText: String(data.altText), caption: String(data.caption || '') };
+        }, 3, 2000);
     };
 
-    const handlePublish = async (post) => {
+    /**
+     * Rewrites one section of a post, or its meta title and description when no section is
+     * given, following an optional instruction. The rest of the article is left as it is; a
+     * rewritten FAQ also updates the FAQPage schema.
+     */
+    const handleRegenerateSection = async (post, section: ContentSection | null, instruction: string): Promise<void> => {
+        const voice = voiceProfileVariables(getVoiceProfile());
+        const locale = post.locale || getVoiceProfile().locale;
+        const sections = splitContentSections(post.content);
+        const context = `**Article title:** ${post.title}
+**Focus keyword:** ${post.focusKeyword || 'none'}
+**Language:** ${localeLabel(locale)} (${locale})
+**Tone:** ${voice.tone}
+**Reading level:** ${voice.readingLevel}
+**Banned phrases:** ${voice.bannedPhrases}`;
+        const ask = instruction.trim() || 'Improve it: make it clearer, more specific and more useful to the reader.';
+        const ai = getAiClient({ postId: post.id });
+        const requestJson = (prompt: string, field: string) => makeResilientAiCall(async () => {
+            const response = await ai.generate({ prompt, json: true });
+            if (!response.text) throw new Error("AI returned an empty response.");
+            const data = JSON.parse(extractJson(response.text));
+            if (!data || !data[field]) throw new Error(`AI response is missing required '${field}' field.`);
+            return data;
+        }, 3, 2000);
+
+        if (!section) {
+            const intro = decodeHtmlEntities(sections[0]?.html || '').replace(/\s+/g, ' ').trim().slice(0, 1500);
+            const data = await requestJson(`Write a new meta title and meta description for the article below, following the instruction.
+
+${context}
+**Current meta title:** ${post.metaTitle || 'none'}
+**Current meta description:** ${post.metaDescription || 'none'}
+
+**Instruction:** ${ask}
+
+**Rules:**
+*   "metaTitle" is 50-60 characters and includes the focus keyword near the start.
+*   "metaDescription" is 150-160 characters, includes the focus keyword and gives the reader a reason to click.
+
+**Output:** Return a single, valid JSON object with exactly the keys "metaTitle" and "metaDescription".
+
+**Article introduction:** ${intro}`, 'metaTitle');
+            const metaTitle = String(data.metaTitle);
+            const metaDescription = String(data.metaDescription || post.metaDescription || '');
+            const index = postsRef.current.findIndex(p => p.id === post.id);
+            const latest = postsRef.current[index];
+            if (!latest || (latest.metaTitle || '') !== (post.metaTitle || '') || (latest.metaDescription || '') !== (post.metaDescription || '')) {
+                throw sectionConflictError('They were edited while they were being rewritten, so your edit was kept and the rewrite was not applied.', `${metaTitle}\n\n${metaDescription}`);
+            }
+            dispatch({ type: 'UPDATE_POST_FIELD', payload: { index, field: 'metaTitle', value: metaTitle } });
+            dispatch({ type: 'UPDATE_POST_FIELD', payload: { index, field: 'metaDescription', value: metaDescription } });
+            return;
+        }
+
+        const data = await requestJson(`You are editing one part of an existing article. Rewrite only that part, following the instruction.
+
+${context}
+
+**Outline of the whole article (for context only):**
+${sections.map(s => `- ${s.label}`).join('\n')}
+
+**Instruction:** ${ask}
+
+**Rules:**
+*   ${SECTION_REWRITE_RULES[section.kind]}
+*   Return HTML using the same kinds of tags as the original. Keep its links unless the instruction says otherwise, and never invent URLs.
+*   Do not repeat what other sections cover, and do not add an \`<h1>\`.
+
+**Output:** Return a single, valid JSON object with one key, "html", holding the rewritten part.
+
+**The part to rewrite (${section.label}):**
+${section.html}`, 'html');
+        const rewritten = String(data.html).trim();
+        const latest = postsRef.current.find(p => p.id === post.id);
+        if (!latest?.content?.includes(section.html)) {
+            throw sectionConflictError(`${section.label} was edited while it was being rewritten, so your edit was kept and the rewrite was not applied.`, rewritten);
+        }
+        const trailingSpace = section.html.match(/\s*$/)[0];
+        dispatch({ type: 'REPLACE_POST_SECTION', payload: { postId: post.id, from: section.html, to: rewritten + trailingSpace, syncFaq: section.kind === 'faq' } });
+    };
+
+    /**
+     * Gets a post's featured image ready to attach: uploads a generated image, or saves edited
+     * alt text and caption on a library image. The result is recorded on the post so a
+     * second publish does not upload it again.
+     */
+    const prepareFeaturedImage = async (post): Promise<FeaturedImage> => {
+        const image: FeaturedImage = post.featuredImage;
+        const ctx = getWpContext();
+        let prepared = image;
+        if (!image.mediaId && image.dataUrl) {
+            const file = await (await fetch(image.dataUrl)).blob();
+            const uploaded = await uploadWpMedia(ctx, file, imageFileName(post.title, file.type), { alt_text: image.altText, caption: image.caption, title: post.title });
+            prepared = { ...image, mediaId: uploaded.id, sourceUrl: uploaded.sourceUrl, dataUrl: undefined, libraryAltText: image.altText, libraryCaption: image.caption };
+        } else if (image.mediaId && (image.altText !== image.libraryAltText || image.caption !== image.libraryCaption)) {
+            await fetchWpJson(ctx, `wp/v2/media/${image.mediaId}`, { method: 'POST', body: { alt_text: image.altText, caption: image.caption } });
+            prepared = { ...image, libraryAltText: image.altText, libraryCaption: image.caption };
+        }
+        if (prepared !== image) {
+            dispatch({ type: 'UPDATE_POST_FIELD', payload: { index: state.posts.findIndex(p => p.id === post.id), field: 'featuredImage', value: prepared } });
+        }
+        return prepared;
+    };
+
+    /**
+     * Sends a post to WordPress, then writes its SEO fields through the detected SEO plugin.
+     * With `expectedModified`, an update is skipped when the post was edited in WordPress
+     * after we fetched it. With WPML or Polylang, new posts are filed under their language,
+     * and Polylang also links translations to the versions already published.
+     * @returns Whether WordPress accepted the post.
+     */
+    const handlePublish = async (post, { status = 'publish', date = null, expectedModified = null, seoPlugin = null, multilingualPlugin = null }: { status?: PublishStatus; date?: Date | null; expectedModified?: string | null; seoPlugin?: SeoPluginId | null; multilingualPlugin?: MultilingualPluginId | null } = {}): Promise<boolean> => {
         dispatch({ type: 'PUBLISH_START' });
         const { wpUrl, wpUser, wpPassword } = state;
         const originalPostId = post.id;
         try {
+            if (status === 'future' && (!date || date.getTime() <= Date.now())) throw new Error('Scheduled posts need a publish date in the future.');
             const isUpdate = typeof originalPostId === 'number' && originalPostId > 0;
-            const endpoint = isUpdate ? `${wpUrl.replace(/\/$/, "")}/wp-json/wp/v2/posts/${originalPostId}` : `${wpUrl.replace(/\/$/, "")}/wp-json/wp/v2/posts`;
+            const restPath = post.restPath || 'wp/v2/posts';
+            let snapshot: PostSnapshot | null = null;
+            if (isUpdate) {
+                // Never overwrite a live post without a restorable copy of what was there before.
+                snapshot = await takePostSnapshot(originalPostId, restPath).catch(error => {
+                    throw new Error(`Could not snapshot the current version, so the update was not sent. ${error.message}`);
+                });
+                if (expectedModified && snapshot.modified && snapshot.modified !== expectedModified) {
+                    dispatch({ type: 'PUBLISH_ERROR', payload: { postId: originalPostId, skipped: true, message: `Skipped: this post was edited in WordPress on ${new Date(snapshot.modified).toLocaleString()}, after it was fetched. Re-fetch posts to update it.` } });
+                    return false;
+                }
+            }
+            // Without these facts the markup would go out missing its author, publisher and dates.
+            const schemaFacts: SchemaFacts = post.schemaMarkup ? await fetchSchemaFacts(post, status === 'future' ? date : null).catch(error => {
+                throw new Error(`Could not fetch the author and site details for the schema markup, so the post was not sent. ${error.message}`);
+            }) : {};
+            const schemaErrors = validateSchemaMarkup(post.schemaMarkup ? enrichSchemaMarkup(post.schemaMarkup, schemaFacts) : '', post.content).filter(issue => issue.severity === 'error');
+            if (schemaErrors.length) {
+                throw new Error(`The schema markup has ${schemaErrors.length} error${schemaErrors.length !== 1 ? 's' : ''}. Fix ${schemaErrors.length !== 1 ? 'them' : 'it'} on the Schema tab first: ${schemaErrors[0].message}`);
+            }
+            // Generated images are uploaded only once every check has passed, so discarded drafts and
+            // rejected posts leave nothing in the media library.
+            const featuredImage: FeaturedImage | null = post.featuredImage ? await prepareFeaturedImage(post).catch(error => {
+                throw new Error(`Could not upload the featured image, so the post was not sent. ${error.message}`);
+            }) : null;
+            const schemaMarkup = post.schemaMarkup ? enrichSchemaMarkup(post.schemaMarkup, { ...schemaFacts, image: featuredImage?.sourceUrl || schemaFacts.image }) : '';
+            if (snapshot) dispatch({ type: 'ADD_SNAPSHOT', payload: snapshot });
+            const endpoint = isUpdate ? `${wpUrl.replace(/\/$/, "")}/wp-json/${restPath}/${originalPostId}` : `${wpUrl.replace(/\/$/, "")}/wp-json/${restPath}`;
             const headers = new Headers({ 'Authorization': 'Basic ' + btoa(`${wpUser}:${wpPassword}`), 'Content-Type': 'application/json' });
-            const schemaScript = post.schemaMarkup ? `<script type="application/ld+json">${post.schemaMarkup}</script>` : '';
-            const contentWithSchema = `${schemaScript}${post.content}`;
-            const body = JSON.stringify({ title: post.title, content: contentWithSchema, status: 'publish', meta: { _yoast_wpseo_title: post.metaTitle, _yoast_wpseo_metadesc: post.metaDescription } });
+            // Escaping "<" keeps a stray "</script>" inside a string value from ending the tag early.
+            const schemaScript = schemaMarkup ? `<script type="application/ld+json">${JSON.stringify(parseSchemaMarkup(schemaMarkup).root).replace(/</g, '\\u003c')}</script>` : '';
+            const outboundHosts = buildSiteLinkIndex(wpUrl, state.sitemapUrls, state.posts).hosts;
+            const placeInline = featuredImage?.inline && featuredImage.sourceUrl && !post.content.includes(featuredImage.sourceUrl);
+            const content = placeInline ? insertAfterIntro(post.content, buildImageFigure(featuredImage, featuredImage.sourceUrl)) : post.content;
+            const blocks = serializeGutenbergBlocks(applyOutboundRel(content, outboundHosts, parsePatternList(state.affiliatePatterns)));
+            const contentWithSchema = schemaScript ? `${blockComment('html', {}, schemaScript)}\n\n${blocks}` : blocks;
+            // `date_gmt` avoids depending on the timezone configured in WordPress.
+            const scheduling = status === 'future' ? { date_gmt: date.toISOString().slice(0, 19) } : {};
+            const inventory = state.siteInventory?.siteUrl === normalizeSiteUrl(wpUrl) ? state.siteInventory : null;
+            // Fields the post never had are left out so WordPress keeps what is already set.
+            const details = {
+                ...(post.excerpt ? { excerpt: post.excerpt } : {}),
+                ...(post.author ? { author: post.author } : {}),
+                ...(featuredImage?.mediaId ? { featured_media: featuredImage.mediaId } : {}),
+                ...(Array.isArray(post.categories) && postTypeSupports(inventory, restPath, 'category') ? { categories: post.categories } : {}),
+                ...(Array.isArray(post.tags) && postTypeSupports(inventory, restPath, 'post_tag') ? { tags: post.tags } : {}),
+            };
+            // Existing posts keep their language unless they belong to a translation group.
+            const siteLocale = getVoiceProfile().locale;
+            const postLocale = post.locale || siteLocale;
+            const translations: TranslationLink[] = post.translationGroup
+                ? state.posts
+                    .filter(p => p.translationGroup === post.translationGroup && String(p.id) !== String(originalPostId) && typeof p.id === 'number' && p.id > 0)
+                    .map(p => ({ locale: p.locale || siteLocale, postId: p.id }))
+                : [];
+            const languagePlugin: MultilingualPluginId = (!isUpdate && post.locale) || post.translationGroup ? (multilingualPlugin || await resolveMultilingualPlugin()) : 'none';
+            const languagePlan = languagePlugin !== 'none'
+                ? await MULTILINGUAL_PLUGINS[languagePlugin].prepare(getWpContext(), postLocale, translations)
+                : { query: {}, fields: {} };
+            const query = new URLSearchParams(languagePlan.query).toString();
+            const body = JSON.stringify({ title: post.title, content: contentWithSchema, status, ...scheduling, ...details, ...languagePlan.fields });
             
-            const response = await directFetch(endpoint, { method: 'POST', headers, body });
+            const response = await directFetch(query ? `${endpoint}?${query}` : endpoint, { method: 'POST', headers, body });
             if (!response.ok) {
                 const errorData = await response.json().catch(() => ({}));
                 throw new Error(errorData.message || `HTTP error! Status: ${response.status}`);
             }
             const responseData = await response.json();
-            dispatch({ type: 'PUBLISH_SUCCESS', payload: { originalPostId, responseData, message: `Successfully ${isUpdate ? 'updated' : 'published'} "${responseData.title.rendered}"!`, link: responseData.link } });
+            const outcome = status === 'future' ? `scheduled "${responseData.title.rendered}" for ${date.toLocaleString()}`
+                : status === 'draft' ? `saved "${responseData.title.rendered}" as a draft`
+                : status === 'pending' ? `submitted "${responseData.title.rendered}" for review`
+                : `${isUpdate ? 'updated' : 'published'} "${responseData.title.rendered}"`;
+            const seoResult = await syncSeoFields(getWpContext(), seoPlugin || await resolveSeoPlugin(), responseData.id, responseData.link, {
+                metaTitle: post.metaTitle, metaDescription: post.metaDescription, focusKeyword: post.focusKeyword, canonicalUrl: post.canonicalUrl,
+            }, restPath);
+            const linkedLanguages = languagePlugin !== 'none' ? MULTILINGUAL_PLUGINS[languagePlugin].linkedLanguages(responseData) : null;
+            const translationNote = describeTranslationLink(languagePlugin, postLocale, translations, linkedLanguages);
+            dispatch({ type: 'PUBLISH_SUCCESS', payload: { originalPostId, responseData, message: `Successfully ${outcome}! ${describeSeoSync(seoResult)} ${translationNote}`.trim(), link: responseData.link } });
+            return true;
         } catch (error) {
             const message = (error instanceof Error) ? error.message : String(error);
             dispatch({ type: 'PUBLISH_ERROR', payload: { postId: originalPostId, message: `Error publishing post: ${message}` } });
+            return false;
+        }
+    };
+
+    /**
+     * Publishes, drafts or schedules the selected generated posts one after another. Scheduled
+     * posts are spread over the publishing cadence used by the content calendar.
+     */
+    const handleBulkPublish = async (status: PublishStatus) => {
+        const selected = state.posts.filter(p => state.selectedPostIds.has(p.id) && state.generationStatus[String(p.id)] === 'done');
+        const { minScore, mode } = state.qualityThreshold;
+        const voice = getVoiceProfile();
+        const belowThreshold = selected
+            .map(post => ({ post, score: analyzeContentQuality(post, state.wpUrl, voice).score }))
+            .filter(({ score }) => score < minScore);
+        if (mode === 'block') {
+            belowThreshold.forEach(({ post, score }) => dispatch({ type: 'PUBLISH_ERROR', payload: { postId: post.id, skipped: true, message: `Skipped: quality score ${score} is below the minimum of ${minScore}.` } }));
+        } else if (belowThreshold.length > 0) {
+            const titles = belowThreshold.slice(0, 5).map(({ post, score }) => `• ${post.title} (${score})`).join('\n');
+            const more = belowThreshold.length > 5 ? `\n…and ${belowThreshold.length - 5} more` : '';
+            if (!window.confirm(`${belowThreshold.length} of the selected posts score below your minimum of ${minScore}:\n${titles}${more}\n\nSend them to WordPress anyway?`)) return;
+        }
+        const skipped = new Set(mode === 'block' ? belowThreshold.map(({ post }) => post.id) : []);
+        const postsToPublish = selected.filter(post => !skipped.has(post.id));
+        if (postsToPublish.length === 0) return;
+        const { postsPerWeek, startDate, time } = state.publishingCadence;
+        const schedule = status === 'future'
+            ? buildPublishingSchedule(postsToPublish, postsPerWeek, new Date(`${startDate}T00:00`), time, new Set(state.scheduledPosts.map(post => toDayKey(new Date(post.date)))))
+            : postsToPublish.map(item => ({ item, date: null }));
+        if (status === 'future' && schedule[0].date.getTime() <= Date.now()) {
+            dispatch({ type: 'FETCH_ERROR', payload: 'The publishing cadence starts in the past. Pick a later start date in the content calendar settings.' });
+            return;
+        }
+        dispatch({ type: 'BULK_PUBLISH_START', payload: postsToPublish.length });
+        const seoPlugin = await resolveSeoPlugin();
+        const multilingualPlugin = await resolveMultilingualPlugin();
+        let published = 0;
+        for (const { item, date } of schedule) {
+            if (await handlePublish(item, { status, date, expectedModified: item.modified, seoPlugin, multilingualPlugin })) published++;
+            dispatch({ type: 'BULK_PUBLISH_PROGRESS' });
         }
+        dispatch({ type: 'BULK_PUBLISH_COMPLETE', payload: { published, total: postsToPublish.length } });
     };
     
     const renderContent = () => {
         switch (state.currentStep) {
-            case 1: return <ConfigStep state={state} dispatch={dispatch} onFetchSitemap={handleFetchSitemap} onValidateKey={handleValidateKey} />;
-            case 2: return <ContentStep state={state} dispatch={dispatch} onGenerateContent={handleGenerateContent} onFetchExistingPosts={handleFetchExistingPosts} onGenerateAll={handleGenerateAll} onGeneratePillarTopics={handleGeneratePillarTopics} onGenerateClusterTopics={handleGenerateClusterTopics} />;
+            case 1: return <ConfigStep state={state} dispatch={dispatch} onFetchSitemap={handleFetchSitemap} onValidateKey={handleValidateKey} onUnlockVault={handleUnlockVault} onForgetSite={handleForgetSite} />;
+            case 2: return <ContentStep state={state} dispatch={dispatch} onGenerateContent={handleGenerateContent} onFetchExistingPosts={handleFetchExistingPosts} onGenerateAll={handleGenerateAll} onGeneratePillarTopics={handleGeneratePillarTopics} onGenerateClusterTopics={handleGenerateClusterTopics} onFetchScheduledPosts={handleFetchScheduledPosts} onScanClusterLinks={handleScanClusterLinks} onRollback={handleRollback} onClearWorkspace={handleClearWorkspace} onPauseBulk={handlePauseBulk} onResumeBulk={handleResumeBulk} onCancelBulk={handleCancelBulk} onBulkPublish={handleBulkPublish} />;
             default: return <div>Error: Invalid step.</div>;
         }
     };
@@ -1383,7 +7272,8 @@ Return a single, valid JSON object. This object MUST have two keys: "existingAss
                 
                 {renderContent()}
 
-                 {state.isReviewModalOpen && <ReviewModal state={state} dispatch={dispatch} onPublish={handlePublish} onClose={() => dispatch({ type: 'CLOSE_REVIEW_MODAL' })} />}
+                 {state.liveGeneration && <LiveGenerationPanel generation={state.liveGeneration} onCancel={handleCancelGeneration} />}
+                 {state.isReviewModalOpen && <ReviewModal state={state} dispatch={dispatch} onPublish={handlePublish} onRollback={handleRollback} onLoadOriginal={handleFetchOriginalPost} onEnrichSchema={handleEnrichSchema} onCheckLinks={handleCheckExternalLinks} onLoadInventory={resolveSiteInventory} onTranslate={handleTranslatePost} onGenerateImage={handleGenerateImage} onSearchMedia={query => searchWpMedia(getWpContext(), query)} onDescribeImage={handleDescribeImage} onRegenerateSection={handleRegenerateSection} onClose={() => dispatch({ type: 'CLOSE_REVIEW_MODAL' })} />}
             </div>
             <Footer />
         </>